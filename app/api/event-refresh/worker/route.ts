@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runEventRefresh } from '@/lib/event-refresh'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const RUN_BUDGET_MS = Number(process.env.EVENT_REFRESH_RUN_BUDGET_MS) || 45000
+
+// Scheduled refresh (see vercel.json crons): re-fetches upcoming events and
+// records date changes, cancellations and removed pages
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const counts = await runEventRefresh({ budgetMs: RUN_BUDGET_MS })
+
+    return NextResponse.json({ success: true, ...counts })
+
+  } catch (error) {
+    console.error('Event refresh error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
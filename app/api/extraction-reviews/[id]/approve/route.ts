@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { approveExtractionReview } from '@/lib/lead-ingestion'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const CORRECTABLE_FIELDS = ['nome_evento', 'data_evento', 'local', 'produtor', 'website'] as const
+
+// Create the lead of a queued import, with the fields the reviewer corrected
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const body = await request.json().catch(() => ({}))
+    const fields = body.fields || {}
+
+    const corrections: Partial<Record<typeof CORRECTABLE_FIELDS[number], string>> = {}
+    for (const field of CORRECTABLE_FIELDS) {
+      if (fields[field] === undefined || fields[field] === null) continue
+      if (typeof fields[field] !== 'string' || fields[field].length > 500) {
+        return NextResponse.json(
+          { error: `${field} must be text of up to 500 characters` },
+          { status: 400 }
+        )
+      }
+      corrections[field] = fields[field]
+    }
+
+    const { lead, error } = await approveExtractionReview(params.id, userId, corrections)
+
+    if (error || !lead) {
+      console.error(`Error approving extraction review ${params.id}:`, error)
+      return NextResponse.json(
+        { error: error || 'Failed to approve review' },
+        { status: error === 'Review not found' ? 404 : 422 }
+      )
+    }
+
+    return NextResponse.json({ success: true, lead })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { closeExtractionReview } from '@/lib/extraction-reviews'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Drop a queued import without creating a lead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { data, error } = await closeExtractionReview(params.id, userId, { status: 'rejected' })
+
+    if (error || !data) {
+      console.error(`Error rejecting extraction review ${params.id}:`, error)
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, review: data })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
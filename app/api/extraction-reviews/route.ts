@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listExtractionReviews } from '@/lib/extraction-reviews'
+import type { ExtractionReviewStatus } from '@/lib/supabase'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const STATUSES: ExtractionReviewStatus[] = ['pending', 'approved', 'rejected']
+
+// Imports in the review queue (pending by default, ?status= for the closed ones)
+export async function GET(request: NextRequest) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'pending') as ExtractionReviewStatus
+
+    if (STATUSES.indexOf(status) === -1) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await listExtractionReviews(userId, status)
+
+    if (error) {
+      console.error('Error fetching extraction reviews:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch extraction reviews' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ reviews: data || [] })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
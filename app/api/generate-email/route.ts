@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { formatEventDate, formatEventDateRange } from '@/lib/pt-br-dates'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -40,12 +41,25 @@ interface EmailGenerationRequest {
   organizerWebsite?: string
   eventName?: string
   eventDate?: string
+  // Parsed event.start_at/end_at; eventDate is the text shown on the ticketing page
+  eventStartAt?: string
+  eventEndAt?: string
+  eventTimezone?: string
+  eventDescription?: string
   eventLocation?: string
   contactName?: string
   contactPosition?: string
   contactEmail?: string
 }
 
+// First sentence of the event description, skipped when too long to quote naturally
+function firstSentence(description?: string): string | null {
+  if (!description) return null
+  const text = description.replace(/\s+/g, ' ').trim()
+  const sentence = (text.match(/^.*?[.!?](?=\s|$)/)?.[0] || text).replace(/[.!?]+$/, '')
+  return sentence.length >= 20 && sentence.length <= 160 ? sentence : null
+}
+
 function generatePersonalizedEmail(data: EmailGenerationRequest): {
   subject: string
   body: string
@@ -74,8 +88,11 @@ function generatePersonalizedEmail(data: EmailGenerationRequest): {
   let eventContent = ""
   if (data.eventName) {
     eventContent = `\n\nTive a oportunidade de conhecer o ${data.eventName}`
-    if (data.eventDate) {
-      eventContent += `, que acontecerá em ${new Date(data.eventDate).toLocaleDateString('pt-BR')}`
+    const eventDate = data.eventStartAt
+      ? formatEventDateRange(data.eventStartAt, data.eventEndAt, data.eventTimezone)
+      : formatEventDate(null, data.eventDate)
+    if (eventDate) {
+      eventContent += `, que acontecerá em ${eventDate}`
       personalizedElements.push(`Data do evento incluída`)
     }
     if (data.eventLocation) {
@@ -83,6 +100,11 @@ function generatePersonalizedEmail(data: EmailGenerationRequest): {
       personalizedElements.push(`Local do evento mencionado`)
     }
     eventContent += `, e gostaria de apresentar minha proposta para atuar como apresentadora do evento.`
+    const highlight = firstSentence(data.eventDescription)
+    if (highlight) {
+      eventContent += ` A proposta do evento — "${highlight}" — combina muito com a minha experiência.`
+      personalizedElements.push(`Descrição do evento referenciada`)
+    }
   } else {
     eventContent = `\n\nGostaria de apresentar minha proposta para atuar como apresentadora em eventos organizados pela ${data.organizerName}.`
   }
@@ -166,6 +188,10 @@ export async function POST(request: NextRequest) {
       organizerWebsite,
       eventName,
       eventDate,
+      eventStartAt,
+      eventEndAt,
+      eventTimezone,
+      eventDescription,
       eventLocation,
       contactName,
       contactPosition,
@@ -185,6 +211,10 @@ export async function POST(request: NextRequest) {
       organizerWebsite,
       eventName,
       eventDate,
+      eventStartAt,
+      eventEndAt,
+      eventTimezone,
+      eventDescription,
       eventLocation,
       contactName,
       contactPosition,
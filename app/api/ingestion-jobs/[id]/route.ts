@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getIngestionJob } from '@/lib/ingestion-jobs'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+
+    const { data, error } = await getIngestionJob(params.id, userId)
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Job not found or access denied' }, { status: 404 })
+    }
+
+    return NextResponse.json(data)
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getIngestionJob, runIngestionWorker } from '@/lib/ingestion-jobs'
+import { ndjsonResponse } from '@/lib/ndjson-stream'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// Stop claiming new items after this long so the request ends before the platform timeout
+const RUN_BUDGET_MS = Number(process.env.INGESTION_RUN_BUDGET_MS) || 45000
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+
+    // Verify the job belongs to the user before working on it
+    const { data: existing, error: fetchError } = await getIngestionJob(params.id, userId)
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: 'Job not found or access denied' }, { status: 404 })
+    }
+
+    // ?stream=1 sends each item's pipeline steps as NDJSON, ending with the usual body
+    if (request.nextUrl.searchParams.get('stream') === '1') {
+      return ndjsonResponse(async send => {
+        const { processed } = await runIngestionWorker({
+          jobId: params.id,
+          budgetMs: RUN_BUDGET_MS,
+          onProgress: (itemId, event) => send({ type: 'progress', item_id: itemId, ...event })
+        })
+
+        const { data } = await getIngestionJob(params.id, userId)
+        send({ type: 'complete', processed, ...data })
+      })
+    }
+
+    const { processed } = await runIngestionWorker({ jobId: params.id, budgetMs: RUN_BUDGET_MS })
+
+    const { data } = await getIngestionJob(params.id, userId)
+
+    return NextResponse.json({ processed, ...data })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { retryIngestionItem } from '@/lib/ingestion-jobs'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+
+    const { data: item, error } = await retryIngestionItem(params.itemId, userId)
+
+    if (error || !item) {
+      return NextResponse.json(
+        { error: 'Item not found or not in failed state' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ item })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLinksJob, createDiscoveryJob, listIngestionJobs } from '@/lib/ingestion-jobs'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+
+    const { data: jobs, error } = await listIngestionJobs(userId)
+
+    if (error) {
+      console.error('Error fetching ingestion jobs:', error)
+      return NextResponse.json({ error: 'Failed to fetch ingestion jobs' }, { status: 500 })
+    }
+
+    return NextResponse.json({ jobs: jobs || [] })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+    const body = await request.json()
+    const { links, discovery, includePastEvents } = body
+
+    if (discovery) {
+      if (!discovery.listingUrl && !discovery.keyword) {
+        return NextResponse.json(
+          { error: 'Discovery requires a listing URL or a keyword' },
+          { status: 400 }
+        )
+      }
+
+      const { data: job, error } = await createDiscoveryJob(userId, discovery)
+
+      if (error || !job) {
+        console.error('Error creating discovery job:', error)
+        return NextResponse.json(
+          { error: error?.message || 'Failed to create ingestion job' },
+          { status: 502 }
+        )
+      }
+
+      return NextResponse.json({ job }, { status: 201 })
+    }
+
+    if (!links || !Array.isArray(links) || links.length === 0) {
+      return NextResponse.json(
+        { error: 'Links array is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: job, error } = await createLinksJob(userId, links, { includePastEvents })
+
+    if (error || !job) {
+      console.error('Error creating ingestion job:', error)
+      return NextResponse.json(
+        { error: 'Failed to create ingestion job' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ job }, { status: 201 })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runIngestionWorker } from '@/lib/ingestion-jobs'
+import { getBrowserPoolStats } from '@/lib/event-sources/browser-pool'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const RUN_BUDGET_MS = Number(process.env.INGESTION_RUN_BUDGET_MS) || 45000
+
+// Scheduled worker (see vercel.json crons): drains queued items of every user,
+// so jobs keep progressing after the prospecção page is closed
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { processed } = await runIngestionWorker({ budgetMs: RUN_BUDGET_MS })
+
+    return NextResponse.json({ success: true, processed, browser: getBrowserPoolStats() })
+
+  } catch (error) {
+    console.error('Ingestion worker error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readSpreadsheet, SPREADSHEET_EXTENSIONS } from '@/lib/spreadsheets'
+import { guessColumnMapping } from '@/lib/lead-import-mapping'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Reads an uploaded CSV/XLSX file (multipart field "file") and suggests a column mapping
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 })
+    }
+
+    const fileName = file.name.toLowerCase()
+    if (!SPREADSHEET_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      return NextResponse.json(
+        { error: `Unsupported file type, use ${SPREADSHEET_EXTENSIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: rows, error } = readSpreadsheet(file.name, Buffer.from(await file.arrayBuffer()))
+
+    if (error || !rows) {
+      return NextResponse.json({ error: error || 'Could not read the spreadsheet' }, { status: 400 })
+    }
+
+    const [headers, ...dataRows] = rows
+
+    return NextResponse.json({
+      headers,
+      rows: dataRows,
+      mapping: guessColumnMapping(headers)
+    })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
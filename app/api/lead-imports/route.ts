@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { previewLeadImport } from '@/lib/lead-import'
+import { createSpreadsheetJob } from '@/lib/ingestion-jobs'
+import { applyColumnMapping, ColumnMapping, IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS } from '@/lib/lead-import-mapping'
+import { MAX_SPREADSHEET_ROWS } from '@/lib/spreadsheets'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Body: { rows: string[][] (header excluded), mapping: { field: column }, dryRun?: boolean }.
+// dryRun returns the preview; otherwise an ingestion job is created to save the
+// new rows as leads, run through /api/ingestion-jobs/[id]/run like pasted links.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+    const body = await request.json()
+    const { rows, mapping, dryRun } = body
+
+    if (!Array.isArray(rows) || rows.some(row => !Array.isArray(row))) {
+      return NextResponse.json({ error: 'Rows array is required' }, { status: 400 })
+    }
+
+    if (rows.length > MAX_SPREADSHEET_ROWS) {
+      return NextResponse.json({ error: `At most ${MAX_SPREADSHEET_ROWS} rows per import` }, { status: 400 })
+    }
+
+    if (!mapping || typeof mapping !== 'object') {
+      return NextResponse.json({ error: 'Column mapping is required' }, { status: 400 })
+    }
+
+    const columns: ColumnMapping = {}
+    for (const field of IMPORT_FIELDS) {
+      const column = mapping[field]
+      if (column === undefined || column === null) continue
+      if (!Number.isInteger(column) || column < 0) {
+        return NextResponse.json({ error: `Invalid column for ${field}` }, { status: 400 })
+      }
+      columns[field] = column
+    }
+
+    const unmapped = REQUIRED_IMPORT_FIELDS.filter(field => columns[field] === undefined)
+    if (unmapped.length > 0) {
+      return NextResponse.json({ error: `Map a column to: ${unmapped.join(', ')}` }, { status: 400 })
+    }
+
+    const cells: string[][] = rows.map((row: any[]) => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+    const importRows = applyColumnMapping(cells, columns)
+
+    if (dryRun) {
+      const { data: preview, error } = await previewLeadImport(importRows, userId)
+
+      if (error || !preview) {
+        console.error('Error previewing lead import:', error)
+        return NextResponse.json({ error: 'Failed to preview import' }, { status: 500 })
+      }
+
+      return NextResponse.json({ preview })
+    }
+
+    const { data: job, error } = await createSpreadsheetJob(userId, importRows)
+
+    if (error || !job) {
+      console.error('Error creating import job:', error)
+      return NextResponse.json({ error: error?.message || 'Failed to create import job' }, { status: 500 })
+    }
+
+    return NextResponse.json({ job })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listLeadEventChanges, markLeadEventChangesSeen } from '@/lib/event-refresh'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Changes the refresh job found on the lead's event
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { data: changes, error } = await listLeadEventChanges(params.id, userId)
+
+    if (error) {
+      console.error('Error fetching event changes:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch event changes' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ changes })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Mark the changes as seen, clearing the "event changed" badge
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { error } = await markLeadEventChangesSeen(params.id, userId)
+
+    if (error) {
+      console.error('Error acknowledging event changes:', error)
+      return NextResponse.json(
+        { error: 'Failed to update event' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
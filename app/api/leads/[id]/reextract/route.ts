@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reextractLead } from '@/lib/lead-ingestion'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Re-run extraction on the latest saved page of the lead's event, without refetching
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { lead, error } = await reextractLead(params.id, userId)
+
+    if (error || !lead) {
+      console.error(`Error re-extracting lead ${params.id}:`, error)
+      return NextResponse.json(
+        { error: error || 'Failed to re-extract lead' },
+        { status: error === 'Lead not found' ? 404 : 422 }
+      )
+    }
+
+    return NextResponse.json({ success: true, lead })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getEventSnapshot } from '@/lib/event-snapshots'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// One saved page with its HTML. The HTML is returned as JSON, never served as a
+// page from this origin; the viewer renders it in a sandboxed iframe.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; snapshotId: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('event_id')
+      .eq('id', params.id)
+      .eq('user_id', userId)
+      .single()
+
+    if (leadError || !lead) {
+      return NextResponse.json(
+        { error: 'Lead not found or unauthorized' },
+        { status: 404 }
+      )
+    }
+
+    const { data: snapshot, error } = await getEventSnapshot(lead.event_id, userId, params.snapshotId)
+
+    if (error) {
+      console.error('Error fetching snapshot:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch snapshot' },
+        { status: 500 }
+      )
+    }
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ snapshot })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { listEventSnapshots } from '@/lib/event-snapshots'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// Pages saved when the lead's event was imported (HTML is fetched one at a time)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('event_id')
+      .eq('id', params.id)
+      .eq('user_id', userId)
+      .single()
+
+    if (leadError || !lead) {
+      return NextResponse.json(
+        { error: 'Lead not found or unauthorized' },
+        { status: 404 }
+      )
+    }
+
+    const { data: snapshots, error } = await listEventSnapshots(lead.event_id, userId)
+
+    if (error) {
+      console.error('Error fetching snapshots:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch snapshots' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ snapshots })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
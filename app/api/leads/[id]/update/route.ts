@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { setEventSegment } from '@/lib/event-classification'
+import { isEventSegment } from '@/lib/event-segments'
+import { isPlaceholderValue } from '@/lib/event-sources/field-confidence'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -31,7 +34,22 @@ export async function PATCH(
     const body = await request.json()
 
     // For normalized structure, we need to handle updates differently
-    const { organizer_name, organizer_website, contact_name, contact_email, contact_position, status_busca } = body
+    const { organizer_name, organizer_website, contact_name, contact_email, contact_position, status_busca, event_segment } = body
+
+    if (event_segment !== undefined && event_segment !== null && !isEventSegment(event_segment)) {
+      return NextResponse.json(
+        { error: 'Invalid event segment' },
+        { status: 400 }
+      )
+    }
+
+    // "Não informado" would turn the organizer into one every such event ends up under
+    if (organizer_name !== undefined && (typeof organizer_name !== 'string' || isPlaceholderValue(organizer_name))) {
+      return NextResponse.json(
+        { error: 'Organizer name is required' },
+        { status: 400 }
+      )
+    }
 
     // First, get the current lead to access related IDs
     const { data: currentLead, error: fetchError } = await supabase
@@ -51,7 +69,7 @@ export async function PATCH(
     // Handle organizer updates
     if (organizer_name !== undefined || organizer_website !== undefined) {
       const organizerUpdate: any = {}
-      if (organizer_name !== undefined) organizerUpdate.name = organizer_name
+      if (organizer_name !== undefined) organizerUpdate.name = organizer_name.trim()
       if (organizer_website !== undefined) organizerUpdate.website = organizer_website
 
       const { error: organizerError } = await supabase
@@ -69,6 +87,19 @@ export async function PATCH(
       }
     }
 
+    // Segment picked by hand; null hands it back to the classifier
+    if (event_segment !== undefined) {
+      const { error: segmentError } = await setEventSegment(currentLead.event_id, userId, event_segment)
+
+      if (segmentError) {
+        console.error('Error updating event segment:', segmentError)
+        return NextResponse.json(
+          { error: 'Failed to update event segment' },
+          { status: 500 }
+        )
+      }
+    }
+
     // Handle contact creation/update
     if (contact_name !== undefined || contact_email !== undefined || contact_position !== undefined) {
       // First try to find existing contact with the same email
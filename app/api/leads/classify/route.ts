@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { classifyEvents } from '@/lib/event-classification'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Classify the segments of the user's events still without one (or only of
+// `leadIds`), with the LLM for the ones the keyword rules cannot place when
+// `useLlm` is set
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+    const body = await request.json().catch(() => ({}))
+    const { leadIds, useLlm } = body
+
+    if (leadIds !== undefined && (!Array.isArray(leadIds) || leadIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'leadIds must be an array of lead IDs' }, { status: 400 })
+    }
+
+    let eventIds: string[] | undefined
+    if (leadIds) {
+      const { data: leads, error } = await supabase
+        .from('leads')
+        .select('event_id')
+        .eq('user_id', userId)
+        .in('id', leadIds)
+
+      if (error) {
+        console.error('Error loading leads to classify:', error)
+        return NextResponse.json({ error: 'Failed to load leads' }, { status: 500 })
+      }
+
+      eventIds = (leads || []).map(lead => lead.event_id)
+    }
+
+    const { data: summary, error } = await classifyEvents(userId, {
+      eventIds,
+      useLlm: useLlm === true,
+      onlyUnclassified: true
+    })
+
+    if (error || !summary) {
+      console.error('Error classifying events:', error)
+      return NextResponse.json({ error: 'Failed to classify events' }, { status: 500 })
+    }
+
+    return NextResponse.json({ summary })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
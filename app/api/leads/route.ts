@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { createManualLead } from '@/lib/lead-import'
+import { IMPORT_FIELDS, ImportField } from '@/lib/lead-import-mapping'
+import { isLeadOrigin, MANUAL_LEAD_ORIGINS } from '@/lib/lead-origins'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -36,4 +39,49 @@ export async function GET(request: NextRequest) {
     console.error('API error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// New lead entered by hand: event, organizer (organizer_id from the
+// autocomplete or organizer name), optional contact and the lead's origin
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+    const body = await request.json()
+    const { origin, organizer_id } = body
+
+    if (!isLeadOrigin(origin) || MANUAL_LEAD_ORIGINS.indexOf(origin) === -1) {
+      return NextResponse.json(
+        { error: `origin must be one of: ${MANUAL_LEAD_ORIGINS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const values: Partial<Record<ImportField, string>> = {}
+    for (const field of IMPORT_FIELDS) {
+      const value = body[field]
+      if (value === undefined || value === null) continue
+      if (typeof value !== 'string') {
+        return NextResponse.json({ error: `${field} must be a string` }, { status: 400 })
+      }
+      values[field] = value
+    }
+
+    const outcome = await createManualLead(values, origin, userId, typeof organizer_id === 'string' ? organizer_id : null)
+
+    if (outcome.status === 'created') {
+      return NextResponse.json({ lead: outcome.lead }, { status: 201 })
+    }
+
+    const status = outcome.status === 'invalid' ? 400 : outcome.status === 'duplicate' ? 409 : 500
+    return NextResponse.json({ error: outcome.errors.join('; '), errors: outcome.errors }, { status })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLlmUsageReport } from '@/lib/llm-usage'
+import { getUserLlmSettings } from '@/lib/llm-settings'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const MAX_MONTHS = 24
+
+// Monthly LLM usage and cost of the user, with the budget in effect
+export async function GET(request: NextRequest) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { searchParams } = new URL(request.url)
+    const months = Math.min(Math.max(parseInt(searchParams.get('months') || '6') || 6, 1), MAX_MONTHS)
+
+    const [report, settings] = await Promise.all([
+      getLlmUsageReport(userId, months),
+      getUserLlmSettings(userId)
+    ])
+
+    if (report.error || !report.data) {
+      console.error('Error fetching LLM usage:', report.error)
+      return NextResponse.json(
+        { error: 'Failed to fetch LLM usage' },
+        { status: 500 }
+      )
+    }
+
+    const budgetUsd = settings.data ? settings.data.effective.monthly_budget_usd : null
+    const spentUsd = report.data.months[report.data.months.length - 1].cost_usd
+
+    return NextResponse.json({
+      ...report.data,
+      budget: {
+        budget_usd: budgetUsd,
+        spent_usd: spentUsd,
+        blocked: budgetUsd !== null && spentUsd >= budgetUsd
+      }
+    })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { parsePtBrDateRange } from '@/lib/pt-br-dates'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const BATCH_SIZE = 200
+
+// One-off backfill of event.start_at/end_at from data_evento (see sql/17_add_event_dates.sql).
+// Pass ?retryFailed=1 to re-parse rows flagged as unparsed after the parser improves.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const retryFailed = request.nextUrl.searchParams.get('retryFailed') === '1'
+    let lastEventId: string | null = null
+    let parsed = 0
+    let failed = 0
+
+    while (true) {
+      let query = supabase
+        .from('event')
+        .select('event_id, data_evento')
+        .is('start_at', null)
+        .order('event_id', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (!retryFailed) {
+        query = query.eq('date_parse_failed', false)
+      }
+      if (lastEventId) {
+        query = query.gt('event_id', lastEventId)
+      }
+
+      const { data: events, error } = await query
+
+      if (error) {
+        console.error('Error fetching events to backfill:', error)
+        return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 })
+      }
+
+      if (!events || events.length === 0) break
+
+      for (const event of events) {
+        const dates = parsePtBrDateRange(event.data_evento)
+
+        const { error: updateError } = await supabase
+          .from('event')
+          .update({
+            start_at: dates?.start_at || null,
+            end_at: dates?.end_at || null,
+            date_parse_failed: !dates
+          })
+          .eq('event_id', event.event_id)
+
+        if (updateError) {
+          console.error(`Error updating dates for event ${event.event_id}:`, updateError)
+          continue
+        }
+
+        if (dates) {
+          parsed++
+        } else {
+          failed++
+          console.warn(`Could not parse date for event ${event.event_id}: "${event.data_evento}"`)
+        }
+      }
+
+      lastEventId = events[events.length - 1].event_id
+    }
+
+    return NextResponse.json({ success: true, parsed, failed })
+
+  } catch (error) {
+    console.error('Backfill error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { normalizeLocation, isLocationUnresolved } from '@/lib/location'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const BATCH_SIZE = 200
+
+// One-off backfill of event venue/city/state from local (see sql/19_add_event_location.sql).
+// Pass ?retryFailed=1 to re-parse rows flagged as unresolved after the normalizer improves.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const retryFailed = request.nextUrl.searchParams.get('retryFailed') === '1'
+    let lastEventId: string | null = null
+    let resolved = 0
+    let unresolved = 0
+
+    while (true) {
+      let query = supabase
+        .from('event')
+        .select('event_id, local')
+        .is('city', null)
+        .is('venue', null)
+        .order('event_id', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (!retryFailed) {
+        query = query.eq('location_parse_failed', false)
+      }
+      if (lastEventId) {
+        query = query.gt('event_id', lastEventId)
+      }
+
+      const { data: events, error } = await query
+
+      if (error) {
+        console.error('Error fetching events to backfill:', error)
+        return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 })
+      }
+
+      if (!events || events.length === 0) break
+
+      for (const event of events) {
+        const location = normalizeLocation(event.local)
+        const failed = isLocationUnresolved(event.local, location)
+
+        const { error: updateError } = await supabase
+          .from('event')
+          .update({ ...location, location_parse_failed: failed })
+          .eq('event_id', event.event_id)
+
+        if (updateError) {
+          console.error(`Error updating location for event ${event.event_id}:`, updateError)
+          continue
+        }
+
+        if (failed) {
+          unresolved++
+          console.warn(`Could not identify the city for event ${event.event_id}: "${event.local}"`)
+        } else {
+          resolved++
+        }
+      }
+
+      lastEventId = events[events.length - 1].event_id
+    }
+
+    return NextResponse.json({ success: true, resolved, unresolved })
+
+  } catch (error) {
+    console.error('Backfill error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { canonicalizeEventUrl, getEventKey } from '@/lib/event-sources/event-urls'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const BATCH_SIZE = 500
+
+// Details copied from a duplicate when the kept event lacks them
+const MERGED_COLUMNS = [
+  'description', 'start_at', 'end_at', 'timezone',
+  'venue', 'street', 'city', 'state', 'country', 'ibge_code'
+]
+
+// Rows that reference an event and outlive a merge
+const EVENT_HISTORY_TABLES = ['event_snapshot', 'event_change', 'llm_usage']
+
+interface EventRow {
+  event_id: string
+  user_id: string
+  sympla_url: string
+  event_key: string | null
+  created_at: string
+}
+
+// One-off job: canonicalize event URLs, fill event_key and merge events a user
+// imported more than once (see sql/20_add_event_key.sql). Duplicates are only
+// ever merged within one user. Pass ?dryRun=1 to list the groups without changes.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === '1'
+    const groups = new Map<string, EventRow[]>()
+    let lastEventId: string | null = null
+
+    while (true) {
+      let query = supabase
+        .from('event')
+        .select('event_id, user_id, sympla_url, event_key, created_at')
+        // Events without a URL have no URL identity to merge on
+        .not('sympla_url', 'is', null)
+        .order('event_id', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (lastEventId) {
+        query = query.gt('event_id', lastEventId)
+      }
+
+      const { data: events, error } = await query
+
+      if (error) {
+        console.error('Error fetching events to merge:', error)
+        return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 })
+      }
+
+      if (!events || events.length === 0) break
+
+      for (const event of events as EventRow[]) {
+        const groupKey = `${event.user_id} ${getEventKey(event.sympla_url)}`
+        const group = groups.get(groupKey) || []
+        group.push(event)
+        groups.set(groupKey, group)
+      }
+
+      lastEventId = events[events.length - 1].event_id
+    }
+
+    let canonicalized = 0
+    let merged = 0
+    const duplicateGroups: { event_key: string; kept: string; merged: string[] }[] = []
+
+    for (const group of Array.from(groups.values())) {
+      // The first import wins; later copies are folded into it
+      const [kept, ...duplicates] = group.sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+      if (duplicates.length > 0) {
+        duplicateGroups.push({
+          event_key: getEventKey(kept.sympla_url),
+          kept: kept.event_id,
+          merged: duplicates.map(event => event.event_id)
+        })
+      }
+
+      if (dryRun) continue
+
+      for (const duplicate of duplicates) {
+        const { error } = await mergeEvent(kept, duplicate)
+        if (error) {
+          console.error(`Error merging event ${duplicate.event_id} into ${kept.event_id}:`, error)
+          continue
+        }
+        merged++
+      }
+
+      // Duplicates are gone by now, so the canonical URL no longer collides
+      const sympla_url = canonicalizeEventUrl(kept.sympla_url)
+      const event_key = getEventKey(sympla_url)
+      if (sympla_url === kept.sympla_url && event_key === kept.event_key) continue
+
+      const { error: updateError } = await supabase
+        .from('event')
+        .update({ sympla_url, event_key })
+        .eq('event_id', kept.event_id)
+
+      if (updateError) {
+        console.error(`Error canonicalizing event ${kept.event_id}:`, updateError)
+        continue
+      }
+      canonicalized++
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      canonicalized,
+      merged,
+      duplicateGroups
+    })
+
+  } catch (error) {
+    console.error('Merge duplicates error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Move a duplicate event's lead onto the kept event and delete the duplicate
+ */
+async function mergeEvent(kept: EventRow, duplicate: EventRow): Promise<{ error: any }> {
+  const { data: events, error: fetchError } = await supabase
+    .from('event')
+    .select('*')
+    .in('event_id', [kept.event_id, duplicate.event_id])
+
+  if (fetchError) return { error: fetchError }
+
+  const keptRow = events?.find(event => event.event_id === kept.event_id)
+  const duplicateRow = events?.find(event => event.event_id === duplicate.event_id)
+  if (!keptRow || !duplicateRow) return { error: { message: 'Event not found' } }
+
+  const fill: Record<string, any> = {}
+  for (const column of MERGED_COLUMNS) {
+    if (keptRow[column] == null && duplicateRow[column] != null) {
+      fill[column] = duplicateRow[column]
+    }
+  }
+
+  if (Object.keys(fill).length > 0) {
+    const { error } = await supabase.from('event').update(fill).eq('event_id', kept.event_id)
+    if (error) return { error }
+  }
+
+  const { data: leads, error: leadsError } = await supabase
+    .from('leads')
+    .select('id, event_id, contato_verificado')
+    .in('event_id', [kept.event_id, duplicate.event_id])
+
+  if (leadsError) return { error: leadsError }
+
+  let keptLead = leads?.find(lead => lead.event_id === kept.event_id)
+  const duplicateLeads = (leads || []).filter(lead => lead.event_id === duplicate.event_id)
+
+  for (const lead of duplicateLeads) {
+    if (!keptLead) {
+      // The kept event has no lead yet: reuse this one. The lead follows the
+      // event to its organizer, as validate_leads_references requires
+      const { error } = await supabase
+        .from('leads')
+        .update({ event_id: kept.event_id, organizer_id: keptRow.organizer_id })
+        .eq('id', lead.id)
+      if (error) return { error }
+      keptLead = lead
+      continue
+    }
+
+    const { error: itemsError } = await supabase
+      .from('ingestion_job_item')
+      .update({ lead_id: keptLead.id })
+      .eq('lead_id', lead.id)
+    if (itemsError) return { error: itemsError }
+
+    if (lead.contato_verificado && !keptLead.contato_verificado) {
+      const { error } = await supabase.from('leads').update({ contato_verificado: true }).eq('id', keptLead.id)
+      if (error) return { error }
+    }
+
+    const { error: deleteError } = await supabase.from('leads').delete().eq('id', lead.id)
+    if (deleteError) return { error: deleteError }
+  }
+
+  // Archived pages, change history and LLM usage would go with the duplicate
+  // (cascade or SET NULL); they belong to the kept event now
+  for (const table of EVENT_HISTORY_TABLES) {
+    const { error } = await supabase
+      .from(table)
+      .update({ event_id: kept.event_id })
+      .eq('event_id', duplicate.event_id)
+    if (error) return { error }
+  }
+
+  const { error } = await supabase.from('event').delete().eq('event_id', duplicate.event_id)
+  return { error }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setOrganizerSegment } from '@/lib/event-classification'
+import { isEventSegment } from '@/lib/event-segments'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Set the organizer's segment by hand; null makes it follow its events again
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { segment } = await request.json()
+
+    if (segment !== null && !isEventSegment(segment)) {
+      return NextResponse.json(
+        { error: 'Invalid segment' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await setOrganizerSegment(params.id, userId, segment)
+
+    if (error) {
+      console.error(`Error updating segment of organizer ${params.id}:`, error)
+      return NextResponse.json(
+        { error: error === 'Organizer not found' ? error : 'Failed to update organizer' },
+        { status: error === 'Organizer not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
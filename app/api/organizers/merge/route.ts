@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { mergeOrganizers } from '@/lib/organizers'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { survivorId, mergedIds } = await request.json()
+
+    if (!survivorId || !Array.isArray(mergedIds) || mergedIds.length === 0) {
+      return NextResponse.json(
+        { error: 'survivorId and mergedIds are required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: merged, error } = await mergeOrganizers(
+      userId,
+      survivorId,
+      mergedIds.filter((id: unknown) => typeof id === 'string' && id !== survivorId)
+    )
+
+    if (error) {
+      console.error('Error merging organizers:', error)
+      return NextResponse.json(
+        { error: 'Failed to merge organizers' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, merged })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
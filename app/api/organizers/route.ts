@@ -33,6 +33,8 @@ export async function GET(request: NextRequest) {
     const search = url.searchParams.get('search') || ''
     const sortBy = url.searchParams.get('sortBy') || 'name'
     const sortOrder = url.searchParams.get('sortOrder') || 'asc'
+    // A segment, or 'none' for organizers without one
+    const segment = url.searchParams.get('segment') || ''
 
     // Base query for organizers with contact counts
     let query = supabase
@@ -42,6 +44,8 @@ export async function GET(request: NextRequest) {
         name,
         website,
         user_id,
+        segment,
+        segment_source,
         created_at,
         updated_at,
         contacts:contact(count)
@@ -53,6 +57,12 @@ export async function GET(request: NextRequest) {
       query = query.or(`name.ilike.%${search}%,website.ilike.%${search}%`)
     }
 
+    if (segment === 'none') {
+      query = query.is('segment', null)
+    } else if (segment) {
+      query = query.eq('segment', segment)
+    }
+
     // Apply sorting
     const isAscending = sortOrder === 'asc'
     switch (sortBy) {
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+const MAX_RESULTS = 10
+
+// Organizer autocomplete: ?q= matches names containing the text
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = authHeader.replace('Bearer ', '')
+    // Wildcards typed by the user are matched literally
+    const q = (request.nextUrl.searchParams.get('q') || '').trim().replace(/[%_\\]/g, '\\$&')
+
+    if (q.length < 2) {
+      return NextResponse.json({ organizers: [] })
+    }
+
+    const { data: organizers, error } = await supabase
+      .from('organizer')
+      .select('organizer_id, name, website')
+      .eq('user_id', userId)
+      .ilike('name', `%${q}%`)
+      .order('name', { ascending: true })
+      .limit(MAX_RESULTS)
+
+    if (error) {
+      console.error('Error searching organizers:', error)
+      return NextResponse.json({ error: 'Failed to search organizers' }, { status: 500 })
+    }
+
+    return NextResponse.json({ organizers: organizers || [] })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserLlmSettings, updateUserLlmSettings } from '@/lib/llm-settings'
+import { isLlmProvider, LLM_PROVIDERS } from '@/lib/llm'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// The user's LLM provider/model, the settings in effect and the choices
+export async function GET(request: NextRequest) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { data, error } = await getUserLlmSettings(userId)
+
+    if (error || !data) {
+      console.error('Error fetching LLM settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch LLM settings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ...data, providers: LLM_PROVIDERS })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set or clear (null) the user's provider and model, and the monthly budget when sent
+export async function PUT(request: NextRequest) {
+  try {
+    // Get user ID from Authorization header
+    const authorization = request.headers.get('authorization')
+    if (!authorization) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = authorization.replace('Bearer ', '')
+    const { llm_provider, llm_model, llm_monthly_budget_usd } = await request.json()
+
+    if (llm_provider !== null && llm_provider !== undefined && !isLlmProvider(llm_provider)) {
+      return NextResponse.json(
+        { error: `llm_provider must be one of: ${LLM_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (llm_model !== null && llm_model !== undefined && (typeof llm_model !== 'string' || llm_model.length > 100)) {
+      return NextResponse.json(
+        { error: 'llm_model must be a model name' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      llm_monthly_budget_usd !== null && llm_monthly_budget_usd !== undefined &&
+      (typeof llm_monthly_budget_usd !== 'number' || !isFinite(llm_monthly_budget_usd) || llm_monthly_budget_usd < 0)
+    ) {
+      return NextResponse.json(
+        { error: 'llm_monthly_budget_usd must be a non-negative amount in US dollars' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await updateUserLlmSettings(userId, {
+      llm_provider: llm_provider || null,
+      llm_model: llm_model?.trim() || null,
+      llm_monthly_budget_usd
+    })
+
+    if (error) {
+      console.error('Error updating LLM settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update LLM settings' },
+        { status: 500 }
+      )
+    }
+
+    const { data } = await getUserLlmSettings(userId)
+    return NextResponse.json({ success: true, ...data })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
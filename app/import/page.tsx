@@ -0,0 +1,453 @@
+'use client'
+
+import React, { useState } from 'react'
+
+export const dynamic = 'force-dynamic'
+import { useAuth } from '@/lib/auth-context'
+import { ArrowLeft, Loader2, FileSpreadsheet, Upload, Eye, CheckCircle } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import type { ImportRowPreview, ImportRowStatus } from '@/lib/lead-import'
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField
+} from '@/lib/lead-import-mapping'
+import { MATCH_REASON_LABELS } from '@/lib/organizer-matching'
+import type { IngestionJobSummary } from '@/lib/supabase'
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'Novo',
+  duplicate: 'Duplicado',
+  invalid: 'Com erros'
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800'
+}
+
+interface ImportSummary {
+  created: number
+  duplicates: number
+  invalid: number
+  failed: number
+}
+
+// Rows saved so far by the import job
+interface ImportProgress {
+  processed: number
+  total: number
+}
+
+// Wait between run calls when another worker holds the remaining rows
+const POLL_INTERVAL_MS = 3000
+
+function summarizeJob(job: IngestionJobSummary): ImportSummary {
+  return {
+    created: job.item_counts.done,
+    duplicates: job.item_counts.duplicate,
+    invalid: job.options.invalidRows || 0,
+    failed: job.item_counts.failed
+  }
+}
+
+export default function ImportPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [preview, setPreview] = useState<ImportRowPreview[] | null>(null)
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [busy, setBusy] = useState<'parsing' | 'previewing' | 'importing' | null>(null)
+  const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null)
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message })
+    setTimeout(() => setNotification(null), 5000)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!user || !file) return
+
+    try {
+      setBusy('parsing')
+      setPreview(null)
+      setSummary(null)
+
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/lead-imports/parse', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: formData
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao ler a planilha')
+      }
+
+      setFileName(file.name)
+      setHeaders(data.headers || [])
+      setRows(data.rows || [])
+      setMapping(data.mapping || {})
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Erro ao ler a planilha')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+    // The preview no longer matches the mapping
+    setPreview(null)
+  }
+
+  const postImport = async (dryRun: boolean) => {
+    if (!user) return null
+
+    const response = await fetch('/api/lead-imports', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${user.id}`
+      },
+      body: JSON.stringify({ rows, mapping, dryRun })
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Erro ao processar a planilha')
+    }
+
+    return data
+  }
+
+  const handlePreview = async () => {
+    try {
+      setBusy('previewing')
+      setSummary(null)
+      const data = await postImport(true)
+      setPreview(data?.preview || [])
+    } catch (error) {
+      console.error('Error previewing import:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Erro ao gerar a pré-visualização')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  // Rows are saved by an ingestion job; keep calling its run endpoint until every row is done
+  const runImportJob = async (job: IngestionJobSummary): Promise<IngestionJobSummary> => {
+    while (job.status !== 'completed') {
+      setProgress({ processed: job.total_items - job.item_counts.queued - job.item_counts.running, total: job.total_items })
+
+      const response = await fetch(`/api/ingestion-jobs/${job.job_id}/run`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user?.id}`
+        }
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao importar a planilha')
+      }
+
+      job = data.job
+      if (data.processed === 0 && job.status !== 'completed') {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+      }
+    }
+
+    return job
+  }
+
+  const handleImport = async () => {
+    try {
+      setBusy('importing')
+      const data = await postImport(false)
+      if (!data) return
+
+      setPreview(null)
+      const job = await runImportJob(data.job)
+      const result = summarizeJob(job)
+
+      setSummary(result)
+      showNotification(
+        result.failed > 0 ? 'error' : 'success',
+        `${result.created} lead(s) criado(s)${result.failed > 0 ? `, ${result.failed} com falha` : ''}`
+      )
+    } catch (error) {
+      console.error('Error importing spreadsheet:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Erro ao importar a planilha')
+    } finally {
+      setBusy(null)
+      setProgress(null)
+    }
+  }
+
+  // Redirect to login if not authenticated
+  if (!user) {
+    router.push('/')
+    return null
+  }
+
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => mapping[field] === undefined)
+  const countByStatus = (status: ImportRowStatus) => (preview || []).filter(item => item.status === status).length
+  const newRows = countByStatus('new')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <button
+            onClick={() => router.push('/prospeccao')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-sm transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </button>
+        </div>
+
+        {/* Main content */}
+        <div className="max-w-6xl mx-auto">
+          <div className="bg-white rounded-3xl shadow-xl px-8 py-12">
+            <div className="text-center mb-8">
+              <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 mb-4">
+                Importar Planilha
+              </h1>
+              <p className="text-lg text-gray-600">
+                Envie uma planilha CSV ou XLSX com eventos e organizadores. A primeira linha deve ter os nomes das colunas.
+              </p>
+            </div>
+
+            {/* Notification */}
+            {notification && (
+              <div className={`mb-6 p-4 rounded-xl border ${
+                notification.type === 'success'
+                  ? 'bg-green-50 border-green-200'
+                  : 'bg-red-50 border-red-200'
+              }`}>
+                <p className={`font-medium ${
+                  notification.type === 'success' ? 'text-green-700' : 'text-red-700'
+                }`}>
+                  {notification.message}
+                </p>
+              </div>
+            )}
+
+            {/* File */}
+            <div className="flex flex-col items-center mb-8">
+              <label className={`inline-flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-semibold rounded-xl shadow-lg transition-all duration-200 ${
+                busy ? 'opacity-50 cursor-not-allowed' : 'hover:from-purple-700 hover:to-indigo-700 cursor-pointer'
+              }`}>
+                {busy === 'parsing' ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <Upload className="h-5 w-5 mr-2" />}
+                {fileName ? 'Escolher outra planilha' : 'Escolher planilha'}
+                <input
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  onChange={handleFileChange}
+                  disabled={busy !== null}
+                  className="hidden"
+                />
+              </label>
+              {fileName && (
+                <p className="mt-3 inline-flex items-center text-sm text-gray-600">
+                  <FileSpreadsheet className="h-4 w-4 mr-1" />
+                  {fileName} · {rows.length} linha(s)
+                </p>
+              )}
+            </div>
+
+            {/* Column mapping */}
+            {headers.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Colunas</h2>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <label key={field} className="block">
+                      <span className="block text-sm font-medium text-gray-700 mb-1">
+                        {IMPORT_FIELD_LABELS[field]}
+                        {REQUIRED_IMPORT_FIELDS.indexOf(field) !== -1 && <span className="text-red-500"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field] !== undefined ? String(mapping[field]) : ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">Não importar</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Coluna ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex justify-end mt-6">
+                  <button
+                    onClick={handlePreview}
+                    disabled={busy !== null || missingFields.length > 0 || rows.length === 0}
+                    title={missingFields.length > 0 ? `Escolha a coluna de: ${missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(', ')}` : undefined}
+                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {busy === 'previewing' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                    Pré-visualizar
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Preview */}
+            {preview && (
+              <div>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Pré-visualização</h2>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+                      <span key={status} className={`px-3 py-1 rounded-full font-medium ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}: {countByStatus(status)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                {preview.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">Nenhuma linha com dados nas colunas escolhidas</p>
+                ) : (
+                  <div className="overflow-x-auto border border-gray-200 rounded-2xl">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Linha</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Evento</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Organizador</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Contato</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Situação</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {preview.map(item => (
+                          <tr key={item.row.row_number} className={item.status === 'new' ? '' : 'bg-gray-50'}>
+                            <td className="px-4 py-3 text-gray-500">{item.row.row_number}</td>
+                            <td className="px-4 py-3">
+                              <p className="font-medium text-gray-900">{item.row.nome_evento || '—'}</p>
+                              <p className="text-gray-500">
+                                {[item.row.data_evento, item.row.local].filter(Boolean).join(' · ')}
+                              </p>
+                              {item.row.event_url && (
+                                <p className="text-xs text-indigo-600 break-all">{item.row.event_url}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              <p className="text-gray-900">{item.organizer_name || '—'}</p>
+                              {item.status !== 'invalid' && (
+                                <p className="text-xs text-gray-500">
+                                  {item.organizer_id && item.organizer_match
+                                    ? `Já cadastrado (${MATCH_REASON_LABELS[item.organizer_match].toLowerCase()})`
+                                    : 'Novo organizador'}
+                                </p>
+                              )}
+                              {item.possible_organizer && (
+                                <p className="text-xs text-orange-600">Parecido com {item.possible_organizer}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-gray-700">
+                              {[item.row.contact_name, item.row.contact_email, item.row.contact_position].filter(Boolean).join(' · ') || '—'}
+                            </td>
+                            <td className="px-4 py-3">
+                              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[item.status]}`}>
+                                {STATUS_LABELS[item.status]}
+                              </span>
+                              {item.errors.map(error => (
+                                <p key={error} className={`text-xs mt-1 ${item.status === 'invalid' ? 'text-red-600' : 'text-gray-500'}`}>
+                                  {error}
+                                </p>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="flex justify-end mt-6">
+                  <button
+                    onClick={handleImport}
+                    disabled={busy !== null || newRows === 0}
+                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {busy === 'importing' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                    Importar {newRows} lead(s)
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Import progress */}
+            {progress && (
+              <div className="p-6 bg-blue-50 border border-blue-200 rounded-2xl text-center mb-6">
+                <p className="text-lg font-semibold text-blue-800 mb-2 inline-flex items-center">
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                  Importando {progress.processed} de {progress.total} linha(s)
+                </p>
+                <p className="text-blue-700 text-sm">
+                  Se você sair desta página, a importação continua em segundo plano e pode ser acompanhada na prospecção.
+                </p>
+              </div>
+            )}
+
+            {/* Result */}
+            {summary && (
+              <div className="p-6 bg-green-50 border border-green-200 rounded-2xl text-center">
+                <p className="text-lg font-semibold text-green-800 mb-2">Importação concluída</p>
+                <p className="text-green-700 mb-4">
+                  {summary.created} lead(s) criado(s) · {summary.duplicates} duplicado(s) · {summary.invalid} com erros
+                  {summary.failed > 0 && ` · ${summary.failed} com falha`}
+                </p>
+                {summary.failed > 0 && (
+                  <p className="text-sm text-green-700 mb-4">
+                    As linhas com falha podem ser tentadas novamente na página de prospecção.
+                  </p>
+                )}
+                <button
+                  onClick={() => router.push('/leads')}
+                  className="inline-flex items-center px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 transition-colors duration-200"
+                >
+                  Ver leads
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,346 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+
+export const dynamic = 'force-dynamic'
+import { useAuth } from '@/lib/auth-context'
+import { ArrowLeft, Loader2, Plus, Building2, X } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { normalizeImportRow, validateImportRow, ImportField } from '@/lib/lead-import-mapping'
+import { LEAD_ORIGIN_LABELS, MANUAL_LEAD_ORIGINS, LeadOrigin } from '@/lib/lead-origins'
+
+type LeadForm = Record<ImportField, string>
+
+interface OrganizerOption {
+  organizer_id: string
+  name: string
+  website: string | null
+}
+
+const EMPTY_FORM: LeadForm = {
+  nome_evento: '',
+  data_evento: '',
+  local: '',
+  produtor: '',
+  website: '',
+  contact_name: '',
+  contact_email: '',
+  contact_position: '',
+  event_url: ''
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+export default function NewLeadPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [form, setForm] = useState<LeadForm>(EMPTY_FORM)
+  const [origin, setOrigin] = useState<LeadOrigin>('referral')
+  // Organizer picked from the suggestions; typing another name clears it
+  const [organizer, setOrganizer] = useState<OrganizerOption | null>(null)
+  const [suggestions, setSuggestions] = useState<OrganizerOption[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const updateField = (field: ImportField, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+    setErrors([])
+  }
+
+  const handleOrganizerChange = (value: string) => {
+    setOrganizer(null)
+    updateField('produtor', value)
+  }
+
+  const selectOrganizer = (option: OrganizerOption) => {
+    setOrganizer(option)
+    setSuggestions([])
+    setForm(prev => ({ ...prev, produtor: option.name, website: prev.website || option.website || '' }))
+  }
+
+  // Suggestions for the typed organizer name, once typing pauses
+  useEffect(() => {
+    if (!user || organizer || form.produtor.trim().length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/organizers/search?q=${encodeURIComponent(form.produtor.trim())}`, {
+          headers: {
+            'Authorization': `Bearer ${user.id}`
+          }
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setSuggestions(data.organizers || [])
+        }
+      } catch (error) {
+        console.error('Error searching organizers:', error)
+      }
+    }, 250)
+
+    return () => clearTimeout(timeout)
+  }, [form.produtor, organizer, user])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const validation = validateImportRow(normalizeImportRow(form, 1))
+    if (validation.length > 0) {
+      setErrors(validation)
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/leads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ ...form, origin, organizer_id: organizer?.organizer_id || null })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setErrors(data.errors || [data.error || 'Erro ao criar lead'])
+        return
+      }
+
+      router.push('/leads')
+    } catch (error) {
+      console.error('Error creating lead:', error)
+      setErrors(['Erro ao criar lead'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Redirect to login if not authenticated
+  if (!user) {
+    router.push('/')
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <button
+            onClick={() => router.push('/leads')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-sm transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </button>
+        </div>
+
+        {/* Main content */}
+        <div className="max-w-3xl mx-auto">
+          <div className="bg-white rounded-3xl shadow-xl px-8 py-12">
+            <div className="text-center mb-8">
+              <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 mb-4">
+                Novo Lead
+              </h1>
+              <p className="text-lg text-gray-600">
+                Cadastre eventos que chegaram por indicação, por contato direto ou sem página em plataformas de ingressos.
+              </p>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+                {errors.map(error => (
+                  <p key={error} className="text-red-700 font-medium">{error}</p>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-8">
+              {/* Origin */}
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Origem</h2>
+                <div className="flex flex-wrap gap-2">
+                  {MANUAL_LEAD_ORIGINS.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setOrigin(option)}
+                      className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors duration-200 ${
+                        origin === option
+                          ? 'bg-purple-600 border-purple-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {LEAD_ORIGIN_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Event */}
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Evento</h2>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="block sm:col-span-2">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Nome do evento <span className="text-red-500">*</span></span>
+                    <input
+                      type="text"
+                      value={form.nome_evento}
+                      onChange={(e) => updateField('nome_evento', e.target.value)}
+                      placeholder="Congresso Brasileiro de..."
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Data</span>
+                    <input
+                      type="text"
+                      value={form.data_evento}
+                      onChange={(e) => updateField('data_evento', e.target.value)}
+                      placeholder="Ex.: 22/10/2025 ou 15 a 16 de novembro"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Local</span>
+                    <input
+                      type="text"
+                      value={form.local}
+                      onChange={(e) => updateField('local', e.target.value)}
+                      placeholder="Local, cidade e estado"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block sm:col-span-2">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Link do evento</span>
+                    <input
+                      type="text"
+                      value={form.event_url}
+                      onChange={(e) => updateField('event_url', e.target.value)}
+                      placeholder="https:// (opcional)"
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              {/* Organizer */}
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Organizador</h2>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="relative">
+                    <label className="block">
+                      <span className="block text-sm font-medium text-gray-700 mb-1">Nome <span className="text-red-500">*</span></span>
+                      <input
+                        type="text"
+                        value={form.produtor}
+                        onChange={(e) => handleOrganizerChange(e.target.value)}
+                        placeholder="Comece a digitar para buscar"
+                        autoComplete="off"
+                        className={inputClassName}
+                      />
+                    </label>
+                    {organizer && (
+                      <p className="mt-1 inline-flex items-center text-xs text-green-700">
+                        <Building2 className="h-3 w-3 mr-1" />
+                        Organizador já cadastrado
+                        <button
+                          type="button"
+                          onClick={() => setOrganizer(null)}
+                          className="ml-1 text-gray-400 hover:text-gray-600"
+                          title="Não usar o organizador cadastrado"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </p>
+                    )}
+                    {suggestions.length > 0 && (
+                      <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                        {suggestions.map(option => (
+                          <li key={option.organizer_id}>
+                            <button
+                              type="button"
+                              onClick={() => selectOrganizer(option)}
+                              className="w-full text-left px-3 py-2 hover:bg-indigo-50"
+                            >
+                              <span className="block text-sm text-gray-900">{option.name}</span>
+                              {option.website && (
+                                <span className="block text-xs text-gray-500 truncate">{option.website}</span>
+                              )}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Site</span>
+                    <input
+                      type="text"
+                      value={form.website}
+                      onChange={(e) => updateField('website', e.target.value)}
+                      placeholder="https://"
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              {/* Contact */}
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Contato <span className="text-sm font-normal text-gray-500">(opcional)</span></h2>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Nome</span>
+                    <input
+                      type="text"
+                      value={form.contact_name}
+                      onChange={(e) => updateField('contact_name', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Email</span>
+                    <input
+                      type="email"
+                      value={form.contact_email}
+                      onChange={(e) => updateField('contact_email', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Cargo</span>
+                    <input
+                      type="text"
+                      value={form.contact_position}
+                      onChange={(e) => updateField('contact_position', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="inline-flex items-center px-6 py-3 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {saving ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <Plus className="h-5 w-5 mr-2" />}
+                  Criar lead
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
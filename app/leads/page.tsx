@@ -4,8 +4,17 @@ import React, { useState, useEffect } from 'react'
 
 export const dynamic = 'force-dynamic'
 import { useAuth } from '@/lib/auth-context'
-import { ArrowLeft, Calendar, MapPin, Building, ExternalLink, Trash2, Loader2, Check, Mail, Globe, Search, CheckCircle, XCircle, AlertCircle, RefreshCw, Edit3, Save, X } from 'lucide-react'
+import { ArrowLeft, Calendar, MapPin, Building, ExternalLink, Trash2, Loader2, Check, Mail, Globe, Search, CheckCircle, XCircle, AlertCircle, RefreshCw, Edit3, Save, X, FileText, Plus, Ticket, Users, Tag, Briefcase } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import { detectPlatform } from '@/lib/event-sources/platforms'
+import { isPlaceholderValue } from '@/lib/event-sources/field-confidence'
+import { formatEventDateRange } from '@/lib/pt-br-dates'
+import { BRAZILIAN_REGIONS, getStateByUf, getStatesInRegion } from '@/lib/location/states'
+import { LEAD_ORIGIN_LABELS, LeadOrigin } from '@/lib/lead-origins'
+import { EVENT_SEGMENTS, EVENT_SEGMENT_LABELS, EventSegment, SegmentSource } from '@/lib/event-segments'
+import SnapshotViewer from '@/components/snapshot-viewer'
+import type { EventChange, EventStatus } from '@/lib/supabase'
+import type { EventFormat, TicketTier } from '@/lib/event-sources/event-details'
 
 // Lead interface for the normalized structure (from leads_complete view)
 interface Lead {
@@ -29,7 +38,30 @@ interface Lead {
   nome_evento: string
   data_evento: string
   event_local: string
-  sympla_url: string
+  sympla_url: string | null
+  event_start_at: string | null
+  event_end_at: string | null
+  event_date_parse_failed: boolean
+  event_timezone: string | null
+  event_description: string | null
+  event_venue: string | null
+  event_city: string | null
+  event_state: string | null
+  event_status: EventStatus
+  event_last_changed_at: string | null
+  event_has_unseen_changes: boolean
+  lead_origin: LeadOrigin | null
+  event_ticket_tiers: TicketTier[] | null
+  event_price_min: number | null
+  event_price_max: number | null
+  event_price_currency: string | null
+  event_capacity: number | null
+  event_attendance_hint: string | null
+  event_format: EventFormat | null
+  event_categories: string[] | null
+  event_segment: EventSegment | null
+  event_segment_source: SegmentSource | null
+  organizer_segment: EventSegment | null
   
   // User fields (from join)
   user_email: string | null
@@ -50,6 +82,72 @@ interface Contact {
   updated_at: string
 }
 
+const EVENT_STATUS_BADGES: Record<Exclude<EventStatus, 'active'>, { label: string; className: string }> = {
+  postponed: { label: 'Adiado', className: 'bg-yellow-100 text-yellow-800' },
+  cancelled: { label: 'Cancelado', className: 'bg-red-100 text-red-800' },
+  sold_out: { label: 'Esgotado', className: 'bg-orange-100 text-orange-800' },
+  removed: { label: 'Página removida', className: 'bg-gray-200 text-gray-700' }
+}
+
+const CHANGE_FIELD_LABELS: Record<EventChange['field'], string> = {
+  nome_evento: 'Nome',
+  data_evento: 'Data',
+  start_at: 'Início',
+  end_at: 'Término',
+  local: 'Local',
+  status: 'Situação'
+}
+
+// Old/new value of a change as shown to the user
+function formatChangeValue(change: EventChange, value: string | null): string {
+  if (!value) return '—'
+  if (change.field === 'start_at' || change.field === 'end_at') {
+    return formatEventDateRange(value, null, null, { withTime: true }) || value
+  }
+  if (change.field === 'status') {
+    return value === 'active' ? 'Ativo' : EVENT_STATUS_BADGES[value as Exclude<EventStatus, 'active'>]?.label || value
+  }
+  return value
+}
+
+const SEGMENT_SOURCE_TITLES: Record<SegmentSource, string> = {
+  keywords: 'Classificado por palavras-chave',
+  llm: 'Classificado pela IA',
+  manual: 'Definido manualmente'
+}
+
+const EVENT_FORMAT_LABELS: Record<EventFormat, string> = {
+  in_person: 'Presencial',
+  online: 'Online',
+  hybrid: 'Híbrido'
+}
+
+function formatPrice(value: number, currency: string | null): string {
+  if (value === 0) return 'Gratuito'
+  try {
+    return value.toLocaleString('pt-BR', { style: 'currency', currency: currency || 'BRL' })
+  } catch {
+    return `${currency || 'R$'} ${value.toLocaleString('pt-BR')}`
+  }
+}
+
+// "R$ 450,00 a R$ 520,00", or the single price
+function formatPriceRange(lead: Lead): string | null {
+  if (lead.event_price_min === null || lead.event_price_max === null) return null
+  const min = formatPrice(Number(lead.event_price_min), lead.event_price_currency)
+  const max = formatPrice(Number(lead.event_price_max), lead.event_price_currency)
+  return min === max ? min : `${min} a ${max}`
+}
+
+// One line per ticket tier, for the price tooltip
+function formatTicketTiers(tiers: TicketTier[] | null): string | undefined {
+  if (!tiers || tiers.length === 0) return undefined
+  return tiers.map(tier => {
+    const price = tier.price === null ? 'preço não informado' : formatPrice(tier.price, tier.currency)
+    return `${tier.name || 'Ingresso'}: ${price}${tier.sold_out ? ' (esgotado)' : ''}`
+  }).join('\n')
+}
+
 export default function LeadsPage() {
   const { user } = useAuth()
   const router = useRouter()
@@ -67,9 +165,22 @@ export default function LeadsPage() {
     organizer_website: '', 
     contact_name: '', 
     contact_email: '', 
-    contact_position: '' 
+    contact_position: '',
+    // '' lets the classifier decide
+    event_segment: ''
   })
   const [savingEdit, setSavingEdit] = useState(false)
+  // '' for all, a UF such as 'SP', or 'region:Sudeste'
+  const [stateFilter, setStateFilter] = useState('')
+  const [cityFilter, setCityFilter] = useState('')
+  // '' for all, a segment, or 'none' for events not classified yet
+  const [segmentFilter, setSegmentFilter] = useState('')
+  const [classifying, setClassifying] = useState(false)
+  const [snapshotLead, setSnapshotLead] = useState<Lead | null>(null)
+  const [changesLeadId, setChangesLeadId] = useState<string | null>(null)
+  const [eventChanges, setEventChanges] = useState<EventChange[]>([])
+  const [loadingChanges, setLoadingChanges] = useState(false)
+  const [pendingReviews, setPendingReviews] = useState(0)
 
   const handleBack = () => {
     router.push('/')
@@ -91,7 +202,7 @@ export default function LeadsPage() {
       }
 
       const data = await response.json()
-      setLeads(data)
+      setLeads(data.leads || [])
     } catch (error) {
       console.error('Error fetching leads:', error)
       setError('Erro ao carregar as prospecções')
@@ -100,6 +211,63 @@ export default function LeadsPage() {
     }
   }
 
+  // Segments for the events the keyword rules could not place, asking the LLM
+  const classifySegments = async () => {
+    if (!user) return
+
+    try {
+      setClassifying(true)
+      const response = await fetch('/api/leads/classify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ useLlm: true })
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao classificar segmentos')
+      }
+
+      const { summary } = await response.json()
+      const classified = summary.keywords + summary.llm
+      if (summary.error) {
+        showNotification('error', `${classified} evento(s) classificado(s); limite mensal de IA atingido antes de terminar`)
+      } else {
+        showNotification('success', summary.unclassified > 0
+          ? `${classified} evento(s) classificado(s); ${summary.unclassified} sem segmento claro`
+          : `${classified} evento(s) classificado(s)`)
+      }
+      await fetchLeads()
+    } catch (error) {
+      console.error('Error classifying segments:', error)
+      showNotification('error', 'Erro ao classificar segmentos')
+    } finally {
+      setClassifying(false)
+    }
+  }
+
+  // Imports waiting in the review queue before becoming leads
+  const fetchPendingReviews = async () => {
+    if (!user) return
+
+    try {
+      const response = await fetch('/api/extraction-reviews', {
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setPendingReviews((data.reviews || []).length)
+      }
+    } catch (error) {
+      console.error('Error fetching extraction reviews:', error)
+    }
+  }
+
   const deleteLead = async (leadId: string) => {
     if (!user || !confirm('Tem certeza que deseja excluir esta prospecção?')) return
 
@@ -298,7 +466,8 @@ export default function LeadsPage() {
       organizer_website: lead.organizer_website || '',
       contact_name: '',
       contact_email: '',
-      contact_position: ''
+      contact_position: '',
+      event_segment: lead.event_segment || ''
     })
   }
 
@@ -309,13 +478,23 @@ export default function LeadsPage() {
       organizer_website: '', 
       contact_name: '', 
       contact_email: '', 
-      contact_position: '' 
+      contact_position: '',
+      event_segment: ''
     })
   }
 
   const saveEdit = async (leadId: string) => {
     if (!user) return
 
+    // The segment is only sent when changed: sending it marks it as picked by hand
+    const { event_segment, ...fields } = editForm
+    const segmentChanged = event_segment !== (leads.find(lead => lead.id === leadId)?.event_segment || '')
+
+    if (isPlaceholderValue(fields.organizer_name)) {
+      showNotification('error', 'Informe o nome do organizador')
+      return
+    }
+
     try {
       setSavingEdit(true)
       const response = await fetch(`/api/leads/${leadId}/update`, {
@@ -324,7 +503,7 @@ export default function LeadsPage() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${user.id}`
         },
-        body: JSON.stringify(editForm)
+        body: JSON.stringify(segmentChanged ? { ...fields, event_segment: event_segment || null } : fields)
       })
 
       if (!response.ok) {
@@ -348,7 +527,8 @@ export default function LeadsPage() {
         organizer_website: '', 
         contact_name: '', 
         contact_email: '', 
-        contact_position: '' 
+        contact_position: '',
+        event_segment: ''
       })
       showNotification('success', 'Informações atualizadas com sucesso!')
 
@@ -362,8 +542,103 @@ export default function LeadsPage() {
 
   useEffect(() => {
     fetchLeads()
+    fetchPendingReviews()
   }, [user])
 
+  const toggleEventChanges = async (leadId: string) => {
+    if (!user) return
+
+    if (changesLeadId === leadId) {
+      setChangesLeadId(null)
+      return
+    }
+
+    setChangesLeadId(leadId)
+    setEventChanges([])
+
+    try {
+      setLoadingChanges(true)
+      const response = await fetch(`/api/leads/${leadId}/changes`, {
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao carregar alterações')
+      }
+
+      const data = await response.json()
+      setEventChanges(data.changes || [])
+    } catch (error) {
+      console.error('Error fetching event changes:', error)
+      showNotification('error', 'Erro ao carregar alterações do evento')
+    } finally {
+      setLoadingChanges(false)
+    }
+  }
+
+  const markChangesSeen = async (leadId: string) => {
+    if (!user) return
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/changes`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao marcar alterações como vistas')
+      }
+
+      // Every lead of the event loses the badge
+      const eventId = leads.find(lead => lead.id === leadId)?.event_id
+      setLeads(prev => prev.map(lead =>
+        lead.event_id === eventId ? { ...lead, event_has_unseen_changes: false } : lead
+      ))
+      setChangesLeadId(null)
+    } catch (error) {
+      console.error('Error acknowledging event changes:', error)
+      showNotification('error', 'Erro ao marcar alterações como vistas')
+    }
+  }
+
+  // Keep the contacts loaded for the row; the re-extracted lead comes straight from leads_complete
+  const handleReextracted = (updatedLead: Lead) => {
+    setLeads(prev => prev.map(lead =>
+      lead.id === updatedLead.id ? { ...lead, ...updatedLead, contacts: lead.contacts } : lead
+    ))
+    showNotification('success', 'Dados do evento atualizados a partir da página salva')
+  }
+
+  const matchesStateFilter = (lead: Lead) => {
+    if (!stateFilter) return true
+    if (stateFilter.startsWith('region:')) {
+      return getStateByUf(lead.event_state)?.region === stateFilter.replace('region:', '')
+    }
+    return lead.event_state === stateFilter
+  }
+
+  const leadStates = new Set(leads.map(lead => lead.event_state).filter(Boolean))
+  const cityOptions = Array.from(
+    new Set(leads.filter(matchesStateFilter).map(lead => lead.event_city).filter((city): city is string => Boolean(city)))
+  ).sort((a, b) => a.localeCompare(b, 'pt-BR'))
+  const leadSegments = EVENT_SEGMENTS.filter(segment => leads.some(lead => lead.event_segment === segment))
+  const hasUnclassifiedLeads = leads.some(lead => !lead.event_segment)
+  const matchesSegmentFilter = (lead: Lead) =>
+    !segmentFilter || (segmentFilter === 'none' ? !lead.event_segment : lead.event_segment === segmentFilter)
+  const visibleLeads = leads.filter(lead =>
+    matchesStateFilter(lead) && (!cityFilter || lead.event_city === cityFilter) && matchesSegmentFilter(lead)
+  )
+
+  const formatLeadLocation = (lead: Lead) => {
+    if (!lead.event_city) return lead.event_local
+    const city = lead.event_state ? `${lead.event_city} - ${lead.event_state}` : lead.event_city
+    return lead.event_venue ? `${lead.event_venue}, ${city}` : city
+  }
+
   // Redirect to login if not authenticated
   if (!user) {
     router.push('/')
@@ -383,12 +658,21 @@ export default function LeadsPage() {
             Voltar
           </button>
 
-          <button
-            onClick={() => router.push('/prospeccao')}
-            className="inline-flex items-center px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors duration-200"
-          >
-            Nova Prospecção
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => router.push('/leads/new')}
+              className="inline-flex items-center px-4 py-2 border border-purple-200 text-purple-700 bg-white text-sm font-medium rounded-lg hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 shadow-sm transition-colors duration-200"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Lead
+            </button>
+            <button
+              onClick={() => router.push('/prospeccao')}
+              className="inline-flex items-center px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors duration-200"
+            >
+              Nova Prospecção
+            </button>
+          </div>
         </div>
 
         {/* Main content */}
@@ -399,7 +683,7 @@ export default function LeadsPage() {
                 Suas Prospecções
               </h1>
               <p className="text-lg text-gray-600">
-                Visualize todos os eventos prospectados no Sympla e Eventbrite
+                Visualize todos os eventos prospectados nas plataformas de eventos
               </p>
             </div>
 
@@ -425,6 +709,24 @@ export default function LeadsPage() {
               </div>
             )}
 
+            {/* Review queue */}
+            {pendingReviews > 0 && (
+              <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <p className="flex items-center text-orange-800 font-medium">
+                  <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                  {pendingReviews === 1
+                    ? '1 importação aguarda revisão antes de virar lead'
+                    : `${pendingReviews} importações aguardam revisão antes de virar leads`}
+                </p>
+                <button
+                  onClick={() => router.push('/review')}
+                  className="inline-flex items-center px-4 py-2 bg-orange-600 text-white text-sm font-medium rounded-lg hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 transition-colors duration-200"
+                >
+                  Revisar
+                </button>
+              </div>
+            )}
+
             {/* Loading State */}
             {loading ? (
               <div className="flex justify-center items-center py-12">
@@ -471,6 +773,67 @@ export default function LeadsPage() {
                   </div>
 
                   <div className="flex items-center gap-3">
+                    <select
+                      value={stateFilter}
+                      onChange={(e) => { setStateFilter(e.target.value); setCityFilter('') }}
+                      className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Todos os estados</option>
+                      {BRAZILIAN_REGIONS.map(region => {
+                        const states = getStatesInRegion(region).filter(state => leadStates.has(state.uf))
+                        if (states.length === 0) return null
+                        return (
+                          <optgroup key={region} label={region}>
+                            <option value={`region:${region}`}>Toda a região {region}</option>
+                            {states.map(state => (
+                              <option key={state.uf} value={state.uf}>{state.name}</option>
+                            ))}
+                          </optgroup>
+                        )
+                      })}
+                    </select>
+
+                    {cityOptions.length > 0 && (
+                      <select
+                        value={cityFilter}
+                        onChange={(e) => setCityFilter(e.target.value)}
+                        className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <option value="">Todas as cidades</option>
+                        {cityOptions.map(city => (
+                          <option key={city} value={city}>{city}</option>
+                        ))}
+                      </select>
+                    )}
+
+                    <select
+                      value={segmentFilter}
+                      onChange={(e) => setSegmentFilter(e.target.value)}
+                      className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Todos os segmentos</option>
+                      {leadSegments.map(segment => (
+                        <option key={segment} value={segment}>{EVENT_SEGMENT_LABELS[segment]}</option>
+                      ))}
+                      {hasUnclassifiedLeads && <option value="none">Sem segmento</option>}
+                    </select>
+
+                    {hasUnclassifiedLeads && (
+                      <button
+                        onClick={classifySegments}
+                        disabled={classifying}
+                        title="Classifica com IA os eventos que as palavras-chave não identificaram"
+                        className="inline-flex items-center px-4 py-2 text-sm font-medium text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                      >
+                        {classifying ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Briefcase className="h-4 w-4 mr-2" />
+                        )}
+                        Classificar segmentos
+                      </button>
+                    )}
+
                     {selectedLeads.size > 0 && (
                       <button
                         onClick={enhanceSelectedLeads}
@@ -488,9 +851,13 @@ export default function LeadsPage() {
                   </div>
                 </div>
 
+                {visibleLeads.length === 0 && (
+                  <p className="text-center text-gray-500 py-8">Nenhuma prospecção encontrada para estes filtros</p>
+                )}
+
                 {/* Leads Grid */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {leads.map((lead) => (
+                  {visibleLeads.map((lead) => (
                     <div 
                       key={lead.id} 
                       className={`bg-gray-50 rounded-xl p-6 hover:shadow-lg transition-all duration-200 relative ${
@@ -516,16 +883,155 @@ export default function LeadsPage() {
                         {lead.nome_evento}
                       </h3>
 
+                      {/* Refresh status */}
+                      {(lead.event_status !== 'active' || lead.event_last_changed_at) && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {lead.event_status !== 'active' && EVENT_STATUS_BADGES[lead.event_status] && (
+                            <span className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full ${EVENT_STATUS_BADGES[lead.event_status].className}`}>
+                              {EVENT_STATUS_BADGES[lead.event_status].label}
+                            </span>
+                          )}
+                          {lead.event_last_changed_at && (
+                            <button
+                              onClick={() => toggleEventChanges(lead.id)}
+                              className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full ${
+                                lead.event_has_unseen_changes
+                                  ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                              title="Ver o histórico de alterações do evento"
+                            >
+                              {lead.event_has_unseen_changes ? 'Evento alterado' : 'Histórico de alterações'}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {changesLeadId === lead.id && (
+                        <div className="mb-3 p-3 bg-white border border-blue-100 rounded-lg text-xs">
+                          {loadingChanges ? (
+                            <div className="flex items-center text-gray-500">
+                              <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                              Carregando alterações...
+                            </div>
+                          ) : eventChanges.length === 0 ? (
+                            <p className="text-gray-500">Nenhuma alteração registrada.</p>
+                          ) : (
+                            <ul className="space-y-2">
+                              {eventChanges.map(change => (
+                                <li key={change.change_id}>
+                                  <p className="text-gray-400">
+                                    {new Date(change.detected_at).toLocaleDateString('pt-BR')} · {CHANGE_FIELD_LABELS[change.field]}
+                                  </p>
+                                  <p className="text-gray-700">
+                                    <span className="line-through text-gray-400">{formatChangeValue(change, change.old_value)}</span>
+                                    {' → '}
+                                    {formatChangeValue(change, change.new_value)}
+                                  </p>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {lead.event_has_unseen_changes && !loadingChanges && (
+                            <button
+                              onClick={() => markChangesSeen(lead.id)}
+                              className="mt-3 inline-flex items-center text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              <Check className="h-3 w-3 mr-1" />
+                              Marcar como visto
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {lead.event_description && (
+                        <p className="text-sm text-gray-500 mb-3 line-clamp-3" title={lead.event_description}>
+                          {lead.event_description}
+                        </p>
+                      )}
+
                       {/* Event Details */}
                       <div className="space-y-2 mb-4">
                         <div className="flex items-center text-sm text-gray-600">
                           <Calendar className="h-4 w-4 mr-2 text-purple-500" />
-                          {lead.data_evento}
+                          {(lead.event_start_at &&
+                            formatEventDateRange(lead.event_start_at, lead.event_end_at, lead.event_timezone, { withTime: true })) ||
+                            lead.data_evento}
+                          {lead.event_date_parse_failed && (
+                            <span
+                              className="ml-2 inline-flex items-center px-2 py-0.5 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full"
+                              title="Não foi possível converter esta data; o evento fica fora da ordenação por data"
+                            >
+                              Data não reconhecida
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center text-sm text-gray-600">
                           <MapPin className="h-4 w-4 mr-2 text-green-500" />
-                          {lead.event_local}
+                          {formatLeadLocation(lead)}
+                          {lead.event_format && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-full">
+                              {EVENT_FORMAT_LABELS[lead.event_format]}
+                            </span>
+                          )}
                         </div>
+                        {formatPriceRange(lead) && (
+                          <div className="flex items-center text-sm text-gray-600" title={formatTicketTiers(lead.event_ticket_tiers)}>
+                            <Ticket className="h-4 w-4 mr-2 text-pink-500" />
+                            {formatPriceRange(lead)}
+                            {lead.event_ticket_tiers && lead.event_ticket_tiers.length > 1 && (
+                              <span className="ml-1 text-xs text-gray-400">({lead.event_ticket_tiers.length} lotes)</span>
+                            )}
+                          </div>
+                        )}
+                        {(lead.event_capacity || lead.event_attendance_hint) && (
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Users className="h-4 w-4 mr-2 text-orange-500" />
+                            {lead.event_capacity
+                              ? `Capacidade: ${lead.event_capacity.toLocaleString('pt-BR')} pessoas`
+                              : lead.event_attendance_hint}
+                            {lead.event_capacity && lead.event_attendance_hint && (
+                              <span className="ml-1 text-xs text-gray-400">({lead.event_attendance_hint})</span>
+                            )}
+                          </div>
+                        )}
+                        {editingLead === lead.id ? (
+                          <div className="flex items-center text-sm">
+                            <Briefcase className="h-4 w-4 mr-2 text-teal-500 flex-shrink-0" />
+                            <select
+                              value={editForm.event_segment}
+                              onChange={(e) => setEditForm(prev => ({ ...prev, event_segment: e.target.value }))}
+                              className="flex-1 px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              <option value="">Classificar automaticamente</option>
+                              {EVENT_SEGMENTS.map(segment => (
+                                <option key={segment} value={segment}>{EVENT_SEGMENT_LABELS[segment]}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ) : (
+                          lead.event_segment && (
+                            <div
+                              className="flex items-center text-sm text-gray-600"
+                              title={lead.event_segment_source ? SEGMENT_SOURCE_TITLES[lead.event_segment_source] : undefined}
+                            >
+                              <Briefcase className="h-4 w-4 mr-2 text-teal-500" />
+                              {EVENT_SEGMENT_LABELS[lead.event_segment]}
+                            </div>
+                          )
+                        )}
+                        {lead.event_categories && lead.event_categories.length > 0 && (
+                          <div className="flex items-start text-sm text-gray-600">
+                            <Tag className="h-4 w-4 mr-2 mt-0.5 text-indigo-500 flex-shrink-0" />
+                            <div className="flex flex-wrap gap-1">
+                              {lead.event_categories.map(category => (
+                                <span key={category} className="px-2 py-0.5 text-xs bg-indigo-50 text-indigo-700 rounded-full">
+                                  {category}
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                         
                         {/* Editable Organizer Name Field */}
                         {editingLead === lead.id ? (
@@ -667,20 +1173,34 @@ export default function LeadsPage() {
                       {/* Creation Date */}
                       <p className="text-xs text-gray-400 mb-4">
                         Prospectado em {new Date(lead.created_at).toLocaleDateString('pt-BR')}
+                        {lead.lead_origin && lead.lead_origin !== 'url_import' && ` · ${LEAD_ORIGIN_LABELS[lead.lead_origin]}`}
                       </p>
 
                       {/* Actions */}
                       <div className="flex justify-between items-center gap-2">
                         <div className="flex items-center gap-2">
-                          <a
-                            href={lead.sympla_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700 font-medium"
-                          >
-                            <ExternalLink className="h-4 w-4 mr-1" />
-                            {lead.sympla_url.includes('eventbrite') ? 'Ver no Eventbrite' : 'Ver no Sympla'}
-                          </a>
+                          {lead.sympla_url ? (
+                            <>
+                              <a
+                                href={lead.sympla_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700 font-medium"
+                              >
+                                <ExternalLink className="h-4 w-4 mr-1" />
+                                Ver no {detectPlatform(lead.sympla_url)?.name || 'site do evento'}
+                              </a>
+                              <button
+                                onClick={() => setSnapshotLead(lead)}
+                                className="inline-flex items-center p-1.5 text-gray-500 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors duration-200"
+                                title="Ver a página salva na importação"
+                              >
+                                <FileText className="h-4 w-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <span className="text-sm text-gray-400">Sem página do evento</span>
+                          )}
                         </div>
 
                         <div className="flex items-center gap-2">
@@ -794,6 +1314,15 @@ export default function LeadsPage() {
           </div>
         </div>
       </div>
+
+      {/* Saved page viewer */}
+      <SnapshotViewer
+        isOpen={!!snapshotLead}
+        onClose={() => setSnapshotLead(null)}
+        leadId={snapshotLead?.id || null}
+        eventName={snapshotLead?.nome_evento}
+        onReextracted={handleReextracted}
+      />
     </div>
   )
 }
\ No newline at end of file
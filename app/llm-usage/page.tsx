@@ -0,0 +1,448 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+
+export const dynamic = 'force-dynamic'
+import { useAuth } from '@/lib/auth-context'
+import { ArrowLeft, Loader2, Save, AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import type { LlmUsageReport, LlmUsagePurpose, LlmUsageTotals } from '@/lib/supabase'
+
+interface UsageResponse extends LlmUsageReport {
+  budget: {
+    budget_usd: number | null
+    spent_usd: number
+    blocked: boolean
+  }
+}
+
+interface LlmSettingsResponse {
+  user: {
+    llm_provider: string | null
+    llm_model: string | null
+    llm_monthly_budget_usd: number | null
+  }
+  effective: { provider: string; model: string; monthly_budget_usd: number | null }
+  defaults: { provider: string; model: string; monthly_budget_usd: number | null }
+  providers: string[]
+}
+
+const PURPOSE_LABELS: Record<LlmUsagePurpose, string> = {
+  extraction: 'Extração de eventos',
+  refresh: 'Atualização de eventos',
+  email_generation: 'Geração de emails',
+  classification: 'Classificação'
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  openai_compatible: 'Compatível com OpenAI (Ollama, LM Studio...)',
+  mock: 'Simulado (sem custo)'
+}
+
+const formatUsd = (value: number) =>
+  `US$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 4 : 2 })}`
+
+const formatTokens = (value: number) => value.toLocaleString('pt-BR')
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('pt-BR', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+export default function LlmUsagePage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [usage, setUsage] = useState<UsageResponse | null>(null)
+  const [settings, setSettings] = useState<LlmSettingsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [form, setForm] = useState({ provider: '', model: '', budget: '' })
+  const [saving, setSaving] = useState(false)
+  const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null)
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message })
+    setTimeout(() => setNotification(null), 5000)
+  }
+
+  const applySettings = (data: LlmSettingsResponse) => {
+    setSettings(data)
+    setForm({
+      provider: data.user.llm_provider || '',
+      model: data.user.llm_model || '',
+      budget: data.user.llm_monthly_budget_usd === null ? '' : String(data.user.llm_monthly_budget_usd)
+    })
+  }
+
+  const fetchData = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError('')
+
+      const headers = { 'Authorization': `Bearer ${user.id}` }
+      const [usageResponse, settingsResponse] = await Promise.all([
+        fetch('/api/llm-usage', { headers }),
+        fetch('/api/settings/llm', { headers })
+      ])
+
+      if (!usageResponse.ok || !settingsResponse.ok) {
+        throw new Error('Erro ao carregar uso do LLM')
+      }
+
+      setUsage(await usageResponse.json())
+      applySettings(await settingsResponse.json())
+    } catch (error) {
+      console.error('Error fetching LLM usage:', error)
+      setError('Erro ao carregar uso do LLM')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async () => {
+    if (!user) return
+
+    const budget = form.budget.trim() === '' ? null : Number(form.budget.replace(',', '.'))
+    if (budget !== null && (isNaN(budget) || budget < 0)) {
+      showNotification('error', 'Informe o orçamento como um valor em dólares, por exemplo 10 ou 25,50')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/settings/llm', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({
+          llm_provider: form.provider || null,
+          llm_model: form.model || null,
+          llm_monthly_budget_usd: budget
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao salvar configurações')
+      }
+
+      applySettings({ ...(await response.json()), providers: settings?.providers || [] })
+      showNotification('success', 'Configurações salvas')
+      fetchData()
+    } catch (error) {
+      console.error('Error saving LLM settings:', error)
+      showNotification('error', 'Erro ao salvar configurações')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [user])
+
+  // Redirect to login if not authenticated
+  if (!user) {
+    router.push('/')
+    return null
+  }
+
+  const budget = usage?.budget
+  const budgetPercent = budget && budget.budget_usd ? Math.min(100, (budget.spent_usd / budget.budget_usd) * 100) : 0
+  const maxMonthCost = usage ? Math.max(...usage.months.map(month => month.cost_usd), 0) : 0
+
+  const renderTotalsRow = (label: string, totals: LlmUsageTotals, key: string) => (
+    <tr key={key} className="border-t border-gray-100">
+      <td className="py-2 pr-4 text-gray-900">{label}</td>
+      <td className="py-2 pr-4 text-right text-gray-700">
+        {totals.calls}
+        {totals.failed_calls > 0 && <span className="text-red-600"> ({totals.failed_calls} com erro)</span>}
+      </td>
+      <td className="py-2 pr-4 text-right text-gray-700">{formatTokens(totals.prompt_tokens)}</td>
+      <td className="py-2 pr-4 text-right text-gray-700">{formatTokens(totals.completion_tokens)}</td>
+      <td className="py-2 pr-4 text-right text-gray-700">{(totals.avg_latency_ms / 1000).toFixed(1)} s</td>
+      <td className="py-2 text-right font-medium text-gray-900">{formatUsd(totals.cost_usd)}</td>
+    </tr>
+  )
+
+  const totalsHeader = (label: string) => (
+    <thead>
+      <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+        <th className="pb-2 pr-4">{label}</th>
+        <th className="pb-2 pr-4 text-right">Chamadas</th>
+        <th className="pb-2 pr-4 text-right">Tokens de entrada</th>
+        <th className="pb-2 pr-4 text-right">Tokens de saída</th>
+        <th className="pb-2 pr-4 text-right">Latência média</th>
+        <th className="pb-2 text-right">Custo estimado</th>
+      </tr>
+    </thead>
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <button
+            onClick={() => router.push('/')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-sm transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </button>
+        </div>
+
+        {/* Main content */}
+        <div className="max-w-6xl mx-auto">
+          <div className="bg-white rounded-3xl shadow-xl px-8 py-12">
+            <div className="text-center mb-8">
+              <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 mb-4">
+                Uso do LLM
+              </h1>
+              <p className="text-lg text-gray-600">
+                Chamadas, tokens e custo estimado da extração com IA
+              </p>
+            </div>
+
+            {/* Notification */}
+            {notification && (
+              <div className={`mb-6 p-4 rounded-xl border ${
+                notification.type === 'success'
+                  ? 'bg-green-50 border-green-200'
+                  : 'bg-red-50 border-red-200'
+              }`}>
+                <p className={`font-medium ${
+                  notification.type === 'success' ? 'text-green-700' : 'text-red-700'
+                }`}>
+                  {notification.message}
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+                <p className="text-red-700 font-medium">{error}</p>
+              </div>
+            )}
+
+            {loading && !usage ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : usage && (
+              <div className="space-y-10">
+                {/* Budget */}
+                <section>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Orçamento deste mês</h2>
+                  {budget && budget.budget_usd !== null ? (
+                    <div className={`p-4 rounded-xl border ${budget.blocked ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+                      <div className="flex justify-between text-sm mb-2">
+                        <span className="text-gray-700">
+                          {formatUsd(budget.spent_usd)} de {formatUsd(budget.budget_usd)}
+                        </span>
+                        <span className="text-gray-500">{budgetPercent.toFixed(0)}%</span>
+                      </div>
+                      <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${budget.blocked ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-amber-500' : 'bg-green-500'}`}
+                          style={{ width: `${budgetPercent}%` }}
+                        />
+                      </div>
+                      {budget.blocked && (
+                        <p className="mt-3 flex items-center text-sm text-red-700">
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          Orçamento esgotado: novas extrações com IA ficam bloqueadas até o próximo mês ou até o orçamento ser aumentado.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-gray-600">
+                      Sem limite definido. Gasto estimado neste mês: {formatUsd(budget?.spent_usd || 0)}
+                    </p>
+                  )}
+                </section>
+
+                {/* Monthly totals */}
+                <section>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Totais por mês</h2>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      {totalsHeader('Mês')}
+                      <tbody>
+                        {usage.months.slice().reverse().map(month => renderTotalsRow(formatMonth(month.month), month, month.month))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {maxMonthCost > 0 && (
+                    <div className="mt-6 flex items-end gap-2 h-32">
+                      {usage.months.map(month => (
+                        <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                          <div
+                            className="w-full bg-indigo-500 rounded-t"
+                            style={{ height: `${(month.cost_usd / maxMonthCost) * 100}%` }}
+                            title={formatUsd(month.cost_usd)}
+                          />
+                          <span className="mt-1 text-xs text-gray-500">{month.month.slice(5)}/{month.month.slice(2, 4)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+
+                {/* Current month breakdown */}
+                <section className="grid gap-8 lg:grid-cols-2">
+                  <div className="overflow-x-auto">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Este mês por modelo</h2>
+                    {usage.current_month.by_model.length === 0 ? (
+                      <p className="text-gray-500">Nenhuma chamada neste mês</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        {totalsHeader('Modelo')}
+                        <tbody>
+                          {usage.current_month.by_model.map(row => renderTotalsRow(row.model, row, row.model))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                  <div className="overflow-x-auto">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Este mês por finalidade</h2>
+                    {usage.current_month.by_purpose.length === 0 ? (
+                      <p className="text-gray-500">Nenhuma chamada neste mês</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        {totalsHeader('Finalidade')}
+                        <tbody>
+                          {usage.current_month.by_purpose.map(row =>
+                            renderTotalsRow(PURPOSE_LABELS[row.purpose] || row.purpose, row, row.purpose)
+                          )}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                </section>
+
+                {/* Recent calls */}
+                <section>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Chamadas recentes</h2>
+                  {usage.recent.length === 0 ? (
+                    <p className="text-gray-500">Nenhuma chamada registrada</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                            <th className="pb-2 pr-4">Quando</th>
+                            <th className="pb-2 pr-4">Finalidade</th>
+                            <th className="pb-2 pr-4">Evento</th>
+                            <th className="pb-2 pr-4">Modelo</th>
+                            <th className="pb-2 pr-4 text-right">Tokens</th>
+                            <th className="pb-2 pr-4 text-right">Latência</th>
+                            <th className="pb-2 text-right">Custo</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {usage.recent.map(call => (
+                            <tr key={call.usage_id} className="border-t border-gray-100 align-top">
+                              <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                                {new Date(call.created_at).toLocaleString('pt-BR')}
+                              </td>
+                              <td className="py-2 pr-4 text-gray-700">
+                                <span className="inline-flex items-center">
+                                  {call.success
+                                    ? <CheckCircle className="h-4 w-4 mr-1 text-green-600" />
+                                    : <XCircle className="h-4 w-4 mr-1 text-red-600" />}
+                                  {PURPOSE_LABELS[call.purpose] || call.purpose}
+                                </span>
+                                {call.error && <p className="text-xs text-red-600 mt-1">{call.error}</p>}
+                              </td>
+                              <td className="py-2 pr-4 text-gray-700">
+                                {call.event_name || (call.source_url ? (
+                                  <a href={call.source_url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline break-all">
+                                    {call.source_url}
+                                  </a>
+                                ) : '—')}
+                              </td>
+                              <td className="py-2 pr-4 text-gray-700">{call.model}</td>
+                              <td className="py-2 pr-4 text-right text-gray-700">
+                                {formatTokens(call.prompt_tokens + call.completion_tokens)}
+                              </td>
+                              <td className="py-2 pr-4 text-right text-gray-700">{(call.latency_ms / 1000).toFixed(1)} s</td>
+                              <td className="py-2 text-right text-gray-900">{formatUsd(Number(call.cost_usd))}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </section>
+
+                {/* Settings */}
+                {settings && (
+                  <section>
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Configurações</h2>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">Provedor</span>
+                        <select
+                          value={form.provider}
+                          onChange={(e) => setForm({ ...form, provider: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value="">Padrão ({PROVIDER_LABELS[settings.defaults.provider] || settings.defaults.provider})</option>
+                          {settings.providers.map(provider => (
+                            <option key={provider} value={provider}>{PROVIDER_LABELS[provider] || provider}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">Modelo</span>
+                        <input
+                          type="text"
+                          value={form.model}
+                          onChange={(e) => setForm({ ...form, model: e.target.value })}
+                          placeholder={settings.effective.model}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">Orçamento mensal (US$)</span>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={form.budget}
+                          onChange={(e) => setForm({ ...form, budget: e.target.value })}
+                          placeholder={settings.defaults.monthly_budget_usd === null ? 'Sem limite' : String(settings.defaults.monthly_budget_usd)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </label>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Campos vazios usam o padrão do sistema. Os custos são estimativas a partir da tabela de preços do modelo.
+                    </p>
+                    <button
+                      onClick={saveSettings}
+                      disabled={saving}
+                      className="mt-4 inline-flex items-center px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Salvar
+                    </button>
+                  </section>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
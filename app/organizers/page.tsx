@@ -24,10 +24,14 @@ import {
   Loader2,
   Calendar,
   Filter,
-  Send
+  Send,
+  GitMerge,
+  Briefcase
 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import EmailComposer from '@/components/email-composer'
+import { findDuplicateOrganizerGroups, MATCH_REASON_LABELS } from '@/lib/organizer-matching'
+import { EVENT_SEGMENTS, EVENT_SEGMENT_LABELS, EventSegment, OrganizerSegmentSource } from '@/lib/event-segments'
 
 interface Contact {
   contact_id: string
@@ -47,6 +51,8 @@ interface Organizer {
   user_id: string
   created_at: string
   updated_at: string
+  segment: EventSegment | null
+  segment_source: OrganizerSegmentSource | null
   contact_count: number
   contacts: Contact[]
 }
@@ -65,6 +71,8 @@ export default function OrganizersPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [sortField, setSortField] = useState<SortField>('name')
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc')
+  // '' for all, a segment, or 'none' for organizers without one
+  const [segmentFilter, setSegmentFilter] = useState('')
   const [expandedOrganizers, setExpandedOrganizers] = useState<Set<string>>(new Set())
   const [editingContact, setEditingContact] = useState<string | null>(null)
   const [editForm, setEditForm] = useState({ name: '', email: '', position: '' })
@@ -77,6 +85,13 @@ export default function OrganizersPage() {
   const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null)
   const [emailComposerOpen, setEmailComposerOpen] = useState(false)
   const [selectedOrganizerForEmail, setSelectedOrganizerForEmail] = useState<Organizer | null>(null)
+  const [selectedForMerge, setSelectedForMerge] = useState<Set<string>>(new Set())
+  const [mergeCandidates, setMergeCandidates] = useState<Organizer[] | null>(null)
+  const [mergeSurvivorId, setMergeSurvivorId] = useState<string | null>(null)
+  const [merging, setMerging] = useState(false)
+
+  // Organizers that look like the same one under another spelling or website
+  const duplicateGroups = findDuplicateOrganizerGroups(organizers)
 
   const handleBack = () => {
     router.push('/')
@@ -102,7 +117,8 @@ export default function OrganizersPage() {
       const params = new URLSearchParams({
         search: searchTerm,
         sortBy: sortField,
-        sortOrder: sortOrder
+        sortOrder: sortOrder,
+        segment: segmentFilter
       })
 
       const response = await fetch(`/api/organizers?${params}`, {
@@ -125,6 +141,32 @@ export default function OrganizersPage() {
     }
   }
 
+  // A segment picked here is kept; clearing it makes the organizer follow its events again
+  const updateOrganizerSegment = async (organizerId: string, segment: string) => {
+    if (!user) return
+
+    try {
+      const response = await fetch(`/api/organizers/${organizerId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ segment: segment || null })
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao atualizar segmento')
+      }
+
+      await fetchOrganizers()
+      showNotification('success', 'Segmento atualizado')
+    } catch (error) {
+      console.error('Error updating organizer segment:', error)
+      showNotification('error', 'Erro ao atualizar segmento')
+    }
+  }
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')
@@ -297,6 +339,68 @@ export default function OrganizersPage() {
     }
   }
 
+  const toggleMergeSelection = (organizerId: string) => {
+    setSelectedForMerge(prev => {
+      const newSet = new Set(prev)
+      if (newSet.has(organizerId)) {
+        newSet.delete(organizerId)
+      } else {
+        newSet.add(organizerId)
+      }
+      return newSet
+    })
+  }
+
+  const openMergeModal = (candidates: Organizer[]) => {
+    // Suggest keeping the organizer with the most contacts, then the oldest
+    const survivor = candidates.slice().sort((a, b) =>
+      b.contact_count - a.contact_count || a.created_at.localeCompare(b.created_at)
+    )[0]
+    setMergeCandidates(candidates)
+    setMergeSurvivorId(survivor.organizer_id)
+  }
+
+  const closeMergeModal = () => {
+    setMergeCandidates(null)
+    setMergeSurvivorId(null)
+  }
+
+  const mergeSelectedOrganizers = async () => {
+    if (!user || !mergeCandidates || !mergeSurvivorId) return
+
+    const mergedIds = mergeCandidates
+      .map(organizer => organizer.organizer_id)
+      .filter(id => id !== mergeSurvivorId)
+    const survivor = mergeCandidates.find(organizer => organizer.organizer_id === mergeSurvivorId)
+
+    try {
+      setMerging(true)
+      const response = await fetch('/api/organizers/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ survivorId: mergeSurvivorId, mergedIds })
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao mesclar organizadores')
+      }
+
+      closeMergeModal()
+      setSelectedForMerge(new Set())
+      await fetchOrganizers()
+      showNotification('success', `${mergedIds.length} organizador${mergedIds.length !== 1 ? 'es' : ''} mesclado${mergedIds.length !== 1 ? 's' : ''} em ${survivor?.name}!`)
+
+    } catch (error) {
+      console.error('Error merging organizers:', error)
+      showNotification('error', 'Erro ao mesclar organizadores')
+    } finally {
+      setMerging(false)
+    }
+  }
+
   const exportData = async () => {
     try {
       setExporting(true)
@@ -358,7 +462,7 @@ export default function OrganizersPage() {
   // Effects
   useEffect(() => {
     fetchOrganizers()
-  }, [user, sortField, sortOrder])
+  }, [user, sortField, sortOrder, segmentFilter])
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -488,6 +592,18 @@ export default function OrganizersPage() {
                     )}
                   </button>
                 ))}
+
+                <select
+                  value={segmentFilter}
+                  onChange={(e) => setSegmentFilter(e.target.value)}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="">Todos os segmentos</option>
+                  {EVENT_SEGMENTS.map(segment => (
+                    <option key={segment} value={segment}>{EVENT_SEGMENT_LABELS[segment]}</option>
+                  ))}
+                  <option value="none">Sem segmento</option>
+                </select>
               </div>
             </div>
 
@@ -504,11 +620,11 @@ export default function OrganizersPage() {
                   <Building className="h-16 w-16 text-gray-300 mx-auto" />
                 </div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">
-                  {searchTerm ? 'Nenhum organizador encontrado' : 'Nenhum organizador cadastrado'}
+                  {searchTerm || segmentFilter ? 'Nenhum organizador encontrado' : 'Nenhum organizador cadastrado'}
                 </h3>
                 <p className="text-gray-600 mb-6">
-                  {searchTerm ? 
-                    'Tente buscar com outros termos ou limpe a busca.' : 
+                  {searchTerm || segmentFilter ? 
+                    'Tente buscar com outros termos ou limpe os filtros.' : 
                     'Comece fazendo sua primeira prospecção para adicionar organizadores.'
                   }
                 </p>
@@ -546,6 +662,52 @@ export default function OrganizersPage() {
                   </div>
                 </div>
 
+                {/* Possible duplicates */}
+                {duplicateGroups.length > 0 && (
+                  <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+                    <h4 className="text-md font-medium text-amber-900 flex items-center mb-3">
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Possíveis duplicatas ({duplicateGroups.length})
+                    </h4>
+                    <div className="space-y-2">
+                      {duplicateGroups.map(group => (
+                        <div
+                          key={group.organizers[0].organizer_id}
+                          className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border border-amber-100"
+                        >
+                          <div className="text-sm text-gray-700">
+                            <span className="font-medium">
+                              {group.organizers.map(organizer => organizer.name).join(' · ')}
+                            </span>
+                            <span className="ml-2 text-xs text-amber-700">
+                              {group.reasons.map(reason => MATCH_REASON_LABELS[reason]).join(', ')}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => openMergeModal(group.organizers)}
+                            className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200"
+                          >
+                            <GitMerge className="h-3 w-3 mr-1" />
+                            Mesclar
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedForMerge.size > 1 && (
+                  <div className="mb-4 flex justify-end">
+                    <button
+                      onClick={() => openMergeModal(organizers.filter(org => selectedForMerge.has(org.organizer_id)))}
+                      className="inline-flex items-center px-4 py-2 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200"
+                    >
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Mesclar selecionados ({selectedForMerge.size})
+                    </button>
+                  </div>
+                )}
+
                 {/* Organizers List */}
                 <div className="space-y-4">
                   {organizers.map((organizer) => (
@@ -560,6 +722,15 @@ export default function OrganizersPage() {
                       >
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedForMerge.has(organizer.organizer_id)}
+                              onChange={() => toggleMergeSelection(organizer.organizer_id)}
+                              onClick={(e) => e.stopPropagation()}
+                              className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                              title="Selecionar para mesclar"
+                            />
+
                             <button className="text-gray-400 hover:text-gray-600">
                               {expandedOrganizers.has(organizer.organizer_id) ? (
                                 <ChevronDown className="h-5 w-5" />
@@ -592,6 +763,24 @@ export default function OrganizersPage() {
                           </div>
                           
                           <div className="flex items-center space-x-4">
+                            <div
+                              className="flex items-center text-sm text-gray-600"
+                              title={organizer.segment_source === 'manual' ? 'Definido manualmente' : organizer.segment ? 'Segmento mais comum dos eventos' : undefined}
+                            >
+                              <Briefcase className="h-4 w-4 mr-1 text-teal-500" />
+                              <select
+                                value={organizer.segment || ''}
+                                onChange={(e) => updateOrganizerSegment(organizer.organizer_id, e.target.value)}
+                                onClick={(e) => e.stopPropagation()}
+                                className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                              >
+                                <option value="">Pelos eventos</option>
+                                {EVENT_SEGMENTS.map(segment => (
+                                  <option key={segment} value={segment}>{EVENT_SEGMENT_LABELS[segment]}</option>
+                                ))}
+                              </select>
+                            </div>
+
                             <div className="flex items-center text-sm text-gray-600">
                               <Users className="h-4 w-4 mr-1 text-green-500" />
                               {organizer.contact_count} contato{organizer.contact_count !== 1 ? 's' : ''}
@@ -829,6 +1018,83 @@ export default function OrganizersPage() {
         </div>
       </div>
 
+      {/* Merge Modal */}
+      {mergeCandidates && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <GitMerge className="h-5 w-5 mr-2 text-amber-600" />
+                Mesclar organizadores
+              </h2>
+              <button
+                onClick={closeMergeModal}
+                disabled={merging}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6">
+              <p className="text-sm text-gray-600 mb-4">
+                Escolha o organizador que será mantido. Eventos, leads e contatos dos demais serão movidos para ele e os outros registros serão excluídos.
+              </p>
+
+              <div className="space-y-2 mb-6">
+                {mergeCandidates.map(organizer => (
+                  <label
+                    key={organizer.organizer_id}
+                    className={`flex items-center p-3 rounded-lg border cursor-pointer transition-colors duration-200 ${
+                      mergeSurvivorId === organizer.organizer_id
+                        ? 'bg-amber-50 border-amber-300'
+                        : 'bg-white border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="merge-survivor"
+                      checked={mergeSurvivorId === organizer.organizer_id}
+                      onChange={() => setMergeSurvivorId(organizer.organizer_id)}
+                      className="h-4 w-4 text-amber-600 border-gray-300 focus:ring-amber-500"
+                    />
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-gray-900">{organizer.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {organizer.contact_count} contato{organizer.contact_count !== 1 ? 's' : ''}
+                        {organizer.website && ` · ${organizer.website}`}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={closeMergeModal}
+                  disabled={merging}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 transition-colors duration-200"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={mergeSelectedOrganizers}
+                  disabled={merging || !mergeSurvivorId}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {merging ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <GitMerge className="h-4 w-4 mr-2" />
+                  )}
+                  Mesclar
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Email Composer Modal */}
       <EmailComposer
         isOpen={emailComposerOpen}
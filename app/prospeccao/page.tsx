@@ -1,19 +1,227 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 
 export const dynamic = 'force-dynamic'
 import { useAuth } from '@/lib/auth-context'
-import { ArrowLeft, Search, Loader2, CheckCircle, AlertCircle } from 'lucide-react'
+import { ArrowLeft, Search, Loader2, CheckCircle, AlertCircle, Link2, Compass, RotateCcw, FileSpreadsheet } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import type { IngestionJobSummary, IngestionJobItem, IngestionItemStatus } from '@/lib/supabase'
+import type { IngestionStage, IngestionProgressEvent } from '@/lib/lead-ingestion'
+import { readNdjson } from '@/lib/ndjson-stream'
+import { EVENT_PLATFORMS } from '@/lib/event-sources/platforms'
+
+// "Sympla, Eventbrite, Even3 ou Doity"
+const PLATFORM_NAMES = EVENT_PLATFORMS
+  .map(platform => platform.name)
+  .join(', ')
+  .replace(/, ([^,]*)$/, ' ou $1')
+
+const ITEM_STATUS_LABELS: Record<IngestionItemStatus, string> = {
+  queued: 'Na fila',
+  running: 'Processando',
+  done: 'Importado',
+  failed: 'Falhou',
+  duplicate: 'Já importado',
+  review: 'Aguardando revisão'
+}
+
+// Live step of an item while the run request is streaming
+const STAGE_LABELS: Record<IngestionStage, string> = {
+  fetching: 'Baixando página',
+  browser_fallback: 'Abrindo no navegador',
+  llm_extraction: 'Extraindo dados',
+  saved: 'Importado',
+  review: 'Aguardando revisão',
+  duplicate: 'Já importado',
+  failed: 'Falhou'
+}
+
+const FINAL_STAGE_STATUS: Partial<Record<IngestionStage, IngestionItemStatus>> = {
+  saved: 'done',
+  review: 'review',
+  duplicate: 'duplicate',
+  failed: 'failed'
+}
+
+const ITEM_STATUS_STYLES: Record<IngestionItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-purple-100 text-purple-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  review: 'bg-orange-100 text-orange-800'
+}
+
+const JOB_SOURCE_LABELS: Record<IngestionJobSummary['source'], string> = {
+  links: 'Links colados',
+  sympla_discovery: 'Descoberta no Sympla',
+  spreadsheet: 'Planilha'
+}
+
+type RunResult = { processed: number; job: IngestionJobSummary; items: IngestionJobItem[] }
+
+// Lines of /api/ingestion-jobs/[id]/run?stream=1
+type ProgressMessage = { type: 'progress'; item_id: string } & IngestionProgressEvent
+type RunMessage =
+  | ProgressMessage
+  | ({ type: 'complete' } & RunResult)
+  | { type: 'error'; error?: string }
 
 export default function ProspeccaoPage() {
   const { user } = useAuth()
   const router = useRouter()
+  const [mode, setMode] = useState<'links' | 'discovery'>('links')
   const [prospectingText, setProspectingText] = useState('')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [results, setResults] = useState<any>(null)
+  const [includePastEvents, setIncludePastEvents] = useState(false)
+  const [discoveryForm, setDiscoveryForm] = useState({
+    listingUrl: '',
+    keyword: '',
+    city: '',
+    maxPages: 5
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [activeJob, setActiveJob] = useState<IngestionJobSummary | null>(null)
+  const [jobItems, setJobItems] = useState<IngestionJobItem[]>([])
+  const [recentJobs, setRecentJobs] = useState<IngestionJobSummary[]>([])
+  const [itemStages, setItemStages] = useState<Record<string, IngestionStage>>({})
   const [error, setError] = useState('')
+  // Guards against two run loops for the same page (polling + submit)
+  const runningRef = useRef(false)
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${user?.id}`
+  }), [user])
+
+  const loadJob = useCallback(async (jobId: string) => {
+    const response = await fetch(`/api/ingestion-jobs/${jobId}`, {
+      headers: authHeaders()
+    })
+
+    if (!response.ok) return null
+
+    const data = await response.json()
+    setActiveJob(data.job)
+    setJobItems(data.items || [])
+    return data as { job: IngestionJobSummary; items: IngestionJobItem[] }
+  }, [authHeaders])
+
+  const fetchRecentJobs = useCallback(async () => {
+    const response = await fetch('/api/ingestion-jobs', {
+      headers: authHeaders()
+    })
+
+    if (!response.ok) return []
+
+    const data = await response.json()
+    setRecentJobs(data.jobs || [])
+    return (data.jobs || []) as IngestionJobSummary[]
+  }, [authHeaders])
+
+  // Apply a streamed pipeline step to the matching item of the list
+  const handleProgress = useCallback((jobId: string, event: ProgressMessage) => {
+    const itemId = event.item_id
+    const stage = event.stage
+    const finalStatus = FINAL_STAGE_STATUS[stage]
+
+    setItemStages(prev => ({ ...prev, [itemId]: stage }))
+
+    setJobItems(prev => {
+      if (!prev.some(item => item.item_id === itemId)) {
+        // Items created while running (organizer profiles) are not listed yet
+        loadJob(jobId)
+        return prev
+      }
+
+      return prev.map(item => item.item_id !== itemId ? item : {
+        ...item,
+        status: finalStatus || 'running',
+        event_name: event.event_name || item.event_name,
+        organizer_name: event.organizer_name || item.organizer_name,
+        lead_id: event.lead_id || item.lead_id,
+        error: event.error || (finalStatus ? null : item.error)
+      })
+    })
+  }, [loadJob])
+
+  // Keep calling the run endpoint until the job has no queued items left
+  const runJob = useCallback(async (jobId: string) => {
+    if (runningRef.current) return
+    runningRef.current = true
+    setIsRunning(true)
+
+    try {
+      while (true) {
+        const response = await fetch(`/api/ingestion-jobs/${jobId}/run?stream=1`, {
+          method: 'POST',
+          headers: authHeaders()
+        })
+
+        if (!response.ok) {
+          const data = await response.json()
+          throw new Error(data.error || 'Erro ao processar importação')
+        }
+
+        // The stream ends with one complete message unless the request failed
+        const results: RunResult[] = []
+
+        await readNdjson<RunMessage>(response, message => {
+          if (message.type === 'progress') {
+            handleProgress(jobId, message)
+          } else if (message.type === 'complete') {
+            results.push(message)
+          } else if (message.type === 'error') {
+            throw new Error(message.error || 'Erro ao processar importação')
+          }
+        })
+
+        const completed = results.pop()
+        if (!completed) break
+        const { processed, job, items } = completed
+
+        setActiveJob(job)
+        setJobItems(items || [])
+
+        if (processed === 0 || job.item_counts.queued === 0) break
+      }
+    } catch (error) {
+      console.error('Error running ingestion job:', error)
+      setError(error instanceof Error ? error.message : 'Erro ao processar importação')
+    } finally {
+      runningRef.current = false
+      setIsRunning(false)
+      fetchRecentJobs()
+    }
+  }, [authHeaders, fetchRecentJobs, handleProgress])
+
+  // Resume the most recent unfinished job when the page is opened
+  useEffect(() => {
+    if (!user) return
+
+    fetchRecentJobs().then(jobs => {
+      const unfinished = jobs.find(job => job.status !== 'completed')
+      if (unfinished) {
+        loadJob(unfinished.job_id).then(data => {
+          if (data && data.job.item_counts.queued > 0) {
+            runJob(unfinished.job_id)
+          }
+        })
+      }
+    })
+  }, [user, fetchRecentJobs, loadJob, runJob])
+
+  // Items may also be processed by the scheduled worker; poll while the job is unfinished
+  useEffect(() => {
+    if (!activeJob || activeJob.status === 'completed' || isRunning) return
+
+    const interval = setInterval(() => {
+      loadJob(activeJob.job_id)
+    }, 3000)
+
+    return () => clearInterval(interval)
+  }, [activeJob, isRunning, loadJob])
 
   const handleBack = () => {
     router.push('/')
@@ -22,17 +230,32 @@ export default function ProspeccaoPage() {
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setProspectingText(e.target.value)
     setError('')
-    setResults(null)
   }
 
+  const handleModeChange = (newMode: 'links' | 'discovery') => {
+    setMode(newMode)
+    setError('')
+  }
+
+  const canContinue = mode === 'links'
+    ? prospectingText.trim().length > 0
+    : discoveryForm.listingUrl.trim().length > 0 || discoveryForm.keyword.trim().length > 0
+
   const handleContinue = async () => {
-    if (!prospectingText.trim() || !user) return
+    if (!user) return
 
-    setIsProcessing(true)
-    setError('')
-    setResults(null)
+    let body: Record<string, any>
 
-    try {
+    if (mode === 'discovery') {
+      body = {
+        discovery: {
+          listingUrl: discoveryForm.listingUrl.trim() || undefined,
+          keyword: discoveryForm.keyword.trim() || undefined,
+          city: discoveryForm.city.trim() || undefined,
+          maxPages: discoveryForm.maxPages
+        }
+      }
+    } else {
       // Split links by lines and filter out empty lines
       const links = prospectingText
         .split('\n')
@@ -40,44 +263,92 @@ export default function ProspeccaoPage() {
         .filter(link => link.length > 0)
 
       if (links.length === 0) {
-        setError('Por favor, cole pelo menos um link do Sympla ou Eventbrite.')
-        setIsProcessing(false)
+        setError(`Por favor, cole pelo menos um link de evento (${PLATFORM_NAMES}).`)
         return
       }
 
-      // Call the API
-      const response = await fetch('/api/process-sympla', {
+      body = { links, includePastEvents }
+    }
+
+    setIsSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/ingestion-jobs', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          links,
-          userId: user.id
-        })
+        headers: authHeaders(),
+        body: JSON.stringify(body)
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'Erro ao processar links')
+        throw new Error(data.error || 'Erro ao criar importação')
       }
 
-      setResults(data)
-
-      // If successful, clear the text area
-      if (data.success && data.processed > 0) {
+      if (mode === 'links') {
         setProspectingText('')
       }
 
+      await loadJob(data.job.job_id)
+      fetchRecentJobs()
+      runJob(data.job.job_id)
+
     } catch (error) {
-      console.error('Error processing links:', error)
-      setError(error instanceof Error ? error.message : 'Erro ao processar links')
+      console.error('Error creating ingestion job:', error)
+      setError(error instanceof Error ? error.message : 'Erro ao criar importação')
     } finally {
-      setIsProcessing(false)
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSelectJob = async (jobId: string) => {
+    setError('')
+    const data = await loadJob(jobId)
+    if (data && data.job.item_counts.queued > 0) {
+      runJob(jobId)
     }
   }
 
+  const handleRetryItem = async (itemId: string) => {
+    if (!activeJob) return
+
+    try {
+      const response = await fetch(`/api/ingestion-jobs/items/${itemId}/retry`, {
+        method: 'POST',
+        headers: authHeaders()
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao reprocessar link')
+      }
+
+      await loadJob(activeJob.job_id)
+      runJob(activeJob.job_id)
+
+    } catch (error) {
+      console.error('Error retrying item:', error)
+      setError(error instanceof Error ? error.message : 'Erro ao reprocessar link')
+    }
+  }
+
+  // Counted from the list so streamed updates show up before the run request ends
+  const itemCounts = jobItems.reduce((counts, item) => {
+    counts[item.status]++
+    return counts
+  }, { queued: 0, running: 0, done: 0, failed: 0, duplicate: 0, review: 0 } as Record<IngestionItemStatus, number>)
+
+  const formatJobDate = (date: string) => {
+    return new Date(date).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
   // Redirect to login if not authenticated
   if (!user) {
     router.push('/')
@@ -116,24 +387,129 @@ export default function ProspeccaoPage() {
                 Passo 1
               </h2>
               
-              <p className="text-lg text-gray-600 mb-12 max-w-2xl mx-auto">
-                Cole links de eventos do Sympla ou Eventbrite e separe por linhas para análise e prospecção.
+              <p className="text-lg text-gray-600 mb-8 max-w-2xl mx-auto">
+                {mode === 'links'
+                  ? `Cole links de eventos do ${PLATFORM_NAMES} e separe por linhas para análise e prospecção.`
+                  : 'Informe uma busca do Sympla (link da listagem ou palavra-chave e cidade) para descobrir e importar os eventos automaticamente.'}
               </p>
+
+              {/* Mode Selector */}
+              <div className="flex justify-center gap-2 mb-8">
+                <button
+                  onClick={() => handleModeChange('links')}
+                  className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg border transition-colors duration-200 ${
+                    mode === 'links'
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Colar links
+                </button>
+                <button
+                  onClick={() => handleModeChange('discovery')}
+                  className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg border transition-colors duration-200 ${
+                    mode === 'discovery'
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Compass className="h-4 w-4 mr-2" />
+                  Descobrir no Sympla
+                </button>
+                <button
+                  onClick={() => router.push('/import')}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Importar planilha
+                </button>
+              </div>
               
               {/* Text Input Area */}
               <div className="max-w-3xl mx-auto">
-                <div className="relative">
-                  <textarea
-                    value={prospectingText}
-                    onChange={handleTextChange}
-                    placeholder="Cole os links dos eventos do Sympla ou Eventbrite aqui, um por linha..."
-                    className="w-full h-64 px-6 py-4 text-lg text-gray-900 border-2 border-gray-200 rounded-2xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200 resize-none"
-                    maxLength={2000}
-                  />
-                  <div className="absolute bottom-4 right-4 text-sm text-gray-400">
-                    {prospectingText.length}/2000
+                {mode === 'links' ? (
+                  <>
+                    <div className="relative">
+                      <textarea
+                        value={prospectingText}
+                        onChange={handleTextChange}
+                        placeholder={`Cole os links dos eventos do ${PLATFORM_NAMES} aqui, um por linha...`}
+                        className="w-full h-64 px-6 py-4 text-lg text-gray-900 border-2 border-gray-200 rounded-2xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200 resize-none"
+                        maxLength={2000}
+                      />
+                      <div className="absolute bottom-4 right-4 text-sm text-gray-400">
+                        {prospectingText.length}/2000
+                      </div>
+                    </div>
+                    <label className="flex items-center justify-center mt-4 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={includePastEvents}
+                        onChange={(e) => setIncludePastEvents(e.target.checked)}
+                        className="mr-2 h-4 w-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                      />
+                      Incluir eventos passados de perfis de organizador do Eventbrite (eventbrite.com/o/...)
+                    </label>
+                  </>
+                ) : (
+                  <div className="space-y-4 text-left">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Link da busca ou listagem do Sympla
+                      </label>
+                      <input
+                        type="url"
+                        value={discoveryForm.listingUrl}
+                        onChange={(e) => setDiscoveryForm(prev => ({ ...prev, listingUrl: e.target.value }))}
+                        placeholder="https://www.sympla.com.br/eventos/sao-paulo-sp?s=congresso"
+                        className="w-full px-4 py-3 text-gray-900 border-2 border-gray-200 rounded-xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200"
+                      />
+                    </div>
+                    <p className="text-sm text-gray-500 text-center">ou</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Palavra-chave
+                        </label>
+                        <input
+                          type="text"
+                          value={discoveryForm.keyword}
+                          onChange={(e) => setDiscoveryForm(prev => ({ ...prev, keyword: e.target.value }))}
+                          placeholder="congresso"
+                          disabled={discoveryForm.listingUrl.trim().length > 0}
+                          className="w-full px-4 py-3 text-gray-900 border-2 border-gray-200 rounded-xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200 disabled:bg-gray-50"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Cidade
+                        </label>
+                        <input
+                          type="text"
+                          value={discoveryForm.city}
+                          onChange={(e) => setDiscoveryForm(prev => ({ ...prev, city: e.target.value }))}
+                          placeholder="São Paulo, SP"
+                          disabled={discoveryForm.listingUrl.trim().length > 0}
+                          className="w-full px-4 py-3 text-gray-900 border-2 border-gray-200 rounded-xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200 disabled:bg-gray-50"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Máximo de páginas
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={discoveryForm.maxPages}
+                        onChange={(e) => setDiscoveryForm(prev => ({ ...prev, maxPages: Number(e.target.value) || 1 }))}
+                        className="w-32 px-4 py-3 text-gray-900 border-2 border-gray-200 rounded-xl focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all duration-200"
+                      />
+                    </div>
                   </div>
-                </div>
+                )}
                 
                 {/* Action Buttons */}
                 <div className="flex flex-col sm:flex-row gap-4 mt-8 justify-center">
@@ -145,10 +521,10 @@ export default function ProspeccaoPage() {
                   </button>
                   <button
                     onClick={handleContinue}
-                    disabled={!prospectingText.trim() || isProcessing}
+                    disabled={!canContinue || isSubmitting}
                     className="px-8 py-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-200"
                   >
-                    {isProcessing ? (
+                    {isSubmitting ? (
                       <div className="flex items-center">
                         <Loader2 className="h-5 w-5 mr-2 animate-spin" />
                         Processando...
@@ -170,105 +546,135 @@ export default function ProspeccaoPage() {
                 </div>
               )}
 
-              {/* Results Display */}
-              {results && (
-                <div className="mt-6 p-6 bg-green-50 border border-green-200 rounded-xl">
-                  <div className="flex items-center mb-4">
-                    <CheckCircle className="h-6 w-6 text-green-500 mr-2" />
-                    <h3 className="text-lg font-semibold text-green-800">
-                      Processamento Concluído!
-                    </h3>
+              {/* Job Progress */}
+              {activeJob && (
+                <div className="mt-6 p-6 bg-gray-50 border border-gray-200 rounded-xl text-left">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center">
+                      {activeJob.status === 'completed' ? (
+                        <CheckCircle className="h-6 w-6 text-green-500 mr-2" />
+                      ) : (
+                        <Loader2 className="h-6 w-6 text-purple-500 mr-2 animate-spin" />
+                      )}
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {activeJob.status === 'completed' ? 'Importação concluída' : 'Importação em andamento'}
+                      </h3>
+                    </div>
+                    <span className="text-sm text-gray-500">{formatJobDate(activeJob.created_at)}</span>
                   </div>
-                  
-                  <div className="text-green-700">
-                    <p className="mb-2">
-                      <strong>Links processados com sucesso:</strong> {results.processed}
+
+                  {activeJob.source === 'sympla_discovery' && activeJob.options?.pagesVisited !== undefined && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      {activeJob.total_items} eventos descobertos em {activeJob.options.pagesVisited} página(s) do Sympla
                     </p>
-                    
-                    {results.errors && results.errors.length > 0 && (
-                      <div className="mt-4">
-                        <p className="font-medium text-orange-700 mb-2">Avisos:</p>
-                        <ul className="list-disc list-inside text-orange-600 text-sm">
-                          {results.errors.map((error: string, index: number) => (
-                            <li key={index}>{error}</li>
-                          ))}
-                        </ul>
-                      </div>
+                  )}
+
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 mb-4">
+                    <div className="bg-white rounded-lg border px-4 py-2">
+                      <p className="text-sm text-gray-500">Total</p>
+                      <p className="text-xl font-semibold text-gray-900">{jobItems.length}</p>
+                    </div>
+                    <div className="bg-white rounded-lg border px-4 py-2">
+                      <p className="text-sm text-gray-500">Importados</p>
+                      <p className="text-xl font-semibold text-green-600">{itemCounts.done}</p>
+                    </div>
+                    <div className="bg-white rounded-lg border px-4 py-2">
+                      <p className="text-sm text-gray-500">Já importados</p>
+                      <p className="text-xl font-semibold text-gray-600">{itemCounts.duplicate}</p>
+                    </div>
+                    {itemCounts.review > 0 && (
+                      <button
+                        onClick={() => router.push('/review')}
+                        className="bg-white rounded-lg border border-orange-200 px-4 py-2 text-left hover:bg-orange-50"
+                      >
+                        <p className="text-sm text-gray-500">Em revisão</p>
+                        <p className="text-xl font-semibold text-orange-600">{itemCounts.review}</p>
+                      </button>
                     )}
-                    
-                    {results.results && results.results.length > 0 && (
-                      <div className="mt-4">
-                        <p className="font-medium mb-2">Eventos extraídos:</p>
-                        <div className="space-y-2">
-                          {results.results.map((lead: any, index: number) => (
-                            <div key={index} className="bg-white p-4 rounded-lg border">
-                              <p className="font-medium text-gray-900 mb-2">
-                                {lead.nome_evento || 'Evento sem nome'}
-                              </p>
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                                <p className="text-gray-600">
-                                  <span className="font-medium">Data:</span> {lead.data_evento || 'Não informado'}
-                                </p>
-                                <p className="text-gray-600">
-                                  <span className="font-medium">Local:</span> {lead.event_local || lead.local || 'Não informado'}
-                                </p>
-                                <p className="text-gray-600">
-                                  <span className="font-medium">Organizador:</span> {lead.organizer_name || lead.produtor || 'Não informado'}
-                                </p>
-                                <p className="text-gray-600">
-                                  <span className="font-medium">Status:</span> {lead.status_busca || 'pendente'}
-                                </p>
-                              </div>
-                              
-                              {/* Contact Information */}
-                              <div className="mt-3 pt-3 border-t border-gray-100">
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                                  <div>
-                                    <span className="font-medium text-blue-600">Website:</span>
-                                    {lead.organizer_website || lead.website ? (
-                                      <a 
-                                        href={lead.organizer_website || lead.website}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="ml-2 text-blue-600 hover:text-blue-700 underline"
-                                      >
-                                        {lead.organizer_website || lead.website}
-                                      </a>
-                                    ) : (
-                                      <span className="ml-2 text-gray-400">Não encontrado</span>
-                                    )}
-                                  </div>
-                                  <div>
-                                    <span className="font-medium text-green-600">Status da Busca:</span>
-                                    <span className={`ml-2 ${
-                                      lead.status_busca === 'encontrado' ? 'text-green-600' :
-                                      lead.status_busca === 'pendente' ? 'text-yellow-600' :
-                                      lead.status_busca === 'erro' ? 'text-red-600' :
-                                      'text-gray-400'
-                                    }`}>
-                                      {lead.status_busca === 'encontrado' ? 'Contatos encontrados' :
-                                       lead.status_busca === 'buscando' ? 'Buscando...' :
-                                       lead.status_busca === 'nao_encontrado' ? 'Nenhum contato encontrado' :
-                                       lead.status_busca === 'erro' ? 'Erro na busca' :
-                                       'Não processado'}
-                                    </span>
-                                  </div>
-                                </div>
-                                
-                                {/* Contact verified status */}
-                                {lead.contato_verificado && (
-                                  <div className="mt-2">
-                                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
-                                      ✓ Contato verificado
-                                    </span>
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          ))}
+                    <div className="bg-white rounded-lg border px-4 py-2">
+                      <p className="text-sm text-gray-500">Falhas</p>
+                      <p className="text-xl font-semibold text-red-600">{itemCounts.failed}</p>
+                    </div>
+                    <div className="bg-white rounded-lg border px-4 py-2">
+                      <p className="text-sm text-gray-500">Na fila</p>
+                      <p className="text-xl font-semibold text-purple-600">
+                        {itemCounts.queued + itemCounts.running}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {jobItems.map(item => (
+                      <div key={item.item_id} className="bg-white p-3 rounded-lg border flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">
+                            {item.event_name || item.url}
+                          </p>
+                          {item.event_name && item.url && (
+                            <p className="text-xs text-gray-500 truncate">{item.url}</p>
+                          )}
+                          {item.organizer_name && (
+                            <p className="text-sm text-gray-600">
+                              <span className="font-medium">Organizador:</span> {item.organizer_name}
+                            </p>
+                          )}
+                          {item.status === 'failed' && item.error && (
+                            <p className="text-sm text-red-600">{item.error}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${ITEM_STATUS_STYLES[item.status]}`}>
+                            {item.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                            {item.status === 'running' && itemStages[item.item_id]
+                              ? STAGE_LABELS[itemStages[item.item_id]]
+                              : ITEM_STATUS_LABELS[item.status]}
+                          </span>
+                          {item.status === 'failed' && (
+                            <button
+                              onClick={() => handleRetryItem(item.item_id)}
+                              disabled={isRunning}
+                              className="inline-flex items-center px-2 py-1 text-xs font-medium text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Tentar novamente
+                            </button>
+                          )}
                         </div>
                       </div>
-                    )}
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Recent Jobs */}
+              {recentJobs.length > 0 && (
+                <div className="mt-6 text-left">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Importações recentes</h3>
+                  <div className="space-y-2">
+                    {recentJobs.map(job => (
+                      <div
+                        key={job.job_id}
+                        className={`flex items-center justify-between p-3 rounded-lg border ${
+                          activeJob?.job_id === job.job_id ? 'border-purple-300 bg-purple-50' : 'border-gray-200 bg-white'
+                        }`}
+                      >
+                        <div className="text-sm text-gray-700">
+                          <span className="font-medium">
+                            {JOB_SOURCE_LABELS[job.source]}
+                          </span>
+                          <span className="text-gray-500"> · {formatJobDate(job.created_at)}</span>
+                          <span className="text-gray-500">
+                            {' '}· {job.item_counts.done} importados, {job.item_counts.failed} falhas de {job.total_items}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => handleSelectJob(job.job_id)}
+                          className="text-sm font-medium text-purple-600 hover:text-purple-700"
+                        >
+                          {job.status === 'completed' ? 'Ver detalhes' : 'Acompanhar'}
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -278,4 +684,4 @@ export default function ProspeccaoPage() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
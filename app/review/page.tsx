@@ -0,0 +1,330 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+
+export const dynamic = 'force-dynamic'
+import { useAuth } from '@/lib/auth-context'
+import { ArrowLeft, Loader2, Check, X, ExternalLink, AlertTriangle } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import type { ExtractionReview } from '@/lib/supabase'
+import type { FieldSource } from '@/lib/event-sources/structured-data'
+import { isPlaceholderValue, DEFAULT_REVIEW_THRESHOLD } from '@/lib/event-sources/field-confidence'
+import { getPlatformName } from '@/lib/event-sources/platforms'
+
+type ReviewForm = Record<ReviewFormField, string>
+type ReviewFormField = 'nome_evento' | 'data_evento' | 'local' | 'produtor' | 'website'
+
+const FIELDS: { field: ReviewFormField; label: string; placeholder: string }[] = [
+  { field: 'nome_evento', label: 'Evento', placeholder: 'Nome do evento' },
+  { field: 'produtor', label: 'Organizador', placeholder: 'Quem organiza o evento' },
+  { field: 'data_evento', label: 'Data', placeholder: 'Ex.: 22 out - 2025' },
+  { field: 'local', label: 'Local', placeholder: 'Local, cidade e estado' },
+  { field: 'website', label: 'Site do organizador', placeholder: 'https://' }
+]
+
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  json_ld: 'dados estruturados',
+  next_data: 'dados da página',
+  meta: 'metadados',
+  html: 'texto da página',
+  llm: 'IA',
+  manual: 'informado manualmente'
+}
+
+const confidenceStyle = (confidence: number) => {
+  if (confidence >= 0.8) return 'bg-green-100 text-green-800'
+  if (confidence >= DEFAULT_REVIEW_THRESHOLD) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+// Placeholders start empty so they are not approved as real values
+const initialForm = (review: ExtractionReview): ReviewForm => {
+  const form = {} as ReviewForm
+  FIELDS.forEach(({ field }) => {
+    const value = review.event_data[field]
+    form[field] = value && !isPlaceholderValue(value) ? value : ''
+  })
+  return form
+}
+
+export default function ReviewPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [reviews, setReviews] = useState<ExtractionReview[]>([])
+  const [forms, setForms] = useState<Record<string, ReviewForm>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [busyReview, setBusyReview] = useState<string | null>(null)
+  const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null)
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message })
+    setTimeout(() => setNotification(null), 5000)
+  }
+
+  const fetchReviews = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError('')
+
+      const response = await fetch('/api/extraction-reviews', {
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao carregar revisões')
+      }
+
+      const data = await response.json()
+      const pending: ExtractionReview[] = data.reviews || []
+      setReviews(pending)
+
+      const nextForms: Record<string, ReviewForm> = {}
+      pending.forEach(review => {
+        nextForms[review.review_id] = initialForm(review)
+      })
+      setForms(nextForms)
+    } catch (error) {
+      console.error('Error fetching extraction reviews:', error)
+      setError('Erro ao carregar revisões')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateField = (reviewId: string, field: ReviewFormField, value: string) => {
+    setForms(prev => ({ ...prev, [reviewId]: { ...prev[reviewId], [field]: value } }))
+  }
+
+  const approveReview = async (review: ExtractionReview) => {
+    if (!user) return
+
+    const form = forms[review.review_id]
+    if (!form.nome_evento.trim() || !form.produtor.trim()) {
+      showNotification('error', 'Informe o nome do evento e o organizador antes de aprovar')
+      return
+    }
+
+    // Only what the reviewer changed counts as a correction
+    const original = initialForm(review)
+    const fields: Partial<ReviewForm> = {}
+    FIELDS.forEach(({ field }) => {
+      if (form[field].trim() !== original[field]) fields[field] = form[field]
+    })
+
+    try {
+      setBusyReview(review.review_id)
+      const response = await fetch(`/api/extraction-reviews/${review.review_id}/approve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ fields })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao aprovar importação')
+      }
+
+      setReviews(prev => prev.filter(item => item.review_id !== review.review_id))
+      showNotification('success', `Lead criado: ${data.lead?.nome_evento || form.nome_evento}`)
+    } catch (error) {
+      console.error('Error approving review:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Erro ao aprovar importação')
+    } finally {
+      setBusyReview(null)
+    }
+  }
+
+  const rejectReview = async (review: ExtractionReview) => {
+    if (!user) return
+    if (!confirm('Descartar esta importação? Nenhum lead será criado.')) return
+
+    try {
+      setBusyReview(review.review_id)
+      const response = await fetch(`/api/extraction-reviews/${review.review_id}/reject`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao descartar importação')
+      }
+
+      setReviews(prev => prev.filter(item => item.review_id !== review.review_id))
+      showNotification('success', 'Importação descartada')
+    } catch (error) {
+      console.error('Error rejecting review:', error)
+      showNotification('error', 'Erro ao descartar importação')
+    } finally {
+      setBusyReview(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchReviews()
+  }, [user])
+
+  // Redirect to login if not authenticated
+  if (!user) {
+    router.push('/')
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <button
+            onClick={() => router.push('/leads')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-sm transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </button>
+        </div>
+
+        {/* Main content */}
+        <div className="max-w-5xl mx-auto">
+          <div className="bg-white rounded-3xl shadow-xl px-8 py-12">
+            <div className="text-center mb-8">
+              <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 mb-4">
+                Revisão de Importações
+              </h1>
+              <p className="text-lg text-gray-600">
+                Eventos em que a extração ficou incerta. Corrija os campos e aprove para criar o lead.
+              </p>
+            </div>
+
+            {/* Notification */}
+            {notification && (
+              <div className={`mb-6 p-4 rounded-xl border ${
+                notification.type === 'success'
+                  ? 'bg-green-50 border-green-200'
+                  : 'bg-red-50 border-red-200'
+              }`}>
+                <p className={`font-medium ${
+                  notification.type === 'success' ? 'text-green-700' : 'text-red-700'
+                }`}>
+                  {notification.message}
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+                <p className="text-red-700 font-medium">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : reviews.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">Nenhuma importação aguardando revisão</p>
+            ) : (
+              <div className="space-y-6">
+                {reviews.map(review => {
+                  const form = forms[review.review_id]
+                  const confidence = review.event_data.field_confidence || {}
+                  const sources = review.event_data.field_sources || {}
+                  const busy = busyReview === review.review_id
+
+                  return (
+                    <div key={review.review_id} className="border border-gray-200 rounded-2xl p-6">
+                      <div className="flex justify-between items-start gap-4 mb-4">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-500">
+                            {getPlatformName(review.source)} · {new Date(review.created_at).toLocaleString('pt-BR')}
+                          </p>
+                          <a
+                            href={review.event_data.event_url || review.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-sm text-indigo-600 hover:underline break-all"
+                          >
+                            {review.event_data.event_url || review.url}
+                            <ExternalLink className="h-3 w-3 ml-1 flex-shrink-0" />
+                          </a>
+                        </div>
+                        {review.low_fields.length > 0 && (
+                          <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 flex-shrink-0">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {review.low_fields.length} campo(s) incerto(s)
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        {FIELDS.map(({ field, label, placeholder }) => {
+                          const score = confidence[field]
+                          const source = sources[field] as FieldSource | undefined
+                          const low = review.low_fields.indexOf(field) !== -1
+
+                          return (
+                            <label key={field} className="block">
+                              <span className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+                                {label}
+                                {score !== undefined && (
+                                  <span
+                                    className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${confidenceStyle(score)}`}
+                                    title={source ? `Origem: ${SOURCE_LABELS[source] || source}` : undefined}
+                                  >
+                                    {Math.round(score * 100)}%{source ? ` · ${SOURCE_LABELS[source] || source}` : ''}
+                                  </span>
+                                )}
+                              </span>
+                              <input
+                                type="text"
+                                value={form?.[field] || ''}
+                                onChange={(e) => updateField(review.review_id, field, e.target.value)}
+                                placeholder={placeholder}
+                                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                                  low ? 'border-orange-300 bg-orange-50' : 'border-gray-300'
+                                }`}
+                              />
+                            </label>
+                          )
+                        })}
+                      </div>
+
+                      <div className="flex justify-end gap-2 mt-6">
+                        <button
+                          onClick={() => rejectReview(review)}
+                          disabled={busy}
+                          className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-700 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                        >
+                          <X className="h-4 w-4 mr-2" />
+                          Descartar
+                        </button>
+                        <button
+                          onClick={() => approveReview(review)}
+                          disabled={busy}
+                          className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                        >
+                          {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                          Aprovar e criar lead
+                        </button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
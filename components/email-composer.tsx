@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react'
 import { useAuth } from '@/lib/auth-context'
+import { formatEventDate, formatEventDateRange } from '@/lib/pt-br-dates'
 import { 
   X, 
   Mail, 
@@ -34,6 +35,10 @@ interface EmailComposerProps {
   eventData?: {
     name: string
     date?: string
+    startAt?: string
+    endAt?: string
+    timezone?: string
+    description?: string
     location?: string
   }
 }
@@ -80,6 +85,10 @@ export default function EmailComposer({
           organizerWebsite: organizerData.website,
           eventName: eventData?.name,
           eventDate: eventData?.date,
+          eventStartAt: eventData?.startAt,
+          eventEndAt: eventData?.endAt,
+          eventTimezone: eventData?.timezone,
+          eventDescription: eventData?.description,
           eventLocation: eventData?.location,
           contactName: selectedContact?.name,
           contactPosition: selectedContact?.position,
@@ -235,9 +244,11 @@ export default function EmailComposer({
                       <h3 className="font-semibold text-gray-900">Evento</h3>
                     </div>
                     <p className="font-medium text-gray-900">{eventData.name}</p>
-                    {eventData.date && (
+                    {(eventData.startAt || eventData.date) && (
                       <p className="text-sm text-gray-600">
-                        {new Date(eventData.date).toLocaleDateString('pt-BR')}
+                        {eventData.startAt
+                          ? formatEventDateRange(eventData.startAt, eventData.endAt, eventData.timezone, { withTime: true })
+                          : formatEventDate(null, eventData.date)}
                       </p>
                     )}
                     {eventData.location && (
@@ -0,0 +1,313 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import type { EventSnapshot, EventSnapshotSummary } from '@/lib/supabase'
+import {
+  X,
+  FileText,
+  Image as ImageIcon,
+  Code,
+  Globe,
+  Loader2,
+  RefreshCw,
+  AlertCircle
+} from 'lucide-react'
+
+interface SnapshotViewerProps {
+  isOpen: boolean
+  onClose: () => void
+  leadId: string | null
+  eventName?: string
+  // Called with the updated leads_complete row after a re-extraction
+  onReextracted?: (lead: any) => void
+}
+
+type SnapshotTab = 'screenshot' | 'page' | 'html'
+
+const VIA_LABELS: Record<EventSnapshot['via'], string> = {
+  fetch: 'Requisição HTTP',
+  browser: 'Navegador'
+}
+
+// Relative links, images and styles resolve against the original page; scripts never run
+function withBaseUrl(html: string, url: string): string {
+  const base = `<base href="${url.replace(/"/g, '&quot;')}">`
+  return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, match => match + base) : base + html
+}
+
+export default function SnapshotViewer({
+  isOpen,
+  onClose,
+  leadId,
+  eventName,
+  onReextracted
+}: SnapshotViewerProps) {
+  const { user } = useAuth()
+  const [snapshots, setSnapshots] = useState<EventSnapshotSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [snapshot, setSnapshot] = useState<EventSnapshot | null>(null)
+  const [tab, setTab] = useState<SnapshotTab>('page')
+  const [loading, setLoading] = useState(false)
+  const [loadingHtml, setLoadingHtml] = useState(false)
+  const [reextracting, setReextracting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const selected = snapshots.find(item => item.snapshot_id === selectedId) || null
+
+  const fetchSnapshots = async () => {
+    if (!user || !leadId) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/snapshots`, {
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao carregar páginas salvas')
+      }
+
+      const data = await response.json()
+      const items: EventSnapshotSummary[] = data.snapshots || []
+      setSnapshots(items)
+      setSelectedId(items[0]?.snapshot_id || null)
+      setTab(items[0]?.screenshot_url ? 'screenshot' : 'page')
+    } catch (error) {
+      console.error('Error fetching snapshots:', error)
+      setError('Erro ao carregar páginas salvas')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSnapshotHtml = async (snapshotId: string) => {
+    if (!user || !leadId) return
+
+    setLoadingHtml(true)
+    setSnapshot(null)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/snapshots/${snapshotId}`, {
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Erro ao carregar página')
+      }
+
+      const data = await response.json()
+      setSnapshot(data.snapshot)
+    } catch (error) {
+      console.error('Error fetching snapshot:', error)
+      setError('Erro ao carregar página')
+    } finally {
+      setLoadingHtml(false)
+    }
+  }
+
+  const reextract = async () => {
+    if (!user || !leadId) return
+
+    setReextracting(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/reextract`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user.id}`
+        }
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Erro ao reextrair')
+      }
+
+      setMessage('Dados do evento extraídos novamente da página salva.')
+      onReextracted?.(result.lead)
+    } catch (error) {
+      console.error('Error re-extracting lead:', error)
+      setError('Não foi possível extrair os dados da página salva')
+    } finally {
+      setReextracting(false)
+    }
+  }
+
+  const handleClose = () => {
+    setSnapshots([])
+    setSelectedId(null)
+    setSnapshot(null)
+    setError(null)
+    setMessage(null)
+    onClose()
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSnapshots()
+    }
+  }, [isOpen, leadId])
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchSnapshotHtml(selectedId)
+    }
+  }, [selectedId])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-600 to-blue-600 px-6 py-4 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <FileText className="h-6 w-6" />
+              <div>
+                <h2 className="text-xl font-semibold">Página salva</h2>
+                {eventName && (
+                  <p className="text-purple-100 text-sm line-clamp-1">{eventName}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={reextract}
+                disabled={reextracting || snapshots.length === 0}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Extrair os dados novamente desta página, sem baixá-la de novo"
+              >
+                {reextracting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Reextrair
+              </button>
+              <button
+                onClick={handleClose}
+                className="p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {message && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+              <span className="ml-3 text-gray-600">Carregando páginas salvas...</span>
+            </div>
+          ) : snapshots.length === 0 ? (
+            <div className="text-center py-12">
+              <FileText className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">Nenhuma página salva para este evento.</p>
+              <p className="text-sm text-gray-400 mt-1">Eventos importados antes do arquivo de páginas não têm cópia.</p>
+            </div>
+          ) : (
+            <>
+              {/* Snapshot picker */}
+              {snapshots.length > 1 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {snapshots.map(item => (
+                    <button
+                      key={item.snapshot_id}
+                      onClick={() => setSelectedId(item.snapshot_id)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors duration-200 ${
+                        item.snapshot_id === selectedId
+                          ? 'bg-purple-100 border-purple-300 text-purple-700'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {VIA_LABELS[item.via]} · {new Date(item.created_at).toLocaleString('pt-BR')}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {selected && (
+                <p className="text-xs text-gray-500 mb-4 flex items-center">
+                  <Globe className="h-3 w-3 mr-1" />
+                  {selected.url} · {VIA_LABELS[selected.via]} · salva em {new Date(selected.created_at).toLocaleString('pt-BR')}
+                </p>
+              )}
+
+              {/* Tabs */}
+              <div className="flex gap-2 mb-4 border-b border-gray-200">
+                {[
+                  { id: 'screenshot' as SnapshotTab, label: 'Captura de tela', icon: ImageIcon, disabled: !selected?.screenshot_url },
+                  { id: 'page' as SnapshotTab, label: 'Página', icon: FileText, disabled: false },
+                  { id: 'html' as SnapshotTab, label: 'HTML', icon: Code, disabled: false }
+                ].map(({ id, label, icon: Icon, disabled }) => (
+                  <button
+                    key={id}
+                    onClick={() => setTab(id)}
+                    disabled={disabled}
+                    className={`inline-flex items-center px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                      tab === id
+                        ? 'border-purple-600 text-purple-700'
+                        : 'border-transparent text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mr-1" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {tab === 'screenshot' && selected?.screenshot_url ? (
+                <img
+                  src={selected.screenshot_url}
+                  alt={`Captura de tela de ${selected.url}`}
+                  className="w-full rounded-lg border border-gray-200"
+                />
+              ) : loadingHtml || !snapshot ? (
+                <div className="flex justify-center items-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+                </div>
+              ) : tab === 'html' ? (
+                <pre className="text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-4 overflow-auto max-h-[60vh] whitespace-pre-wrap break-all">
+                  {snapshot.html}
+                </pre>
+              ) : (
+                <iframe
+                  title="Página salva"
+                  sandbox=""
+                  srcDoc={withBaseUrl(snapshot.html, snapshot.url)}
+                  className="w-full h-[60vh] rounded-lg border border-gray-200 bg-white"
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
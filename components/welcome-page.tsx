@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { useAuth } from '@/lib/auth-context'
-import { LogOut, Sparkles, Search, Eye, Building } from 'lucide-react'
+import { LogOut, Sparkles, Search, Eye, Building, BarChart3 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 
 export default function WelcomePage() {
@@ -25,6 +25,10 @@ export default function WelcomePage() {
     router.push('/organizers')
   }
 
+  const handleNavigateToLlmUsage = () => {
+    router.push('/llm-usage')
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
       <div className="container mx-auto px-4 py-8">
@@ -93,6 +97,14 @@ export default function WelcomePage() {
               <Building className="h-6 w-6 mr-3" />
               Organizadores
             </button>
+
+            <button
+              onClick={handleNavigateToLlmUsage}
+              className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-amber-500 to-orange-600 text-white text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl hover:from-amber-600 hover:to-orange-700 transform hover:scale-105 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
+            >
+              <BarChart3 className="h-6 w-6 mr-3" />
+              Uso do LLM
+            </button>
           </div>
         </div>
       </div>
@@ -0,0 +1,27 @@
+/**
+ * Run `task` over `items` with at most `limit` running at once.
+ * Results come back in the order of `items`, whatever order the tasks finish in.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index], index)
+    }
+  }
+
+  const lanes: Promise<void>[] = []
+  for (let i = 0; i < Math.min(Math.max(limit, 1), items.length); i++) {
+    lanes.push(lane())
+  }
+  await Promise.all(lanes)
+
+  return results
+}
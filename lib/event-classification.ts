@@ -0,0 +1,353 @@
+import { createClient } from '@supabase/supabase-js'
+import { generateJson, JsonSchema, LlmBudgetExceededError } from './llm'
+import { getLlmClientForUser } from './llm-settings'
+import {
+  classifyByKeywords,
+  EVENT_SEGMENTS,
+  EVENT_SEGMENT_DESCRIPTIONS,
+  EventSegment,
+  isEventSegment,
+  SegmentSource
+} from './event-segments'
+
+/**
+ * Event segment classification
+ * Events are classified by the keyword rules of event-segments.ts when they
+ * are saved; the ones the rules cannot place can be sent to the LLM from the
+ * leads page, once per event. Segments a person picked are kept. An
+ * organizer's segment follows the most common segment of its events until
+ * someone sets it by hand.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// LLM answers less sure than this leave the event unclassified
+const MIN_LLM_CONFIDENCE = 0.5
+
+// Events read per query; PostgREST caps a response at 1000 rows, and each
+// page's organizer IDs go into the URL of an `in` filter
+const PAGE_SIZE = 200
+
+export interface ClassifyOptions {
+  // Only these events; all of the user's otherwise
+  eventIds?: string[]
+  // Ask the LLM about events the keyword rules cannot place
+  useLlm?: boolean
+  // Keep segments already found (by keywords or the LLM)
+  onlyUnclassified?: boolean
+}
+
+export interface ClassifySummary {
+  keywords: number
+  llm: number
+  unclassified: number
+  // Set when the LLM budget ran out partway; later events were not sent
+  error: string | null
+}
+
+interface ClassifiableEvent {
+  event_id: string
+  organizer_id: string
+  nome_evento: string
+  description: string | null
+  categories: string[] | null
+  segment: EventSegment | null
+  segment_source: SegmentSource | null
+  segment_llm_attempted_at: string | null
+}
+
+/**
+ * Classify the user's events and update their organizers' segments
+ */
+export async function classifyEvents(
+  userId: string,
+  options: ClassifyOptions = {}
+): Promise<{ data: ClassifySummary | null; error: any }> {
+  const summary: ClassifySummary = { keywords: 0, llm: 0, unclassified: 0, error: null }
+  const state = { llmAvailable: Boolean(options.useLlm) }
+  let lastEventId: string | null = null
+
+  // Keyset pages: events classified along the way leave the `segment is null`
+  // filter, which would make offsets skip rows
+  while (true) {
+    let query = supabase
+      .from('event')
+      .select('event_id, organizer_id, nome_evento, description, categories, segment, segment_source, segment_llm_attempted_at')
+      .eq('user_id', userId)
+      .or('segment_source.is.null,segment_source.neq.manual')
+      .order('event_id', { ascending: true })
+      .limit(PAGE_SIZE)
+
+    if (options.eventIds) {
+      query = query.in('event_id', options.eventIds)
+    }
+    if (options.onlyUnclassified) {
+      query = query.is('segment', null)
+    }
+    if (lastEventId) {
+      query = query.gt('event_id', lastEventId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      return { data: null, error }
+    }
+
+    const events = (data || []) as ClassifiableEvent[]
+    if (events.length === 0) break
+
+    await classifyPage(userId, events, summary, state)
+    await updateOrganizerSegments(Array.from(new Set(events.map(event => event.organizer_id))))
+
+    if (events.length < PAGE_SIZE) break
+    lastEventId = events[events.length - 1].event_id
+  }
+
+  return { data: summary, error: null }
+}
+
+async function classifyPage(
+  userId: string,
+  events: ClassifiableEvent[],
+  summary: ClassifySummary,
+  state: { llmAvailable: boolean }
+) {
+  const organizerNames = await loadOrganizerNames(events.map(event => event.organizer_id))
+
+  for (const event of events) {
+    const input = {
+      name: event.nome_evento,
+      description: event.description,
+      organizer: organizerNames.get(event.organizer_id) || null,
+      categories: event.categories
+    }
+
+    let segment: EventSegment | null = classifyByKeywords(input)?.segment || null
+    let source: SegmentSource | null = segment ? 'keywords' : null
+    let llmAttemptedAt: string | null = null
+
+    // Events the LLM could not place are not sent again
+    if (!segment && state.llmAvailable && !event.segment_llm_attempted_at) {
+      try {
+        segment = await classifyWithLlm(userId, event.event_id, input)
+        source = segment ? 'llm' : null
+        llmAttemptedAt = segment ? null : new Date().toISOString()
+      } catch (llmError) {
+        if (!(llmError instanceof LlmBudgetExceededError)) throw llmError
+        summary.error = llmError.message
+        state.llmAvailable = false
+      }
+    }
+
+    if (!segment) {
+      summary.unclassified++
+      // An LLM segment is not dropped because a later keyword run finds nothing
+      if (llmAttemptedAt) {
+        await saveEventSegment(event.event_id, { segment_llm_attempted_at: llmAttemptedAt })
+      }
+      continue
+    }
+
+    summary[source as 'keywords' | 'llm']++
+    if (segment === event.segment && source === event.segment_source) continue
+
+    await saveEventSegment(event.event_id, { segment, segment_source: source })
+  }
+}
+
+async function saveEventSegment(eventId: string, columns: Record<string, any>) {
+  const { error } = await supabase
+    .from('event')
+    .update(columns)
+    .eq('event_id', eventId)
+
+  if (error) {
+    console.error(`Failed to save the segment of event ${eventId}:`, error)
+  }
+}
+
+/**
+ * Set an event's segment by hand; null hands it back to the classifier
+ */
+export async function setEventSegment(eventId: string, userId: string, segment: EventSegment | null): Promise<{ error: any }> {
+  const { data: event, error } = await supabase
+    .from('event')
+    // Cleared by hand: the LLM may try again
+    .update({ segment, segment_source: segment ? 'manual' : null, segment_llm_attempted_at: null })
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .select('organizer_id')
+    .single()
+
+  if (error) {
+    return { error }
+  }
+
+  if (!segment) {
+    await classifyEvents(userId, { eventIds: [eventId] })
+  } else {
+    await updateOrganizerSegments([event.organizer_id])
+  }
+
+  return { error: null }
+}
+
+/**
+ * Set an organizer's segment by hand; null makes it follow its events again
+ */
+export async function setOrganizerSegment(organizerId: string, userId: string, segment: EventSegment | null): Promise<{ error: any }> {
+  const { data, error } = await supabase
+    .from('organizer')
+    .update({ segment, segment_source: segment ? 'manual' : null })
+    .eq('organizer_id', organizerId)
+    .eq('user_id', userId)
+    .select('organizer_id')
+
+  if (error || !data || data.length === 0) {
+    return { error: error || 'Organizer not found' }
+  }
+
+  if (!segment) {
+    await updateOrganizerSegments([organizerId])
+  }
+
+  return { error: null }
+}
+
+// The most common segment of each organizer's events, for organizers nobody set by hand
+async function updateOrganizerSegments(organizerIds: string[]) {
+  if (organizerIds.length === 0) return
+
+  const { data: events, error } = await supabase
+    .from('event')
+    .select('organizer_id, segment')
+    .in('organizer_id', organizerIds)
+    .not('segment', 'is', null)
+
+  if (error) {
+    console.error('Error loading event segments for organizers:', error)
+    return
+  }
+
+  const counts = new Map<string, Map<EventSegment, number>>()
+  const rows = events || []
+  rows.forEach(event => {
+    const segments = counts.get(event.organizer_id) || new Map<EventSegment, number>()
+    segments.set(event.segment, (segments.get(event.segment) || 0) + 1)
+    counts.set(event.organizer_id, segments)
+  })
+
+  for (const organizerId of organizerIds) {
+    let segment: EventSegment | null = null
+    let best = 0
+    counts.get(organizerId)?.forEach((count, candidate) => {
+      // 'other' only wins when the organizer has nothing else
+      const score = candidate === 'other' ? count - 0.5 : count
+      if (score > best) {
+        best = score
+        segment = candidate
+      }
+    })
+
+    const { error: updateError } = await supabase
+      .from('organizer')
+      .update({ segment, segment_source: segment ? 'events' : null })
+      .eq('organizer_id', organizerId)
+      .or('segment_source.is.null,segment_source.neq.manual')
+
+    if (updateError) {
+      console.error(`Failed to update the segment of organizer ${organizerId}:`, updateError)
+    }
+  }
+}
+
+async function loadOrganizerNames(organizerIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  const ids = Array.from(new Set(organizerIds))
+  if (ids.length === 0) return names
+
+  const { data, error } = await supabase
+    .from('organizer')
+    .select('organizer_id, name')
+    .in('organizer_id', ids)
+
+  if (error) {
+    console.error('Error loading organizer names for classification:', error)
+  }
+
+  const organizers = data || []
+  organizers.forEach(organizer => names.set(organizer.organizer_id, organizer.name))
+  return names
+}
+
+// LLM
+
+const SEGMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    segment: { type: 'string', enum: [...EVENT_SEGMENTS], description: 'Industry segment of the event' },
+    confidence: { type: 'number', description: 'How sure you are of the segment, from 0 to 1' }
+  },
+  required: ['segment', 'confidence'],
+  additionalProperties: false
+}
+
+async function classifyWithLlm(
+  userId: string,
+  eventId: string,
+  input: { name: string; description: string | null; organizer: string | null; categories: string[] | null }
+): Promise<EventSegment | null> {
+  const llm = await getLlmClientForUser(userId, { purpose: 'classification', event_id: eventId })
+  const segments = EVENT_SEGMENTS.map(segment => `- ${segment}: ${EVENT_SEGMENT_DESCRIPTIONS[segment]}`).join('\n')
+
+  const prompt = `
+Classify this Brazilian event into the industry segment of its audience.
+
+Segments:
+${segments}
+
+Event name: ${input.name}
+Organizer: ${input.organizer || 'unknown'}
+Platform categories: ${(input.categories || []).join(', ') || 'none'}
+Description: ${(input.description || 'none').substring(0, 1500)}
+
+Pick the segment of the people attending, not of the venue: a medical congress held at a university is "health".
+Use "other" only when no segment fits. Return JSON with "segment" and "confidence" (0 to 1).
+`
+
+  const { data, error, attempts } = await generateJson<{ segment: string; confidence: number }>(llm, {
+    schemaName: 'event_segment',
+    schema: SEGMENT_SCHEMA,
+    system: 'You classify events by industry segment. Always return valid JSON with the requested fields.',
+    prompt,
+    validate: value => {
+      const problems: string[] = []
+      if (!isEventSegment(value?.segment)) {
+        problems.push(`"segment" must be one of: ${EVENT_SEGMENTS.join(', ')}`)
+      }
+      if (typeof value?.confidence !== 'number' || value.confidence < 0 || value.confidence > 1) {
+        problems.push('"confidence" must be a number from 0 to 1')
+      }
+      return problems
+    },
+    maxTokens: 100
+  })
+
+  if (!data) {
+    console.error(`Error classifying event ${eventId} after ${attempts} attempt(s):`, error)
+    return null
+  }
+
+  console.log(`LLM classification of event ${eventId} (${llm.provider}, ${llm.model}):`, data)
+  return data.confidence >= MIN_LLM_CONFIDENCE ? data.segment as EventSegment : null
+}
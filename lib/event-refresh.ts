@@ -0,0 +1,297 @@
+import { createClient } from '@supabase/supabase-js'
+import { resolveEventSource, extractEvent, isPlaceholderValue, ExtractedEvent } from './event-sources'
+import { detectEventStatus } from './event-sources/event-status'
+import { toEventDetailColumns } from './event-sources/event-details'
+import { parsePtBrDateRange } from './pt-br-dates'
+import { normalizeLocation, normalizeLocationKey, isLocationUnresolved } from './location'
+import { saveEventSnapshots } from './event-snapshots'
+import { getLlmClientForUser } from './llm-settings'
+import type { Event, EventChange, EventStatus } from './supabase'
+
+/**
+ * Scheduled event refresh
+ * Upcoming events are re-fetched every few days and compared with the stored
+ * row: name, date and location changes go to event_change, and the page's
+ * announced status (cancelled, postponed, sold out) or its disappearance is
+ * kept in event.status so leads for dead events stand out.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+const REFRESH_INTERVAL_MS = (Number(process.env.EVENT_REFRESH_INTERVAL_HOURS) || 72) * 60 * 60 * 1000
+
+// Pages that keep failing are left alone until someone looks at them
+const MAX_REFRESH_FAILURES = 5
+
+// A 404 or a redirect away can be an anti-bot or login page, so a page is
+// only taken as removed after this many checks in a row without the event;
+// any other outcome starts the count over
+const GONE_CHECKS_BEFORE_REMOVED = 3
+
+const BATCH_SIZE = 10
+
+// Statuses still worth checking; cancelled and removed events are final
+const REFRESHED_STATUSES: EventStatus[] = ['active', 'postponed', 'sold_out']
+
+// Only events with a page can be refreshed
+type TrackedEvent = Pick<Event,
+  'event_id' | 'user_id' | 'nome_evento' | 'data_evento' | 'local' | 'start_at' | 'end_at' | 'status' | 'refresh_failures' | 'gone_checks'
+> & { sympla_url: string }
+
+type FieldChange = Pick<EventChange, 'field' | 'old_value' | 'new_value'>
+
+export type RefreshOutcome = 'unchanged' | 'changed' | 'failed' | 'skipped'
+
+/**
+ * Refresh due events until the time budget runs out
+ */
+export async function runEventRefresh(options: { budgetMs: number }): Promise<{ refreshed: number; changed: number; failed: number }> {
+  const deadline = Date.now() + options.budgetMs
+  const counts = { refreshed: 0, changed: 0, failed: 0 }
+
+  while (Date.now() < deadline) {
+    const events = await findDueEvents(BATCH_SIZE)
+    if (events.length === 0) break
+
+    for (const event of events) {
+      if (Date.now() >= deadline) break
+
+      const outcome = await refreshEvent(event)
+      counts.refreshed++
+      if (outcome === 'changed') counts.changed++
+      if (outcome === 'failed') counts.failed++
+    }
+  }
+
+  return counts
+}
+
+// Upcoming (or undated) events not refreshed within the interval, oldest first
+async function findDueEvents(limit: number): Promise<TrackedEvent[]> {
+  const now = new Date().toISOString()
+  const cutoff = new Date(Date.now() - REFRESH_INTERVAL_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('event')
+    .select('event_id, user_id, sympla_url, nome_evento, data_evento, local, start_at, end_at, status, refresh_failures, gone_checks')
+    .in('status', REFRESHED_STATUSES)
+    .not('sympla_url', 'is', null)
+    .lt('refresh_failures', MAX_REFRESH_FAILURES)
+    .or(`last_refreshed_at.is.null,last_refreshed_at.lt.${cutoff}`)
+    .or(`start_at.is.null,start_at.gte.${now},end_at.gte.${now}`)
+    .order('last_refreshed_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching events to refresh:', error)
+    return []
+  }
+
+  return (data || []) as TrackedEvent[]
+}
+
+/**
+ * Re-fetch one event and record what changed
+ */
+export async function refreshEvent(event: TrackedEvent): Promise<RefreshOutcome> {
+  const now = new Date().toISOString()
+  const { adapter } = resolveEventSource(event.sympla_url)
+
+  if (!adapter) {
+    await updateEvent(event.event_id, { last_refreshed_at: now })
+    return 'skipped'
+  }
+
+  const { data, pages, gone } = await extractEvent(adapter, event.sympla_url, {
+    llm: await getLlmClientForUser(event.user_id, { purpose: 'refresh', event_id: event.event_id })
+  })
+
+  if (gone && event.gone_checks + 1 < GONE_CHECKS_BEFORE_REMOVED) {
+    await updateEvent(event.event_id, { last_refreshed_at: now, gone_checks: event.gone_checks + 1 })
+    return 'failed'
+  }
+
+  if (gone) {
+    const changes = diffStatus(event.status, 'removed')
+    await saveChanges(event, changes, { status: 'removed', last_refreshed_at: now, refresh_failures: 0, gone_checks: 0 })
+    return changes.length > 0 ? 'changed' : 'unchanged'
+  }
+
+  if (!data) {
+    await updateEvent(event.event_id, { last_refreshed_at: now, refresh_failures: event.refresh_failures + 1, gone_checks: 0 })
+    return 'failed'
+  }
+
+  const { changes, columns } = diffEvent(event, data)
+  const status = detectEventStatus(pages[pages.length - 1].html) || 'active'
+  changes.push(...diffStatus(event.status, status))
+
+  await saveChanges(event, changes, { ...columns, status, last_refreshed_at: now, refresh_failures: 0, gone_checks: 0 })
+
+  if (changes.length > 0) {
+    // Keep the page that showed the change next to the import snapshot
+    await saveEventSnapshots(event.event_id, event.user_id, pages)
+  }
+
+  return changes.length > 0 ? 'changed' : 'unchanged'
+}
+
+/**
+ * Compare a fresh extraction with the stored event. Values only the LLM
+ * produced are ignored: they vary between runs and would read as changes;
+ * so are fields the page no longer gives.
+ */
+function diffEvent(event: TrackedEvent, data: ExtractedEvent): { changes: FieldChange[]; columns: Record<string, any> } {
+  const sources = data.field_sources || {}
+  const changes: FieldChange[] = []
+  const columns: Record<string, any> = {}
+
+  if (sources.nome_evento !== 'llm' && !isPlaceholderValue(data.nome_evento) && normalizeText(data.nome_evento) !== normalizeText(event.nome_evento)) {
+    changes.push({ field: 'nome_evento', old_value: event.nome_evento, new_value: data.nome_evento })
+    columns.nome_evento = data.nome_evento
+  }
+
+  const dates = data.start_at
+    ? { start_at: data.start_at, end_at: data.end_at || null }
+    : sources.data_evento !== 'llm' ? parsePtBrDateRange(data.data_evento) : null
+
+  if (dates && event.start_at) {
+    if (!sameInstant(dates.start_at, event.start_at)) {
+      changes.push({ field: 'start_at', old_value: event.start_at, new_value: dates.start_at })
+    }
+    if (event.end_at && dates.end_at && !sameInstant(dates.end_at, event.end_at)) {
+      changes.push({ field: 'end_at', old_value: event.end_at, new_value: dates.end_at })
+    }
+  } else if (!event.start_at && sources.data_evento !== 'llm' && !isPlaceholderValue(data.data_evento) && normalizeText(data.data_evento) !== normalizeText(event.data_evento)) {
+    changes.push({ field: 'data_evento', old_value: event.data_evento, new_value: data.data_evento })
+  }
+
+  if (dates && (changes.some(change => change.field === 'start_at' || change.field === 'end_at') || !event.start_at)) {
+    // A date found for the first time is filled in without counting as a change
+    columns.start_at = dates.start_at
+    columns.end_at = dates.end_at
+    columns.date_parse_failed = false
+    columns.data_evento = data.data_evento
+  } else if (changes.some(change => change.field === 'data_evento')) {
+    columns.data_evento = data.data_evento
+  }
+
+  if (sources.local !== 'llm' && !isPlaceholderValue(data.local) && normalizeLocationKey(data.local) !== normalizeLocationKey(event.local)) {
+    changes.push({ field: 'local', old_value: event.local, new_value: data.local })
+    const location = normalizeLocation(data.local, data.address)
+    Object.assign(columns, location, {
+      local: data.local,
+      location_parse_failed: isLocationUnresolved(data.local, location)
+    })
+  }
+
+  // Prices and capacity move with ticket lots: kept current without counting as
+  // changes, and not cleared when a page stops showing them
+  const details: Record<string, any> = toEventDetailColumns(data)
+  Object.keys(details).forEach(column => {
+    const value = details[column]
+    if (value !== null && !(Array.isArray(value) && value.length === 0)) {
+      columns[column] = value
+    }
+  })
+
+  return { changes, columns }
+}
+
+function diffStatus(oldStatus: EventStatus, newStatus: EventStatus): FieldChange[] {
+  return oldStatus === newStatus ? [] : [{ field: 'status', old_value: oldStatus, new_value: newStatus }]
+}
+
+async function saveChanges(event: TrackedEvent, changes: FieldChange[], columns: Record<string, any>) {
+  if (changes.length > 0) {
+    const { error } = await supabase
+      .from('event_change')
+      .insert(changes.map(change => ({ ...change, event_id: event.event_id, user_id: event.user_id })))
+
+    if (error) {
+      console.error(`Failed to record changes for event ${event.event_id}:`, error)
+    }
+
+    columns.last_changed_at = columns.last_refreshed_at
+    console.log(`Event ${event.event_id} changed:`, changes.map(change => change.field).join(', '))
+  }
+
+  await updateEvent(event.event_id, columns)
+}
+
+async function updateEvent(eventId: string, columns: Record<string, any>) {
+  const { error } = await supabase.from('event').update(columns).eq('event_id', eventId)
+
+  if (error) {
+    console.error(`Failed to update refreshed event ${eventId}:`, error)
+  }
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+// LEAD-FACING HISTORY
+
+/**
+ * Change history of a lead's event, newest first
+ */
+export async function listLeadEventChanges(
+  leadId: string,
+  userId: string
+): Promise<{ data: EventChange[] | null; error: any }> {
+  const { data: lead, error: leadError } = await supabase
+    .from('leads')
+    .select('event_id')
+    .eq('id', leadId)
+    .eq('user_id', userId)
+    .single()
+
+  if (leadError || !lead) {
+    return { data: null, error: leadError || { message: 'Lead not found' } }
+  }
+
+  const { data, error } = await supabase
+    .from('event_change')
+    .select('*')
+    .eq('event_id', lead.event_id)
+    .order('detected_at', { ascending: false })
+
+  return { data: data as EventChange[] | null, error }
+}
+
+/**
+ * Acknowledge the changes of a lead's event so the badge goes away
+ */
+export async function markLeadEventChangesSeen(leadId: string, userId: string): Promise<{ error: any }> {
+  const { data: lead, error: leadError } = await supabase
+    .from('leads')
+    .select('event_id')
+    .eq('id', leadId)
+    .eq('user_id', userId)
+    .single()
+
+  if (leadError || !lead) {
+    return { error: leadError || { message: 'Lead not found' } }
+  }
+
+  const { error } = await supabase
+    .from('event')
+    .update({ changes_seen_at: new Date().toISOString() })
+    .eq('event_id', lead.event_id)
+
+  return { error }
+}
@@ -0,0 +1,208 @@
+/**
+ * Industry segments of events and organizers
+ * The pitch for a legal congress, a medical symposium and a tech conference
+ * differs, so events are sorted into a fixed taxonomy, stored in
+ * event.segment and organizer.segment. Keyword rules here place most events;
+ * lib/event-classification.ts asks the LLM about the rest. Client-safe: the
+ * leads and organizers pages show the labels and filter by segment.
+ */
+
+export const EVENT_SEGMENTS = [
+  'legal',
+  'health',
+  'tech',
+  'agribusiness',
+  'finance',
+  'education',
+  'corporate',
+  'marketing',
+  'engineering',
+  'public_sector',
+  'culture',
+  'other'
+] as const
+
+export type EventSegment = typeof EVENT_SEGMENTS[number]
+
+// 'manual' when a person picked it; manual segments are never overwritten
+export type SegmentSource = 'keywords' | 'llm' | 'manual'
+// Organizers take the most common segment of their events unless set by hand
+export type OrganizerSegmentSource = 'events' | 'manual'
+
+export const EVENT_SEGMENT_LABELS: Record<EventSegment, string> = {
+  legal: 'Jurídico',
+  health: 'Saúde',
+  tech: 'Tecnologia',
+  agribusiness: 'Agronegócio',
+  finance: 'Finanças',
+  education: 'Educação',
+  corporate: 'Corporativo',
+  marketing: 'Marketing e vendas',
+  engineering: 'Engenharia e indústria',
+  public_sector: 'Setor público',
+  culture: 'Cultura e entretenimento',
+  other: 'Outros'
+}
+
+// What each segment covers, for the LLM prompt
+export const EVENT_SEGMENT_DESCRIPTIONS: Record<EventSegment, string> = {
+  legal: 'law, courts, bar associations, legal practice',
+  health: 'medicine, dentistry, nursing, pharmacy, psychology, veterinary, hospitals',
+  tech: 'software, data, AI, startups, digital transformation, IT security',
+  agribusiness: 'agriculture, livestock, agronomy, rural producers',
+  finance: 'banking, investments, accounting, insurance, economics, taxes',
+  education: 'schools, universities, teachers, pedagogy, academic events',
+  corporate: 'leadership, management, HR, company conventions and awards, ESG',
+  marketing: 'marketing, sales, retail, e-commerce, communication, advertising',
+  engineering: 'engineering, industry, construction, architecture, energy, mining, logistics',
+  public_sector: 'government, municipalities, public administration, public servants',
+  culture: 'music, arts, festivals, gastronomy, fashion, entertainment',
+  other: 'none of the above'
+}
+
+/**
+ * Words (accents removed, lower case) that point to each segment. Words of
+ * up to three letters must match whole; longer ones match the start of a word,
+ * so "odontolog" covers "odontologia" and "odontológico".
+ */
+const SEGMENT_KEYWORDS: Record<Exclude<EventSegment, 'other'>, string[]> = {
+  legal: [
+    'direito', 'juridic', 'advocacia', 'advogad', 'oab', 'judiciario', 'magistratura', 'magistrad',
+    'processo civil', 'processo penal', 'processual', 'constitucional', 'lgpd', 'ministerio publico',
+    'defensoria', 'jurisprudencia', 'arbitragem', 'direito tributario', 'notarial', 'registral'
+  ],
+  health: [
+    'medicina', 'medic', 'saude', 'enfermagem', 'odontolog', 'cardiolog', 'oncolog', 'pediatri',
+    'hospital', 'clinic', 'farmac', 'fisioterap', 'nutricao', 'psicolog', 'psiquiatr', 'dermatolog',
+    'ortoped', 'anestesi', 'radiolog', 'ginecolog', 'obstetri', 'neurolog', 'veterinari', 'cirurgi',
+    'sus', 'biomedic', 'terapia intensiva'
+  ],
+  tech: [
+    'tecnologia', 'software', 'desenvolvedor', 'developer', 'dev', 'programacao', 'ciencia de dados',
+    'data science', 'inteligencia artificial', 'ia', 'ai', 'machine learning', 'cloud', 'devops',
+    'startup', 'ciberseguranca', 'seguranca da informacao', 'blockchain', 'javascript', 'python',
+    'hackathon', 'saas', 'transformacao digital', 'ux', 'tech', 'inovacao digital'
+  ],
+  agribusiness: [
+    'agro', 'agronegocio', 'agricultura', 'agricola', 'pecuaria', 'agropecuari', 'agronom', 'zootecn',
+    'soja', 'milho', 'cana de acucar', 'safra', 'irrigacao', 'rural', 'bovin', 'suinocultura',
+    'avicultura', 'cooperativa agricola', 'agrishow'
+  ],
+  finance: [
+    'financ', 'banco', 'bancari', 'investiment', 'investidor', 'mercado de capitais', 'contabil',
+    'contador', 'fintech', 'credito', 'seguro', 'previdencia', 'economia', 'tributacao', 'tributari',
+    'auditoria', 'controladoria', 'cfo', 'criptoativo', 'open finance'
+  ],
+  education: [
+    'educacao', 'educacional', 'ensino', 'escola', 'professor', 'pedagog', 'universidade',
+    'universitari', 'academic', 'docente', 'edtech', 'aprendizagem', 'alfabetizacao',
+    'educador', 'gestao escolar', 'iniciacao cientifica'
+  ],
+  corporate: [
+    'lideranca', 'rh', 'recursos humanos', 'gestao de pessoas', 'executiv', 'ceo',
+    'convencao', 'empresarial', 'negocios', 'governanca', 'compliance', 'esg', 'premiacao', 'kickoff',
+    'kick off', 'confraternizacao', 'endomarketing', 'franquia', 'empreendedor'
+  ],
+  marketing: [
+    'marketing', 'vendas', 'varejo', 'ecommerce', 'e commerce', 'comunicacao', 'publicidade',
+    'propaganda', 'branding', 'midia', 'social media', 'redes sociais', 'influenciador', 'growth',
+    'trade marketing', 'customer experience'
+  ],
+  engineering: [
+    'engenharia', 'engenheir', 'industria', 'industrial', 'construcao', 'arquitetura', 'energia',
+    'mineracao', 'petroleo', 'oleo e gas', 'logistica', 'automacao', 'manufatura', 'eletric',
+    'saneamento', 'infraestrutura', 'siderurg', 'quimica', 'metalurg'
+  ],
+  public_sector: [
+    'prefeitura', 'prefeit', 'governo', 'municipal', 'municipios', 'gestao publica', 'administracao publica',
+    'camara municipal', 'assembleia legislativa', 'servidor', 'servidores publicos', 'licitac',
+    'contratacoes publicas', 'tribunal de contas', 'controle externo', 'politicas publicas', 'vereador'
+  ],
+  culture: [
+    'show', 'festival', 'musica', 'musical', 'teatro', 'cinema', 'arte', 'exposicao', 'cultura',
+    'cultural', 'literatura', 'literari', 'danca', 'gastronom', 'moda', 'fotografia', 'carnaval'
+  ]
+}
+
+// Matches in the event name count the most, the description the least
+const FIELD_WEIGHTS = {
+  name: 3,
+  categories: 2,
+  organizer: 2,
+  description: 1
+}
+
+// Below this score, or when two segments tie, the rules do not decide
+const MIN_KEYWORD_SCORE = 3
+
+export interface SegmentInput {
+  name: string | null
+  description?: string | null
+  organizer?: string | null
+  // Platform categories (see lib/event-sources/event-details.ts)
+  categories?: string[] | null
+}
+
+export interface KeywordClassification {
+  segment: EventSegment
+  score: number
+  // The words that matched, for logs
+  keywords: string[]
+}
+
+export function isEventSegment(value: unknown): value is EventSegment {
+  return typeof value === 'string' && (EVENT_SEGMENTS as readonly string[]).indexOf(value) !== -1
+}
+
+// "Simpósio de Cardiologia" -> " simposio de cardiologia "
+function normalizeText(text: string | null | undefined): string {
+  const normalized = (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+  return ` ${normalized} `
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+  return text.indexOf(keyword.length <= 3 ? ` ${keyword} ` : ` ${keyword}`) !== -1
+}
+
+/**
+ * Segment the keyword rules point to, or null when nothing matches clearly
+ * enough (few matches, or a tie between segments)
+ */
+export function classifyByKeywords(input: SegmentInput): KeywordClassification | null {
+  const fields: Array<{ text: string; weight: number }> = [
+    { text: normalizeText(input.name), weight: FIELD_WEIGHTS.name },
+    { text: normalizeText((input.categories || []).join(' | ')), weight: FIELD_WEIGHTS.categories },
+    { text: normalizeText(input.organizer), weight: FIELD_WEIGHTS.organizer },
+    // Long descriptions mention everything; the opening says what the event is about
+    { text: normalizeText((input.description || '').slice(0, 1000)), weight: FIELD_WEIGHTS.description }
+  ]
+
+  const results: KeywordClassification[] = (Object.keys(SEGMENT_KEYWORDS) as Array<keyof typeof SEGMENT_KEYWORDS>).map(segment => {
+    let score = 0
+    const keywords: string[] = []
+
+    SEGMENT_KEYWORDS[segment].forEach(keyword => {
+      const weight = fields.reduce((sum, field) => sum + (containsKeyword(field.text, keyword) ? field.weight : 0), 0)
+      if (weight > 0) {
+        score += weight
+        keywords.push(keyword)
+      }
+    })
+
+    return { segment, score, keywords }
+  })
+
+  results.sort((a, b) => b.score - a.score)
+  const [best, runnerUp] = results
+
+  if (best.score < MIN_KEYWORD_SCORE || best.score === runnerUp.score) {
+    return null
+  }
+
+  return best
+}
@@ -0,0 +1,125 @@
+import { createClient } from '@supabase/supabase-js'
+import type { EventSnapshot, EventSnapshotSummary } from './supabase'
+import type { FetchedPage } from './event-sources'
+
+/**
+ * Event snapshot archive
+ * Keeps every page downloaded while importing an event (HTML in
+ * event_snapshot, browser screenshots in the event-snapshots bucket) so wrong
+ * extractions can be inspected and re-run without refetching.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+const SCREENSHOT_BUCKET = 'event-snapshots'
+
+// Signed screenshot links only need to outlive the viewer being open
+const SCREENSHOT_URL_TTL_SECONDS = 60 * 60
+
+/**
+ * Store the pages fetched for an event. Failures are logged, never thrown:
+ * a missing snapshot must not fail the import.
+ */
+export async function saveEventSnapshots(eventId: string, userId: string, pages: FetchedPage[]) {
+  for (let index = 0; index < pages.length; index++) {
+    const page = pages[index]
+    let screenshotPath: string | null = null
+
+    if (page.screenshot) {
+      const path = `${userId}/${eventId}/${Date.now()}-${index}.jpg`
+      const { error } = await supabase.storage
+        .from(SCREENSHOT_BUCKET)
+        .upload(path, page.screenshot, { contentType: 'image/jpeg' })
+
+      if (error) {
+        console.error(`Failed to upload screenshot for event ${eventId}:`, error)
+      } else {
+        screenshotPath = path
+      }
+    }
+
+    const { error } = await supabase
+      .from('event_snapshot')
+      .insert({
+        event_id: eventId,
+        user_id: userId,
+        url: page.url,
+        via: page.via,
+        html: page.html,
+        screenshot_path: screenshotPath
+      })
+
+    if (error) {
+      console.error(`Failed to save ${page.via} snapshot for event ${eventId}:`, error)
+    }
+  }
+}
+
+/**
+ * Snapshots of an event, newest first, without their HTML
+ */
+export async function listEventSnapshots(
+  eventId: string,
+  userId: string
+): Promise<{ data: EventSnapshotSummary[] | null; error: any }> {
+  const { data: snapshots, error } = await supabase
+    .from('event_snapshot')
+    .select('snapshot_id, event_id, user_id, url, via, screenshot_path, created_at')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  const summaries = await Promise.all((snapshots || []).map(async snapshot => {
+    let screenshot_url: string | null = null
+
+    if (snapshot.screenshot_path) {
+      const { data } = await supabase.storage
+        .from(SCREENSHOT_BUCKET)
+        .createSignedUrl(snapshot.screenshot_path, SCREENSHOT_URL_TTL_SECONDS)
+      screenshot_url = data?.signedUrl || null
+    }
+
+    return { ...snapshot, screenshot_url } as EventSnapshotSummary
+  }))
+
+  return { data: summaries, error: null }
+}
+
+/**
+ * One snapshot with its HTML; the latest of the event when no ID is given
+ */
+export async function getEventSnapshot(
+  eventId: string,
+  userId: string,
+  snapshotId?: string
+): Promise<{ data: EventSnapshot | null; error: any }> {
+  let query = supabase
+    .from('event_snapshot')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+
+  if (snapshotId) {
+    query = query.eq('snapshot_id', snapshotId)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return { data: data as EventSnapshot | null, error }
+}
@@ -0,0 +1,202 @@
+import { chromium, Browser, BrowserContext, Page } from 'playwright'
+import { PROXY_URL } from './polite-fetch'
+
+/**
+ * Shared headless Chromium for the browser fallback.
+ * One browser process is launched on first use and reused by every URL and
+ * ingestion job in this server process; each render gets its own context
+ * (separate cookies and storage), and at most BROWSER_POOL_MAX_CONTEXTS are
+ * open at once. The browser closes after sitting idle and is recycled after a
+ * number of pages to keep memory in check. Signals are left to the host
+ * runtime; Playwright closes the browser when the process exits.
+ */
+
+const MAX_CONTEXTS = Number(process.env.BROWSER_POOL_MAX_CONTEXTS) || 2
+const IDLE_SHUTDOWN_MS = Number(process.env.BROWSER_POOL_IDLE_MS) || 60000
+// Chromium grows over time; a fresh process every so often keeps it bounded
+const RECYCLE_AFTER_PAGES = 50
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-blink-features=AutomationControlled',
+  '--disable-web-security',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-dev-shm-usage',
+  '--no-first-run',
+  '--no-default-browser-check',
+  '--disable-gpu',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding'
+]
+
+export interface BrowserContextOptions {
+  userAgent: string
+  locale: string
+  extraHTTPHeaders?: Record<string, string>
+}
+
+// A page on loan from the pool, with how long it took to get one
+export interface BrowserPageLease {
+  page: Page
+  queued_ms: number
+  launch_ms: number
+}
+
+export interface BrowserPoolStats {
+  running: boolean
+  active_contexts: number
+  queued: number
+  pages_served: number
+}
+
+let browserPromise: Promise<Browser> | null = null
+let activeContexts = 0
+let pagesServed = 0
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+const waiters: Array<() => void> = []
+
+/**
+ * Run `task` with a fresh page in a pooled browser context. Waits for a free
+ * context when the pool is full; the context is closed afterwards whatever
+ * the outcome.
+ */
+export async function withBrowserPage<T>(
+  options: BrowserContextOptions,
+  task: (lease: BrowserPageLease) => Promise<T>
+): Promise<T> {
+  const queuedAt = Date.now()
+  await acquireSlot()
+  const queued_ms = Date.now() - queuedAt
+
+  let context: BrowserContext | null = null
+
+  try {
+    const launchStarted = Date.now()
+    const browser = await getBrowser()
+    const launch_ms = Date.now() - launchStarted
+
+    context = await browser.newContext({
+      userAgent: options.userAgent,
+      locale: options.locale,
+      viewport: { width: 1920, height: 1080 },
+      extraHTTPHeaders: options.extraHTTPHeaders
+    })
+
+    // Fonts and media never matter for extraction; images stay for the screenshot
+    await context.route('**/*', route => {
+      const type = route.request().resourceType()
+      return type === 'font' || type === 'media' ? route.abort() : route.continue()
+    })
+
+    const page = await context.newPage()
+    pagesServed++
+
+    return await task({ page, queued_ms, launch_ms })
+  } finally {
+    if (context) {
+      await context.close().catch(error => console.warn('[BrowserPool] Failed to close context:', error))
+    }
+    releaseSlot()
+  }
+}
+
+export function getBrowserPoolStats(): BrowserPoolStats {
+  return {
+    running: browserPromise !== null,
+    active_contexts: activeContexts,
+    queued: waiters.length,
+    pages_served: pagesServed
+  }
+}
+
+function acquireSlot(): Promise<void> {
+  clearIdleTimer()
+
+  if (activeContexts < MAX_CONTEXTS) {
+    activeContexts++
+    return Promise.resolve()
+  }
+
+  // The releasing task hands its slot over, so the count stays the same
+  return new Promise(resolve => waiters.push(resolve))
+}
+
+function releaseSlot() {
+  const next = waiters.shift()
+  if (next) {
+    next()
+    return
+  }
+
+  activeContexts--
+  if (activeContexts > 0) return
+
+  if (pagesServed >= RECYCLE_AFTER_PAGES) {
+    console.log(`[BrowserPool] Recycling browser after ${pagesServed} pages`)
+    void closeBrowser()
+  } else {
+    idleTimer = setTimeout(() => {
+      console.log('[BrowserPool] Closing idle browser')
+      void closeBrowser()
+    }, IDLE_SHUTDOWN_MS)
+    // An idle browser must not keep scripts alive
+    idleTimer.unref?.()
+  }
+}
+
+function clearIdleTimer() {
+  if (idleTimer) {
+    clearTimeout(idleTimer)
+    idleTimer = null
+  }
+}
+
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    console.log('[BrowserPool] Launching browser')
+
+    const launching = chromium.launch({ headless: true, args: LAUNCH_ARGS, proxy: getProxySettings() }).then(browser => {
+      browser.on('disconnected', () => {
+        if (browserPromise === launching) browserPromise = null
+      })
+      return browser
+    })
+
+    // A failed launch is retried by the next request
+    launching.catch(() => {
+      if (browserPromise === launching) browserPromise = null
+    })
+
+    browserPromise = launching
+    pagesServed = 0
+  }
+
+  return browserPromise
+}
+
+// SCRAPER_PROXY_URL in the form Playwright expects, credentials apart
+function getProxySettings() {
+  if (!PROXY_URL) return undefined
+
+  const proxy = new URL(PROXY_URL)
+  return {
+    server: `${proxy.protocol}//${proxy.host}`,
+    username: proxy.username ? decodeURIComponent(proxy.username) : undefined,
+    password: proxy.password ? decodeURIComponent(proxy.password) : undefined
+  }
+}
+
+async function closeBrowser() {
+  const current = browserPromise
+  browserPromise = null
+  if (!current) return
+
+  try {
+    const browser = await current
+    await browser.close()
+  } catch (error) {
+    console.warn('[BrowserPool] Failed to close browser:', error)
+  }
+}
@@ -0,0 +1,37 @@
+import { parseStructuredEvent, toExtractedEvent } from './structured-data'
+import type { EventSourceAdapter } from './types'
+
+// First path segments that are Doity site pages rather than events
+const RESERVED_PATHS = new Set([
+  'eventos', 'blog', 'login', 'cadastro', 'painel', 'ajuda', 'organizadores',
+  'precos', 'planos', 'contato', 'sobre', 'termos', 'privacidade', 'certificados', 'carrinho'
+])
+
+/**
+ * Doity event pages (doity.com.br/<slug>), used by many medical and
+ * legal congresses; the institution is shown under "Organizador" or "Realização".
+ */
+export const doityAdapter: EventSourceAdapter = {
+  id: 'doity',
+  name: 'Doity',
+
+  matches(url) {
+    if (!/(^|\.)doity\.com\.br$/.test(url.hostname)) return false
+    const slug = url.pathname.split('/').filter(Boolean)[0]
+    return !!slug && !RESERVED_PATHS.has(slug.toLowerCase())
+  },
+
+  async extract(page) {
+    const result = parseStructuredEvent(page.html, {
+      organizerHeadings: ['organizador', 'organizadores', 'organização', 'organizacao', 'realização', 'realizacao', 'sobre o organizador'],
+      titleSuffix: /\s*[-|]\s*Doity.*$/i
+    })
+    console.log(`[Doity] Parsed ${page.url}:`, { sources: result.sources, missing: result.missing })
+
+    return toExtractedEvent(result)
+  },
+
+  browserFallback: {
+    waitForSelector: 'h1'
+  }
+}
@@ -0,0 +1,38 @@
+import { parseStructuredEvent, toExtractedEvent } from './structured-data'
+import type { EventSourceAdapter } from './types'
+
+// First path segments that are Even3 site pages rather than events
+const RESERVED_PATHS = new Set([
+  'anais', 'eventos', 'event', 'home', 'blog', 'login', 'cadastro', 'ajuda',
+  'organizador', 'organizadores', 'precos', 'planos', 'contato', 'sobre', 'termos', 'privacidade'
+])
+
+/**
+ * Even3 congress pages (even3.com.br/<slug>, plus subpages such as /inscricao).
+ * Academic and medical congresses list the organizing institution under
+ * "Realização" or "Organização".
+ */
+export const even3Adapter: EventSourceAdapter = {
+  id: 'even3',
+  name: 'Even3',
+
+  matches(url) {
+    if (!/(^|\.)even3\.com(\.br)?$/.test(url.hostname)) return false
+    const slug = url.pathname.split('/').filter(Boolean)[0]
+    return !!slug && !RESERVED_PATHS.has(slug.toLowerCase())
+  },
+
+  async extract(page) {
+    const result = parseStructuredEvent(page.html, {
+      organizerHeadings: ['realização', 'realizacao', 'organização', 'organizacao', 'organizador', 'organizadores', 'promoção'],
+      titleSuffix: /\s*[-|]\s*Even3.*$/i
+    })
+    console.log(`[Even3] Parsed ${page.url}:`, { sources: result.sources, missing: result.missing })
+
+    return toExtractedEvent(result)
+  },
+
+  browserFallback: {
+    waitForSelector: 'h1'
+  }
+}
@@ -0,0 +1,327 @@
+import * as cheerio from 'cheerio'
+import { extractName, findJsonLdEvent, findNextDataEvent } from './structured-data'
+
+/**
+ * Size and shape of an event, for judging whether it needs a professional host.
+ * Ticket tiers and prices come from schema.org offers or the platform's page
+ * props; capacity, format and categories the same way; attendance hints
+ * ("mais de 800 participantes") only from the page text. Read for every
+ * platform after the adapter's own extraction (see extractEvent in index.ts).
+ */
+
+export type EventFormat = 'in_person' | 'online' | 'hybrid'
+
+export interface TicketTier {
+  name: string | null
+  // 0 for free tickets, null when the page lists the tier without a price
+  price: number | null
+  currency: string | null
+  sold_out: boolean
+}
+
+export interface EventDetails {
+  ticket_tiers?: TicketTier[]
+  // Cheapest and dearest ticket, from the tiers or an AggregateOffer range
+  price_min?: number
+  price_max?: number
+  price_currency?: string
+  // Stated limit of attendees
+  capacity?: number
+  // How big the page says the audience is, as written ("mais de 800 participantes")
+  attendance_hint?: string
+  format?: EventFormat
+  // Platform categories and tags, as the platform names them
+  categories?: string[]
+}
+
+const MAX_TIERS = 20
+const MAX_CATEGORIES = 10
+
+// "mais de 1.200 participantes", "500+ inscritos", "300 vagas"
+const ATTENDANCE_TEXT = /\b((?:mais de|cerca de|até|aproximadamente|over|up to)\s+)?(\d{1,3}(?:[.,]\d{3})*|\d+)\s*(\+\s*)?(participantes|pessoas|inscritos|congressistas|visitantes|profissionais|vagas|lugares|attendees|people going|going)\b/i
+// Wording that states a limit rather than an audience
+const CAPACITY_WORDS = /^(vagas|lugares)$/i
+const CAPACITY_TEXT = /\bcapacidade (?:para|de) (\d{1,3}(?:\.\d{3})*|\d+)/i
+const HYBRID_TEXT = /\b(evento h[ií]brido|formato h[ií]brido|presencial e online|online e presencial)\b/i
+const ONLINE_TEXT = /\b(evento online|evento 100% online|evento virtual|online event)\b/i
+
+/**
+ * Details a page exposes; fields it does not give are left out
+ */
+export function extractEventDetails(html: string): EventDetails {
+  const $ = cheerio.load(html)
+  const jsonLd = findJsonLdEvent($)
+  const nextEvent = findNextDataEvent($)
+  const details: EventDetails = {}
+
+  const tiers = [...readOffers(jsonLd?.offers), ...readTicketTypes(nextEvent)]
+  if (tiers.length > 0) {
+    details.ticket_tiers = dedupeTiers(tiers).slice(0, MAX_TIERS)
+  }
+  Object.assign(details, priceRange(details.ticket_tiers || [], jsonLd, nextEvent))
+
+  details.format = formatFromJsonLd(jsonLd) || formatFromNextData(nextEvent)
+
+  const capacity = toCount(jsonLd?.maximumAttendeeCapacity) ||
+    toCount(nextEvent?.capacity ?? nextEvent?.max_capacity ?? nextEvent?.maximumAttendeeCapacity ?? nextEvent?.rsvp_limit)
+  if (capacity) details.capacity = capacity
+
+  const categories = readCategories(jsonLd, nextEvent)
+  if (categories.length > 0) details.categories = categories
+
+  const text = pageText($)
+  details.format = details.format || (HYBRID_TEXT.test(text) ? 'hybrid' : ONLINE_TEXT.test(text) ? 'online' : undefined)
+
+  const attendance = text.match(ATTENDANCE_TEXT)
+  if (attendance) {
+    const count = parseCount(attendance[2])
+    if (count && count >= 10) {
+      details.attendance_hint = attendance[0].trim()
+      if (!details.capacity && CAPACITY_WORDS.test(attendance[4])) {
+        details.capacity = count
+      }
+    }
+  }
+
+  if (!details.capacity) {
+    const stated = text.match(CAPACITY_TEXT)
+    const count = stated ? parseCount(stated[1]) : null
+    if (count) details.capacity = count
+  }
+
+  // Platforms that show how many people signed up (Meetup, Luma)
+  if (!details.attendance_hint) {
+    const going = toCount(nextEvent?.going?.totalCount ?? nextEvent?.rsvpCount ?? nextEvent?.guest_count)
+    if (going && going >= 10) details.attendance_hint = `${going} inscritos`
+  }
+
+  Object.keys(details).forEach(key => {
+    if (details[key as keyof EventDetails] === undefined) delete details[key as keyof EventDetails]
+  })
+  return details
+}
+
+/**
+ * Columns of the event table for the details; fields the page did not give are cleared
+ */
+export function toEventDetailColumns(details: EventDetails) {
+  return {
+    ticket_tiers: details.ticket_tiers || [],
+    price_min: details.price_min ?? null,
+    price_max: details.price_max ?? null,
+    price_currency: details.price_currency || null,
+    capacity: details.capacity ?? null,
+    attendance_hint: details.attendance_hint || null,
+    format: details.format || null,
+    categories: details.categories || []
+  }
+}
+
+// TICKETS
+
+// schema.org Offer / AggregateOffer, alone or in a list
+function readOffers(offers: any): TicketTier[] {
+  const tiers: TicketTier[] = []
+  const collect = (offer: any) => {
+    if (!offer) return
+    if (Array.isArray(offer)) return offer.forEach(collect)
+    if (offer.offers) return collect(offer.offers)
+    if (offer.price === undefined && !offer.name) return
+
+    tiers.push({
+      name: textValue(offer.name),
+      price: parsePrice(offer.price),
+      currency: textValue(offer.priceCurrency),
+      sold_out: /SoldOut$/.test(String(offer.availability || ''))
+    })
+  }
+  collect(offers)
+  return tiers
+}
+
+// Ticket lists in Next.js page props: Sympla and Eventbrite ticket classes, Luma ticket types
+function readTicketTypes(event: any): TicketTier[] {
+  if (!event) return []
+  const list = event.tickets || event.ticket_types || event.ticketTypes || event.ticket_classes || event.ticketClasses
+  if (!Array.isArray(list)) return []
+
+  return list
+    .filter(ticket => ticket && typeof ticket === 'object')
+    .map(ticket => {
+      const cost = ticket.cost ?? ticket.price ?? ticket.value ?? ticket.amount
+      const cents = typeof ticket.cents === 'number' ? ticket.cents / 100 : null
+      const free = ticket.free === true || ticket.is_free === true
+
+      return {
+        name: textValue(ticket.name || ticket.title || ticket.display_name),
+        price: free ? 0 : cents ?? parsePrice(typeof cost === 'object' && cost ? cost.major_value ?? cost.value ?? cost.display : cost),
+        currency: textValue(ticket.currency || (typeof cost === 'object' && cost ? cost.currency : undefined)),
+        sold_out: ticket.sold_out === true || ticket.soldOut === true || ticket.is_sold_out === true
+      }
+    })
+}
+
+// JSON-LD and page props often list the same tickets
+function dedupeTiers(tiers: TicketTier[]): TicketTier[] {
+  const seen = new Set<string>()
+  return tiers.filter(tier => {
+    const key = `${(tier.name || '').toLowerCase()}|${tier.price}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function priceRange(tiers: TicketTier[], jsonLd: any, nextEvent: any): Pick<EventDetails, 'price_min' | 'price_max' | 'price_currency'> {
+  const priced = tiers.filter(tier => tier.price !== null)
+  const currency = priced.find(tier => tier.currency)?.currency || undefined
+
+  if (priced.length > 0) {
+    const prices = priced.map(tier => tier.price as number)
+    return { price_min: Math.min(...prices), price_max: Math.max(...prices), price_currency: currency }
+  }
+
+  const aggregate = findAggregateOffer(jsonLd?.offers)
+  const low = parsePrice(aggregate?.lowPrice ?? nextEvent?.min_price ?? nextEvent?.lowest_price)
+  const high = parsePrice(aggregate?.highPrice ?? nextEvent?.max_price ?? nextEvent?.highest_price)
+  if (low !== null || high !== null) {
+    return {
+      price_min: low ?? (high as number),
+      price_max: high ?? (low as number),
+      price_currency: textValue(aggregate?.priceCurrency || nextEvent?.currency) || undefined
+    }
+  }
+
+  if (jsonLd?.isAccessibleForFree === true || nextEvent?.is_free === true) {
+    return { price_min: 0, price_max: 0 }
+  }
+
+  return {}
+}
+
+function findAggregateOffer(offers: any): any {
+  if (!offers) return null
+  if (Array.isArray(offers)) return offers.map(findAggregateOffer).find(Boolean) || null
+  return offers.lowPrice !== undefined || offers.highPrice !== undefined ? offers : null
+}
+
+// "R$ 1.250,00", "R$ 1.250", "1250.00", 1250 or "Gratuito"
+function parsePrice(value: any): number | null {
+  if (typeof value === 'number') return isFinite(value) && value >= 0 ? value : null
+  if (typeof value !== 'string') return null
+  if (/^\s*(gr[aá]tis|gratuito|free)\s*$/i.test(value)) return 0
+
+  let digits = value.replace(/[^\d.,]/g, '')
+  if (!digits) return null
+  // Comma before the last two digits is the pt-BR decimal separator; without
+  // one, dots before groups of three digits are pt-BR thousands ("1.250")
+  if (/,\d{1,2}$/.test(digits)) {
+    digits = digits.replace(/\./g, '').replace(',', '.')
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(digits)) {
+    digits = digits.replace(/\./g, '')
+  } else {
+    digits = digits.replace(/,/g, '')
+  }
+
+  const price = parseFloat(digits)
+  return isNaN(price) ? null : Math.round(price * 100) / 100
+}
+
+// FORMAT
+
+function formatFromJsonLd(event: any): EventFormat | undefined {
+  if (!event) return undefined
+
+  const mode = String(event.eventAttendanceMode || '')
+  if (/MixedEventAttendanceMode$/.test(mode)) return 'hybrid'
+  if (/OnlineEventAttendanceMode$/.test(mode)) return 'online'
+  if (/OfflineEventAttendanceMode$/.test(mode)) return 'in_person'
+
+  const locations: any[] = event.location ? (Array.isArray(event.location) ? event.location : [event.location]) : []
+  const virtual = locations.some(location => location?.['@type'] === 'VirtualLocation')
+  const physical = locations.some(location => location && (typeof location === 'string' || location['@type'] !== 'VirtualLocation'))
+  if (virtual && physical) return 'hybrid'
+  if (virtual) return 'online'
+  if (physical) return 'in_person'
+  return undefined
+}
+
+function formatFromNextData(event: any): EventFormat | undefined {
+  if (!event) return undefined
+
+  const type = String(event.eventType || event.event_type || event.location_type || event.format || '').toLowerCase()
+  if (/hybrid|h[ií]brido/.test(type)) return 'hybrid'
+  if (/online|virtual|zoom|meet/.test(type)) return 'online'
+  if (/physical|offline|presencial|in_person/.test(type)) return 'in_person'
+
+  if (event.is_online_event === true || event.online_event === true || event.is_online === true || event.isOnline === true) return 'online'
+  if (event.is_online_event === false || event.online_event === false || event.is_online === false) return 'in_person'
+  return undefined
+}
+
+// CATEGORIES
+
+function readCategories(jsonLd: any, nextEvent: any): string[] {
+  const names: string[] = []
+  const collect = (value: any) => {
+    if (!value) return
+    if (Array.isArray(value)) return value.forEach(collect)
+    if (typeof value === 'string') {
+      value.split(',').forEach(part => names.push(part))
+      return
+    }
+    const name = extractName(value) || value.display_name || value.label || value.text
+    if (typeof name === 'string') names.push(name)
+  }
+
+  if (jsonLd) {
+    collect(jsonLd.keywords)
+    collect(jsonLd.about)
+  }
+  if (nextEvent) {
+    collect(nextEvent.category || nextEvent.category_prim)
+    collect(nextEvent.subcategory || nextEvent.category_sec)
+    collect(nextEvent.categories)
+    collect(nextEvent.tags)
+    collect(nextEvent.topics)
+  }
+
+  const seen = new Set<string>()
+  return names
+    .map(name => name.replace(/\s+/g, ' ').trim())
+    .filter(name => {
+      const key = name.toLowerCase()
+      if (!name || name.length > 60 || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, MAX_CATEGORIES)
+}
+
+// HELPERS
+
+// Text nodes joined with spaces, as in event-status.ts
+function pageText($: cheerio.CheerioAPI): string {
+  $('script, style, noscript').remove()
+  return $('body').find('*').addBack().contents()
+    .filter((_, node) => node.type === 'text')
+    .map((_, node) => $(node).text())
+    .get()
+    .join(' ')
+    .replace(/\s+/g, ' ')
+}
+
+// "1.200" -> 1200
+function parseCount(value: string): number | null {
+  const count = parseInt(value.replace(/[.,]/g, ''), 10)
+  return isNaN(count) || count <= 0 ? null : count
+}
+
+function toCount(value: any): number | null {
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : null
+  return typeof value === 'string' ? parseCount(value) : null
+}
+
+function textValue(value: any): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
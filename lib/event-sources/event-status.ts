@@ -0,0 +1,62 @@
+import * as cheerio from 'cheerio'
+import { findJsonLdEvent, findNextDataEvent } from './structured-data'
+
+/**
+ * Event status detection for the refresh job.
+ * Platforms keep cancelled and sold-out event pages online; schema.org data
+ * says so in eventStatus and offer availability, and the page text says it
+ * in a banner when there is no structured data.
+ */
+
+// 'removed' is set by the refresh job when the page itself is gone
+export type EventStatus = 'active' | 'postponed' | 'cancelled' | 'sold_out' | 'removed'
+
+const CANCELLED_TEXT = /\b(este evento foi cancelado|evento cancelado|event (has been |was )?cancell?ed)\b/i
+const POSTPONED_TEXT = /\b(este evento foi adiado|evento adiado|event (has been |was )?postponed)\b/i
+// Whole-event wording only: a single sold-out ticket tier ("1º lote esgotado") is normal
+const SOLD_OUT_TEXT = /\b(ingressos esgotados|evento esgotado|event is sold out)\b/i
+
+/**
+ * Status an event page announces, or null when it reads as a regular event
+ */
+export function detectEventStatus(html: string): EventStatus | null {
+  const $ = cheerio.load(html)
+
+  const jsonLd = findJsonLdEvent($)
+  const schemaStatus = String(jsonLd?.eventStatus || '')
+  if (/EventCancelled$/.test(schemaStatus)) return 'cancelled'
+  if (/EventPostponed$/.test(schemaStatus)) return 'postponed'
+
+  const nextEvent = findNextDataEvent($)
+  const nextStatus = String(nextEvent?.status || nextEvent?.event_status || '').toLowerCase()
+  if (nextEvent?.is_canceled || nextEvent?.cancelled || /^cancel/.test(nextStatus)) return 'cancelled'
+
+  // Text nodes joined with spaces: .text() runs adjacent blocks together
+  $('script, style, noscript').remove()
+  const text = $('body').find('*').addBack().contents()
+    .filter((_, node) => node.type === 'text')
+    .map((_, node) => $(node).text())
+    .get()
+    .join(' ')
+    .replace(/\s+/g, ' ')
+  if (CANCELLED_TEXT.test(text)) return 'cancelled'
+  if (POSTPONED_TEXT.test(text)) return 'postponed'
+
+  if (isSoldOut(jsonLd?.offers) || nextEvent?.is_sold_out || nextEvent?.sold_out || nextEvent?.soldOut) return 'sold_out'
+  if (SOLD_OUT_TEXT.test(text)) return 'sold_out'
+
+  return null
+}
+
+// Every listed offer is sold out (AggregateOffer lists them under `offers`)
+function isSoldOut(offers: any): boolean {
+  const list: any[] = []
+  const collect = (value: any) => {
+    if (Array.isArray(value)) value.forEach(collect)
+    else if (value?.offers) collect(value.offers)
+    else if (value?.availability) list.push(value)
+  }
+  collect(offers)
+
+  return list.length > 0 && list.every(offer => /SoldOut$/.test(String(offer.availability)))
+}
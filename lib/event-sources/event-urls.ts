@@ -0,0 +1,137 @@
+import { detectPlatform, EventSourceId } from './platforms'
+
+/**
+ * Canonical event URLs per platform.
+ * The same event is linked with tracking parameters, trailing slashes, other
+ * country domains or older URL shapes; every form is reduced to one stored URL
+ * and one event key so duplicates can be spotted. Client-safe, like platforms.ts.
+ */
+
+interface EventUrlRule {
+  // Stored URL for an event page on this platform
+  canonicalize(url: URL): string
+  // Platform event ID when the URL carries one
+  eventId?(url: URL): string | null
+}
+
+// Redirect services whose links are resolved before the platform is detected
+export const SHORT_LINK_HOSTS = ['bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'buff.ly', 'lnkd.in', 'is.gd', 'cutt.ly', 'rebrand.ly']
+
+const SYMPLA_EVENT_PATH = /^\/(evento|evento-online)\/([^/]+)\/(\d+)/
+const SYMPLA_LEGACY_PATH = /^\/([^/]+?)__(\d+)/
+const BILETO_EVENT_PATH = /^\/event\/(\d+)/
+const EVENTBRITE_EVENT_PATH = /^\/e\/([^/]*?(\d+))(?:\/|$)/
+const MEETUP_EVENT_PATH = /^\/(?:[a-z]{2}-[A-Z]{2}\/)?([^/]+)\/events\/(\d+)/
+
+const RULES: Record<EventSourceId, EventUrlRule> = {
+  sympla: {
+    canonicalize(url) {
+      const bileto = url.pathname.match(BILETO_EVENT_PATH)
+      if (bileto) return `https://bileto.sympla.com.br/event/${bileto[1]}`
+
+      const event = url.pathname.match(SYMPLA_EVENT_PATH)
+      if (event) return `https://www.sympla.com.br/${event[1]}/${event[2].toLowerCase()}/${event[3]}`
+
+      // Older links: sympla.com.br/nome-do-evento__123456
+      const legacy = url.pathname.match(SYMPLA_LEGACY_PATH)
+      if (legacy) return `https://www.sympla.com.br/evento/${legacy[1].toLowerCase()}/${legacy[2]}`
+
+      return cleanUrl(url, 'www.sympla.com.br')
+    },
+    eventId(url) {
+      const match = url.pathname.match(BILETO_EVENT_PATH) || url.pathname.match(SYMPLA_LEGACY_PATH) || url.pathname.match(SYMPLA_EVENT_PATH)
+      return match ? match[match.length - 1] : null
+    }
+  },
+
+  eventbrite: {
+    canonicalize(url) {
+      // Country domains stay (eventbrite.com.br vs .com); "www." and affiliate parameters go
+      const host = url.hostname.toLowerCase().replace(/^(www\.)?/, 'www.')
+      const event = url.pathname.match(EVENTBRITE_EVENT_PATH)
+      return event ? `https://${host}/e/${event[1].toLowerCase()}` : cleanUrl(url, host)
+    },
+    eventId(url) {
+      return url.pathname.match(EVENTBRITE_EVENT_PATH)?.[2] || null
+    }
+  },
+
+  even3: {
+    canonicalize(url) {
+      // Subpages of a congress all belong to the same event
+      const slug = url.pathname.split('/').filter(Boolean)[0] || ''
+      return `https://www.even3.com.br/${slug.toLowerCase()}`
+    }
+  },
+
+  doity: {
+    canonicalize(url) {
+      const slug = url.pathname.split('/').filter(Boolean)[0] || ''
+      return `https://doity.com.br/${slug.toLowerCase()}`
+    }
+  },
+
+  meetup: {
+    canonicalize(url) {
+      const match = url.pathname.match(MEETUP_EVENT_PATH)
+      return match ? `https://www.meetup.com/${match[1]}/events/${match[2]}` : cleanUrl(url, 'www.meetup.com')
+    },
+    eventId(url) {
+      return url.pathname.match(MEETUP_EVENT_PATH)?.[2] || null
+    }
+  },
+
+  luma: {
+    canonicalize(url) {
+      // lu.ma and luma.com serve the same event slugs
+      const slug = url.pathname.split('/').filter(Boolean)[0] || ''
+      return `https://lu.ma/${slug}`
+    }
+  }
+}
+
+// https, lower-case host, no query string, fragment or trailing slash
+function cleanUrl(url: URL, host: string = url.hostname.toLowerCase()): string {
+  const path = url.pathname.replace(/\/{2,}/g, '/').replace(/\/$/, '')
+  return `https://${host}${path}`
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url.trim())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stored form of an event URL; unknown hosts only lose tracking noise
+ */
+export function canonicalizeEventUrl(url: string): string {
+  const parsed = parseUrl(url)
+  if (!parsed) return url.trim()
+
+  const platform = detectPlatform(parsed.toString())
+  return platform ? RULES[platform.id].canonicalize(parsed) : cleanUrl(parsed)
+}
+
+/**
+ * Identity of the event behind a URL, e.g. "sympla:2345678", falling back to
+ * the canonical URL for platforms whose URLs carry no numeric ID
+ */
+export function getEventKey(url: string): string {
+  const parsed = parseUrl(url)
+  if (!parsed) return url.trim()
+
+  const platform = detectPlatform(parsed.toString())
+  if (!platform) return cleanUrl(parsed)
+
+  const rule = RULES[platform.id]
+  const id = rule.eventId?.(parsed)
+  return `${platform.id}:${id || rule.canonicalize(parsed)}`
+}
+
+export function isShortLink(url: string): boolean {
+  const hostname = parseUrl(url)?.hostname.toLowerCase().replace(/^www\./, '')
+  return Boolean(hostname && SHORT_LINK_HOSTS.includes(hostname))
+}
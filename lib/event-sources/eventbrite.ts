@@ -0,0 +1,41 @@
+import { EventbriteScraper } from '../eventbrite-scraper'
+import type { EventSourceAdapter } from './types'
+
+/**
+ * Eventbrite event pages (eventbrite.com/e/<slug>-<id>).
+ * Organizer profiles (/o/...) are expanded separately by EventbriteScraper.fetchOrganizerProfile.
+ */
+export const eventbriteAdapter: EventSourceAdapter = {
+  id: 'eventbrite',
+  name: 'Eventbrite',
+
+  matches(url) {
+    return /(^|\.)eventbrite\.(com|co\.uk|com\.br)$/.test(url.hostname) &&
+      EventbriteScraper.extractEventIdFromUrl(url.toString()) !== null
+  },
+
+  async extract(page) {
+    const eventbriteData = EventbriteScraper.parseEventHtml(page.html, page.url)
+    const source = eventbriteData.extraction_source || 'html'
+
+    return {
+      nome_evento: eventbriteData.nome_evento,
+      data_evento: eventbriteData.data_evento,
+      local: eventbriteData.local,
+      produtor: eventbriteData.organizer_name,
+      website: eventbriteData.website,
+      organizer_name: eventbriteData.organizer_name,
+      start_at: eventbriteData.start_time,
+      end_at: eventbriteData.end_time,
+      timezone: eventbriteData.timezone,
+      description: eventbriteData.description,
+      address: eventbriteData.address,
+      field_sources: {
+        nome_evento: source,
+        data_evento: source,
+        local: source,
+        produtor: source
+      }
+    }
+  }
+}
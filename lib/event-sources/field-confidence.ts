@@ -0,0 +1,70 @@
+import type { ExtractedEvent } from './types'
+import type { FieldSource } from './structured-data'
+
+/**
+ * Field-level extraction confidence.
+ * Each extracted field gets a score between 0 and 1 from the path that
+ * produced it (structured data is trusted more than scraped HTML or the LLM),
+ * and placeholders such as "Não informado" score 0 so they are never taken
+ * for real values. Client-safe: the review page uses the same rules.
+ */
+
+// Fields an event needs before it becomes a lead
+export const REVIEWED_FIELDS = ['nome_evento', 'data_evento', 'local', 'produtor'] as const
+export type ReviewedField = typeof REVIEWED_FIELDS[number]
+
+export const SOURCE_CONFIDENCE: Record<FieldSource, number> = {
+  json_ld: 0.95,
+  next_data: 0.9,
+  meta: 0.8,
+  html: 0.6,
+  // Upper bound; the model's own estimate lowers it
+  llm: 0.8,
+  manual: 1
+}
+
+// Fields scoring below this send an import to the review queue
+export const DEFAULT_REVIEW_THRESHOLD = 0.6
+
+// What extractors and the LLM write when a page does not say
+const PLACEHOLDER_PATTERN = /^(?:(?:organizador|local|data|produtor|evento|nome)\s+)?n[ãa]o\s+(?:informad[oa]|encontrad[oa]|dispon[íi]vel|identificad[oa])$|^(?:n\/?a|null|undefined|none|unknown|desconhecid[oa]|sem\s+(?:nome|informa[çc][ãa]o)|-+|\?+)$/i
+
+export function isPlaceholderValue(value: string | null | undefined): boolean {
+  const text = value?.replace(/\s+/g, ' ').trim()
+  return !text || PLACEHOLDER_PATTERN.test(text)
+}
+
+/**
+ * Confidence of every reviewed field. Scores the adapter already set (the
+ * LLM's own estimate) are kept when lower than what the source allows.
+ */
+export function scoreFields(event: ExtractedEvent): Record<string, number> {
+  const sources = event.field_sources || {}
+  const given = event.field_confidence || {}
+  const scores: Record<string, number> = { ...given }
+
+  REVIEWED_FIELDS.forEach(field => {
+    if (isPlaceholderValue(event[field])) {
+      scores[field] = 0
+      return
+    }
+
+    const source = sources[field]
+    const sourceScore = source ? SOURCE_CONFIDENCE[source] : SOURCE_CONFIDENCE.html
+    scores[field] = typeof given[field] === 'number' ? Math.min(given[field], sourceScore) : sourceScore
+  })
+
+  return scores
+}
+
+/**
+ * The reviewed fields scoring below the threshold, weakest first
+ */
+export function findLowConfidenceFields(
+  fieldConfidence: Record<string, number>,
+  threshold = DEFAULT_REVIEW_THRESHOLD
+): ReviewedField[] {
+  return REVIEWED_FIELDS
+    .filter(field => (fieldConfidence[field] ?? 0) < threshold)
+    .sort((a, b) => (fieldConfidence[a] ?? 0) - (fieldConfidence[b] ?? 0))
+}
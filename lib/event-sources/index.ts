@@ -0,0 +1,160 @@
+import { symplaAdapter } from './sympla'
+import { eventbriteAdapter } from './eventbrite'
+import { even3Adapter } from './even3'
+import { doityAdapter } from './doity'
+import { meetupAdapter } from './meetup'
+import { lumaAdapter } from './luma'
+import { fetchHtml, renderWithBrowser, PageFetchError } from './page-fetcher'
+import { RobotsDisallowedError } from './polite-fetch'
+import { LlmBudgetExceededError } from '../llm'
+import { detectPlatform, EVENT_PLATFORMS } from './platforms'
+import { scoreFields } from './field-confidence'
+import { extractEventDetails } from './event-details'
+import type { EventSourceAdapter, EventSourceContext, ExtractedEvent, FetchedPage } from './types'
+
+export type { EventSourceAdapter, EventSourceContext, ExtractedEvent, FetchedPage } from './types'
+export type { EventSourceId } from './platforms'
+export type { EventDetails, EventFormat, TicketTier } from './event-details'
+export { canonicalizeEventUrl, getEventKey } from './event-urls'
+export { resolveShortLink, PageFetchError } from './page-fetcher'
+export { RobotsDisallowedError } from './polite-fetch'
+export { isPlaceholderValue } from './field-confidence'
+
+/**
+ * Event source registry
+ * Every supported ticketing platform registers one adapter here; the ingestion
+ * pipeline resolves URLs through it instead of checking hosts itself.
+ */
+
+const adapters: EventSourceAdapter[] = [
+  symplaAdapter,
+  eventbriteAdapter,
+  even3Adapter,
+  doityAdapter,
+  meetupAdapter,
+  lumaAdapter
+]
+
+export function listEventSources(): EventSourceAdapter[] {
+  return [...adapters]
+}
+
+/**
+ * Find the adapter for an event URL.
+ * Returns an error naming the platform when the URL is recognised but is not an
+ * event page, or listing the supported platforms when it is not recognised at all.
+ */
+export function resolveEventSource(url: string): { adapter: EventSourceAdapter | null; error: string | null } {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return { adapter: null, error: `Invalid URL: ${url}` }
+  }
+
+  const adapter = adapters.find(candidate => candidate.matches(parsed))
+  if (adapter) {
+    return { adapter, error: null }
+  }
+
+  const platform = detectPlatform(url)
+  if (platform) {
+    return { adapter: null, error: `${platform.name} URL is not an event page: ${url}` }
+  }
+
+  const supported = EVENT_PLATFORMS.map(p => p.name).join(', ')
+  return { adapter: null, error: `Unsupported URL (supported platforms: ${supported}): ${url}` }
+}
+
+/**
+ * Fetch and extract an event with the given adapter, rendering the page in a
+ * browser when the adapter allows it and the plain fetch did not work.
+ * Ticket prices, capacity, format and categories are read from the page too
+ * (see event-details.ts), fields are scored for confidence (see
+ * field-confidence.ts), and every page downloaded on the way is returned for
+ * the snapshot archive;
+ * `gone` is set when the page no longer exists, without trying the browser;
+ * pages robots.txt disallows are not rendered either.
+ */
+export async function extractEvent(
+  adapter: EventSourceAdapter,
+  url: string,
+  context: EventSourceContext = {}
+): Promise<{ data: ExtractedEvent | null; error: string | null; pages: FetchedPage[]; gone?: boolean }> {
+  let page: FetchedPage | null = null
+  const pages: FetchedPage[] = []
+
+  context.onProgress?.({ url, stage: 'fetching' })
+
+  try {
+    page = adapter.fetchPage ? await adapter.fetchPage(url, context) : await fetchHtml(url)
+    pages.push(page)
+    const data = await adapter.extract(page, context)
+    if (data) {
+      return { data: withConfidence(withDetails(data, page)), error: null, pages }
+    }
+    console.log(`[${adapter.name}] No event data in fetched page: ${url}`)
+  } catch (error) {
+    console.log(`[${adapter.name}] Fetch failed for ${url}:`, error)
+    if (error instanceof PageFetchError && error.gone) {
+      return { data: null, error: `[${adapter.name}] Event page no longer exists: ${url}`, pages, gone: true }
+    }
+    // The browser would be refused by the same rules, or the page could not be read without the LLM
+    if (error instanceof RobotsDisallowedError || error instanceof LlmBudgetExceededError) {
+      return { data: null, error: `[${adapter.name}] ${error.message}`, pages }
+    }
+  }
+
+  if (adapter.browserFallback && page?.via !== 'browser') {
+    context.onProgress?.({ url, stage: 'browser_fallback' })
+
+    try {
+      page = await renderWithBrowser(url, adapter.browserFallback)
+      pages.push(page)
+      const data = await adapter.extract(page, context)
+      if (data) {
+        return { data: withConfidence(withDetails(data, page)), error: null, pages }
+      }
+    } catch (error) {
+      console.error(`[${adapter.name}] Browser extraction failed for ${url}:`, error)
+      if (error instanceof LlmBudgetExceededError) {
+        return { data: null, error: `[${adapter.name}] ${error.message}`, pages }
+      }
+    }
+  }
+
+  return { data: null, error: `[${adapter.name}] Failed to extract data from: ${url}`, pages }
+}
+
+/**
+ * Run an adapter's extraction again on a page downloaded earlier (an event
+ * snapshot), without refetching it
+ */
+export async function extractFromPage(
+  adapter: EventSourceAdapter,
+  page: FetchedPage,
+  context: EventSourceContext = {}
+): Promise<{ data: ExtractedEvent | null; error: string | null }> {
+  try {
+    const data = await adapter.extract(page, context)
+    if (data) {
+      return { data: withConfidence(withDetails(data, page)), error: null }
+    }
+  } catch (error) {
+    console.error(`[${adapter.name}] Extraction from saved page failed for ${page.url}:`, error)
+    if (error instanceof LlmBudgetExceededError) {
+      return { data: null, error: `[${adapter.name}] ${error.message}` }
+    }
+  }
+
+  return { data: null, error: `[${adapter.name}] No event data in saved page: ${page.url}` }
+}
+
+// Details an adapter reads itself win over the generic ones
+function withDetails(data: ExtractedEvent, page: FetchedPage): ExtractedEvent {
+  return { ...extractEventDetails(page.html), ...data }
+}
+
+function withConfidence(data: ExtractedEvent): ExtractedEvent {
+  return { ...data, field_confidence: scoreFields(data) }
+}
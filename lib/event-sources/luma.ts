@@ -0,0 +1,62 @@
+import * as cheerio from 'cheerio'
+import { parseStructuredEvent, toExtractedEvent, readNextData, extractName } from './structured-data'
+import type { EventSourceAdapter } from './types'
+
+// Single-segment paths that are Lu.ma app pages rather than events
+const RESERVED_PATHS = new Set([
+  'discover', 'signin', 'login', 'home', 'create', 'calendar', 'calendars', 'explore',
+  'pricing', 'settings', 'user', 'u', 'embed', 'check-in', 'help'
+])
+
+/**
+ * Lu.ma event pages (lu.ma/<slug>). The calendar that publishes the event is
+ * used as the organizer, falling back to the first host.
+ */
+export const lumaAdapter: EventSourceAdapter = {
+  id: 'luma',
+  name: 'Lu.ma',
+
+  matches(url) {
+    if (!/(^|\.)(lu\.ma|luma\.com)$/.test(url.hostname)) return false
+    const segments = url.pathname.split('/').filter(Boolean)
+    return segments.length === 1 && !RESERVED_PATHS.has(segments[0].toLowerCase())
+  },
+
+  async extract(page) {
+    const pageData = readNextData(cheerio.load(page.html))?.props?.pageProps?.initialData
+
+    // Calendar and profile pages share the URL shape of events
+    if (pageData?.kind && pageData.kind !== 'event') {
+      console.log(`[Lu.ma] ${page.url} is a ${pageData.kind} page, not an event`)
+      return null
+    }
+
+    const result = parseStructuredEvent(page.html, {
+      titleSuffix: /\s*[-|·]\s*Luma.*$/i
+    })
+
+    // A community calendar beats the individual hosts listed in JSON-LD
+    const calendar = pageData?.data?.calendar
+    const calendarName = calendar?.is_personal ? undefined : extractName(calendar)
+    const organizer = calendarName || (result.data.produtor ? undefined : extractName(pageData?.data?.hosts))
+
+    if (organizer) {
+      result.data.produtor = organizer
+      result.sources.produtor = 'next_data'
+      result.missing = result.missing.filter(field => field !== 'produtor')
+    }
+
+    if (!result.data.website && calendar?.website) {
+      result.data.website = calendar.website
+      result.sources.website = 'next_data'
+    }
+
+    console.log(`[Lu.ma] Parsed ${page.url}:`, { sources: result.sources, missing: result.missing })
+
+    return toExtractedEvent(result)
+  },
+
+  browserFallback: {
+    waitForSelector: 'h1'
+  }
+}
@@ -0,0 +1,39 @@
+import { parseStructuredEvent, toExtractedEvent } from './structured-data'
+import type { EventSourceAdapter } from './types'
+
+// /<group>/events/<id>, optionally behind a locale prefix such as /pt-BR
+const EVENT_PATH = /^\/(?:[a-z]{2}-[A-Z]{2}\/)?([^/]+)\/events\/(\d+)/
+
+/**
+ * Meetup event pages. The hosting group becomes the organizer.
+ */
+export const meetupAdapter: EventSourceAdapter = {
+  id: 'meetup',
+  name: 'Meetup',
+
+  matches(url) {
+    return /(^|\.)meetup\.com$/.test(url.hostname) && EVENT_PATH.test(url.pathname)
+  },
+
+  async extract(page) {
+    const result = parseStructuredEvent(page.html, {
+      titleSuffix: /\s*[-|]\s*Meetup.*$/i
+    })
+    console.log(`[Meetup] Parsed ${page.url}:`, { sources: result.sources, missing: result.missing })
+
+    // The group name is part of every event URL
+    if (!result.data.produtor) {
+      const group = new URL(page.url).pathname.match(EVENT_PATH)?.[1]
+      if (group) {
+        result.data.produtor = decodeURIComponent(group).replace(/[-_]+/g, ' ').trim()
+        result.sources.produtor = 'html'
+      }
+    }
+
+    return toExtractedEvent(result)
+  },
+
+  browserFallback: {
+    waitForSelector: 'h1'
+  }
+}
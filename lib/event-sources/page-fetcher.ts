@@ -0,0 +1,129 @@
+import type { FetchedPage } from './types'
+import { isShortLink, getEventKey } from './event-urls'
+import { withBrowserPage } from './browser-pool'
+import { politeFetch, withHostSlot, crawlerUserAgent } from './polite-fetch'
+
+const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+
+const NAVIGATION_TIMEOUT_MS = 45000
+const CONTENT_TIMEOUT_MS = 10000
+// Plain requests, retries and body included; a hung server must not hold an ingestion lane
+const FETCH_TIMEOUT_MS = 30000
+const SHORT_LINK_TIMEOUT_MS = 10000
+
+/**
+ * Failed page download. `gone` marks pages that no longer exist (404/410, or a
+ * redirect to something other than the event), as opposed to transient errors.
+ */
+export class PageFetchError extends Error {
+  constructor(message: string, public status: number, public gone: boolean) {
+    super(message)
+    this.name = 'PageFetchError'
+  }
+}
+
+/**
+ * Plain HTTP fetch of an event page
+ */
+export async function fetchHtml(url: string): Promise<FetchedPage> {
+  console.log(`Attempting to fetch: ${url}`)
+  const started = Date.now()
+
+  const response = await politeFetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'DNT': '1',
+      'Connection': 'keep-alive',
+      'Upgrade-Insecure-Requests': '1',
+    }
+  })
+
+  if (!response.ok) {
+    throw new PageFetchError(`Failed to fetch page: ${response.status}`, response.status, response.status === 404 || response.status === 410)
+  }
+
+  // Platforms send removed events to their home or search page
+  if (response.redirected && getEventKey(response.url) !== getEventKey(url)) {
+    throw new PageFetchError(`Event page redirects to ${response.url}`, response.status, true)
+  }
+
+  const html = await response.text()
+  return { url, html, via: 'fetch', timings: { total_ms: Date.now() - started } }
+}
+
+/**
+ * Follow a shortener link (bit.ly and the like) to the page it points to;
+ * other URLs and unreachable links come back unchanged
+ */
+export async function resolveShortLink(url: string): Promise<string> {
+  if (!isShortLink(url)) return url
+
+  try {
+    const response = await politeFetch(url, {
+      method: 'HEAD',
+      redirect: 'follow',
+      signal: AbortSignal.timeout(SHORT_LINK_TIMEOUT_MS),
+      headers: { 'User-Agent': USER_AGENT }
+    })
+    return response.url || url
+  } catch (error) {
+    console.warn(`Could not resolve short link ${url}:`, error)
+    return url
+  }
+}
+
+/**
+ * Render an event page in headless Chromium, for pages that block plain
+ * requests or only render their content client-side. Uses the shared browser
+ * pool and waits for the adapter's content selector instead of a fixed delay.
+ */
+export async function renderWithBrowser(url: string, options: { waitForSelector?: string } = {}): Promise<FetchedPage> {
+  const started = Date.now()
+
+  return withBrowserPage({
+    userAgent: crawlerUserAgent(USER_AGENT),
+    locale: 'pt-BR',
+    extraHTTPHeaders: { 'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8' }
+  }, async ({ page, queued_ms, launch_ms }) => {
+    // Only the navigation counts against the host's limits, not the wait below
+    const navigationStarted = Date.now()
+    await withHostSlot(url, () => page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout: NAVIGATION_TIMEOUT_MS
+    }))
+    const navigation_ms = Date.now() - navigationStarted
+
+    // Content rendered client-side: wait for the selector that shows it, or for
+    // the network to settle when the adapter gives none
+    const waitStarted = Date.now()
+    try {
+      if (options.waitForSelector) {
+        await page.waitForSelector(options.waitForSelector, { timeout: CONTENT_TIMEOUT_MS })
+      } else {
+        await page.waitForLoadState('networkidle', { timeout: CONTENT_TIMEOUT_MS })
+      }
+    } catch (e) {
+      console.log(`Content did not settle within ${CONTENT_TIMEOUT_MS}ms for ${url}, proceeding anyway`)
+    }
+    const wait_ms = Date.now() - waitStarted
+
+    const html = await page.content()
+
+    // Kept with the event snapshot; a failed screenshot does not fail the render
+    let screenshot: Buffer | undefined
+    try {
+      screenshot = await page.screenshot({ fullPage: true, type: 'jpeg', quality: 70 })
+    } catch (error) {
+      console.warn(`Could not take screenshot of ${url}:`, error)
+    }
+
+    const timings = { queued_ms, launch_ms, navigation_ms, wait_ms, total_ms: Date.now() - started }
+    console.log(`[BrowserPool] Rendered ${url} (${html.length} chars):`, timings)
+
+    return { url, html, via: 'browser' as const, screenshot, timings }
+  })
+}
@@ -0,0 +1,36 @@
+/**
+ * Ticketing platforms the importer understands.
+ * Kept free of server-only imports so pages can label links too.
+ */
+
+export type EventSourceId = 'sympla' | 'eventbrite' | 'even3' | 'doity' | 'meetup' | 'luma'
+
+export interface EventPlatform {
+  id: EventSourceId
+  name: string
+  hosts: string[]
+}
+
+export const EVENT_PLATFORMS: EventPlatform[] = [
+  { id: 'sympla', name: 'Sympla', hosts: ['sympla.com.br'] },
+  { id: 'eventbrite', name: 'Eventbrite', hosts: ['eventbrite.com', 'eventbrite.co.uk', 'eventbrite.com.br'] },
+  { id: 'even3', name: 'Even3', hosts: ['even3.com.br', 'even3.com'] },
+  { id: 'doity', name: 'Doity', hosts: ['doity.com.br'] },
+  { id: 'meetup', name: 'Meetup', hosts: ['meetup.com'] },
+  { id: 'luma', name: 'Lu.ma', hosts: ['lu.ma', 'luma.com'] }
+]
+
+export function detectPlatform(url: string): EventPlatform | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase()
+    return EVENT_PLATFORMS.find(platform =>
+      platform.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+    ) || null
+  } catch {
+    return null
+  }
+}
+
+export function getPlatformName(id: string | null | undefined): string {
+  return EVENT_PLATFORMS.find(platform => platform.id === id)?.name || 'Evento'
+}
@@ -0,0 +1,339 @@
+/**
+ * Politeness rules for every request made to event platforms.
+ * Requests to the same host share a small number of slots and are spaced out
+ * (by the robots.txt Crawl-delay when there is one); a 429, 403 or 503 puts
+ * the whole host on hold with exponential backoff (or the Retry-After the
+ * server asked for) before retrying. Paths robots.txt disallows are not
+ * fetched at all, and SCRAPER_PROXY_URL routes the requests through a proxy.
+ * Every request carries our robots.txt token in its User-Agent, so the rules
+ * a site writes for it apply to what we actually send.
+ */
+import type { RequestInit as UndiciRequestInit } from 'undici'
+
+
+const HOST_CONCURRENCY = Number(process.env.SCRAPER_HOST_CONCURRENCY) || 2
+const HOST_MIN_INTERVAL_MS = Number(process.env.SCRAPER_HOST_MIN_INTERVAL_MS) || 1000
+const MAX_RETRIES = process.env.SCRAPER_MAX_RETRIES ? Number(process.env.SCRAPER_MAX_RETRIES) : 2
+const BACKOFF_BASE_MS = 2000
+// Longer waits would outlast the serverless function itself
+const MAX_BACKOFF_MS = 30000
+const RESPECT_ROBOTS = process.env.SCRAPER_RESPECT_ROBOTS !== 'false'
+// Token looked up in robots.txt groups before falling back to `*`, and added to our User-Agent
+const CRAWLER_TOKEN = process.env.SCRAPER_ROBOTS_USER_AGENT || 'ProspeccaoLevidica'
+const ROBOTS_USER_AGENT = CRAWLER_TOKEN.toLowerCase()
+const ROBOTS_CACHE_MS = 60 * 60 * 1000
+const ROBOTS_TIMEOUT_MS = 10000
+
+export const PROXY_URL = process.env.SCRAPER_PROXY_URL || null
+
+const RETRY_STATUSES = [403, 429, 503]
+
+/**
+ * The page is disallowed for crawlers by the site's robots.txt
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(url: string) {
+    super(`Blocked by robots.txt: ${url}`)
+    this.name = 'RobotsDisallowedError'
+  }
+}
+
+interface HostState {
+  active: number
+  waiters: Array<() => void>
+  // Earliest start of the next request, from the minimum interval
+  nextStartAt: number
+  // Set by a 429/403/503: nobody touches the host before this
+  blockedUntil: number
+  failures: number
+}
+
+interface RobotsRules {
+  allow: string[]
+  disallow: string[]
+  crawlDelayMs: number | null
+}
+
+const hosts = new Map<string, HostState>()
+const robotsCache = new Map<string, { rules: Promise<RobotsRules | null>; fetchedAt: number }>()
+let proxyFetchPromise: Promise<typeof fetch> | null = null
+
+/**
+ * `fetch` with the per-host limits, robots.txt check, backoff and proxy.
+ * Responses that still fail after the retries are returned as they are, so
+ * callers keep handling non-ok statuses themselves.
+ */
+export async function politeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const rules = await assertAllowedByRobots(url)
+  const host = new URL(url).host
+  const doFetch = await getFetch()
+
+  const headers = new Headers(init.headers)
+  headers.set('User-Agent', crawlerUserAgent(headers.get('User-Agent')))
+  init = { ...init, headers }
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireHost(host, rules?.crawlDelayMs)
+    let response: Response
+
+    try {
+      response = await doFetch(url, init)
+    } finally {
+      release()
+    }
+
+    if (RETRY_STATUSES.indexOf(response.status) === -1) {
+      getHostState(host).failures = 0
+      return response
+    }
+
+    const delay = backOffHost(host, response)
+    if (attempt >= MAX_RETRIES) {
+      console.warn(`[PoliteFetch] ${host} answered ${response.status} after ${attempt + 1} attempts: ${url}`)
+      return response
+    }
+
+    console.log(`[PoliteFetch] ${host} answered ${response.status}, retrying in ${delay}ms: ${url}`)
+    await response.body?.cancel().catch(() => {})
+  }
+}
+
+/**
+ * Run a request made by other means (a browser render) inside the host's
+ * limits, after the same robots.txt check
+ */
+export async function withHostSlot<T>(url: string, task: () => Promise<T>): Promise<T> {
+  const rules = await assertAllowedByRobots(url)
+  const release = await acquireHost(new URL(url).host, rules?.crawlDelayMs)
+
+  try {
+    return await task()
+  } finally {
+    release()
+  }
+}
+
+/**
+ * The given User-Agent (a browser's, for pages that serve browsers only) with
+ * our token appended, so sites can tell our requests apart
+ */
+export function crawlerUserAgent(userAgent?: string | null): string {
+  const token = `${CRAWLER_TOKEN}/1.0`
+  if (!userAgent) return token
+  return userAgent.toLowerCase().indexOf(ROBOTS_USER_AGENT) !== -1 ? userAgent : `${userAgent} ${token}`
+}
+
+// HOST LIMITS
+
+function getHostState(host: string): HostState {
+  let state = hosts.get(host)
+  if (!state) {
+    state = { active: 0, waiters: [], nextStartAt: 0, blockedUntil: 0, failures: 0 }
+    hosts.set(host, state)
+  }
+  return state
+}
+
+async function acquireHost(host: string, crawlDelayMs?: number | null): Promise<() => void> {
+  const state = getHostState(host)
+
+  if (state.active < HOST_CONCURRENCY) {
+    state.active++
+  } else {
+    // The releasing request hands its slot over, so the count stays the same
+    await new Promise<void>(resolve => state.waiters.push(resolve))
+  }
+
+  const interval = Math.max(HOST_MIN_INTERVAL_MS, crawlDelayMs || 0)
+  const startAt = Math.max(Date.now(), state.nextStartAt, state.blockedUntil)
+  state.nextStartAt = startAt + interval
+
+  const wait = startAt - Date.now()
+  if (wait > 0) {
+    await sleep(wait)
+  }
+
+  return () => {
+    const next = state.waiters.shift()
+    if (next) {
+      next()
+    } else {
+      state.active--
+    }
+  }
+}
+
+// Put the host on hold and return how long for
+function backOffHost(host: string, response: Response): number {
+  const state = getHostState(host)
+  state.failures++
+
+  const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+  const backoff = BACKOFF_BASE_MS * Math.pow(2, state.failures - 1) + Math.floor(Math.random() * 500)
+  const delay = Math.min(retryAfter ?? backoff, MAX_BACKOFF_MS)
+
+  state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay)
+  return delay
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0)
+
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+// ROBOTS.TXT
+
+async function assertAllowedByRobots(url: string): Promise<RobotsRules | null> {
+  if (!RESPECT_ROBOTS) return null
+
+  const parsed = new URL(url)
+  const rules = await getRobotsRules(parsed.origin)
+
+  if (rules && !isPathAllowed(rules, parsed.pathname + parsed.search)) {
+    throw new RobotsDisallowedError(url)
+  }
+
+  return rules
+}
+
+function getRobotsRules(origin: string): Promise<RobotsRules | null> {
+  const cached = robotsCache.get(origin)
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_MS) {
+    return cached.rules
+  }
+
+  const rules = fetchRobotsRules(origin)
+  robotsCache.set(origin, { rules, fetchedAt: Date.now() })
+  return rules
+}
+
+// A missing or unreadable robots.txt allows everything
+async function fetchRobotsRules(origin: string): Promise<RobotsRules | null> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS)
+
+  try {
+    const doFetch = await getFetch()
+    const response = await doFetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': crawlerUserAgent() },
+      signal: controller.signal
+    })
+    if (!response.ok) return null
+
+    return parseRobots(await response.text())
+  } catch (error) {
+    console.warn(`[PoliteFetch] Could not read ${origin}/robots.txt:`, error)
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Rules of the group for our user agent, or of the `*` group when no group
+ * names it
+ */
+function parseRobots(text: string): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = []
+  let current: { agents: string[]; rules: RobotsRules } | null = null
+  let lastWasAgent = false
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) return
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [], crawlDelayMs: null } }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      return
+    }
+
+    lastWasAgent = false
+    if (!current) return
+
+    if (field === 'allow' && value) current.rules.allow.push(value)
+    if (field === 'disallow' && value) current.rules.disallow.push(value)
+    if (field === 'crawl-delay' && !isNaN(Number(value))) current.rules.crawlDelayMs = Number(value) * 1000
+  })
+
+  const own = groups.find(group => group.agents.some(agent => agent !== '*' && ROBOTS_USER_AGENT.indexOf(agent) !== -1))
+  const any = groups.find(group => group.agents.indexOf('*') !== -1)
+
+  return (own || any)?.rules || { allow: [], disallow: [], crawlDelayMs: null }
+}
+
+// The longest matching rule wins; Allow wins a tie
+function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) => patterns
+    .filter(pattern => robotsPatternToRegExp(pattern).test(path))
+    .reduce((longest, pattern) => Math.max(longest, pattern.length), -1)
+
+  const disallowed = longestMatch(rules.disallow)
+  return disallowed === -1 || longestMatch(rules.allow) >= disallowed
+}
+
+// `*` matches anything and a trailing `$` anchors the end
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+// PROXY
+
+// undici is only loaded when a proxy is configured; its own fetch is used
+// because the dispatcher has to come from the same undici version
+function getFetch(): Promise<typeof fetch> {
+  if (!PROXY_URL) return Promise.resolve(fetch)
+
+  if (!proxyFetchPromise) {
+    proxyFetchPromise = import('undici').then(({ fetch: undiciFetch, ProxyAgent }) => {
+      const dispatcher = new ProxyAgent(PROXY_URL!)
+      return async (input: Parameters<typeof fetch>[0], init: RequestInit = {}): Promise<Response> => {
+        if (typeof input !== 'string' && !(input instanceof URL)) {
+          throw new Error('The proxy fetch takes a URL, not a Request')
+        }
+        if (init.body != null && typeof init.body !== 'string') {
+          throw new Error('The proxy fetch only sends string bodies')
+        }
+
+        const proxyInit: UndiciRequestInit = {
+          method: init.method,
+          headers: init.headers ? Array.from(new Headers(init.headers).entries()) : undefined,
+          body: init.body,
+          redirect: init.redirect,
+          signal: init.signal,
+          dispatcher
+        }
+        const response = await undiciFetch(input, proxyInit)
+        // Same Fetch Response at runtime; the types only differ in their stream typings
+        return response as Response
+      }
+    })
+  }
+
+  return proxyFetchPromise
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
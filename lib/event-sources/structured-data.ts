@@ -0,0 +1,336 @@
+import * as cheerio from 'cheerio'
+import type { ExtractedEvent } from './types'
+import { detectPlatform } from './platforms'
+import type { EventAddress } from '../location'
+
+/**
+ * Structured-data helpers shared by the event source adapters.
+ * Event pages on most platforms embed schema.org JSON-LD, Next.js page props
+ * or Open Graph tags; reading those is faster and steadier than asking an LLM.
+ */
+
+// Where a field value came from; 'manual' when a person typed or corrected it
+export type FieldSource = 'json_ld' | 'next_data' | 'meta' | 'html' | 'llm' | 'manual'
+
+export interface StructuredEventData {
+  nome_evento: string
+  data_evento: string
+  local: string
+  produtor: string
+  website?: string
+  description?: string
+  start_time?: string
+  end_time?: string
+  // IANA zone when the page names one, otherwise the UTC offset of the start date ("-03:00")
+  timezone?: string
+}
+
+// Fields every extraction must fill, in the order the LLM is asked for them
+export const REQUIRED_EVENT_FIELDS = ['nome_evento', 'data_evento', 'local', 'produtor'] as const
+export type RequiredEventField = typeof REQUIRED_EVENT_FIELDS[number]
+
+export interface StructuredParseResult {
+  data: Partial<StructuredEventData>
+  sources: Partial<Record<keyof StructuredEventData, FieldSource>>
+  missing: RequiredEventField[]
+  // Address parts when the page exposes them separately
+  address?: EventAddress
+}
+
+export interface StructuredParseOptions {
+  // Headings of the block that names the organizer, lower case ("sobre o produtor")
+  organizerHeadings?: string[]
+  // Removed from og:title, e.g. / - Sympla$/
+  titleSuffix?: RegExp
+}
+
+/**
+ * Reads an event from JSON-LD, Next.js page props, meta tags and finally the
+ * rendered HTML, keeping the first value found for each field.
+ */
+export function parseStructuredEvent(html: string, options: StructuredParseOptions = {}): StructuredParseResult {
+  const $ = cheerio.load(html)
+  const data: Partial<StructuredEventData> = {}
+  const sources: StructuredParseResult['sources'] = {}
+
+  const set = (field: keyof StructuredEventData, value: string | undefined, source: FieldSource) => {
+    const cleaned = value?.replace(/\s+/g, ' ').trim()
+    if (!cleaned || data[field]) return
+    data[field] = cleaned
+    sources[field] = source
+  }
+
+  // 1. JSON-LD Event
+  const jsonLd = findJsonLdEvent($)
+  if (jsonLd) {
+    set('nome_evento', jsonLd.name, 'json_ld')
+    set('start_time', toIsoDate(jsonLd.startDate), 'json_ld')
+    set('end_time', toIsoDate(jsonLd.endDate), 'json_ld')
+    set('timezone', extractUtcOffset(jsonLd.startDate), 'json_ld')
+    set('local', formatLocation(jsonLd.location), 'json_ld')
+    set('produtor', extractName(jsonLd.organizer), 'json_ld')
+    set('website', extractWebsite(jsonLd.organizer), 'json_ld')
+    set('description', stripHtml(jsonLd.description), 'json_ld')
+  }
+
+  // 2. Next.js page props
+  const nextEvent = findNextDataEvent($)
+  if (nextEvent) {
+    set('nome_evento', nextEvent.name || nextEvent.title, 'next_data')
+    set('start_time', toIsoDate(nextEvent.startDate || nextEvent.start_date || nextEvent.startDateTime || nextEvent.start_at), 'next_data')
+    set('end_time', toIsoDate(nextEvent.endDate || nextEvent.end_date || nextEvent.endDateTime || nextEvent.end_at), 'next_data')
+    set('local', formatLocation(nextEvent.location || nextEvent.address || nextEvent.venue || nextEvent.geo_address_info), 'next_data')
+    set('timezone', nextEvent.timezone || nextEvent.time_zone || extractUtcOffset(nextEvent.startDate || nextEvent.start_date), 'next_data')
+    const organizer = nextEvent.producer || nextEvent.organizer || nextEvent.host || nextEvent.hosts || nextEvent.calendar || nextEvent.group
+    set('produtor', extractName(organizer), 'next_data')
+    set('website', extractWebsite(organizer), 'next_data')
+    set('description', stripHtml(nextEvent.description || nextEvent.detail), 'next_data')
+  }
+
+  // 3. Meta tags
+  const ogTitle = $('meta[property="og:title"]').attr('content')
+  set('nome_evento', options.titleSuffix ? ogTitle?.replace(options.titleSuffix, '') : ogTitle, 'meta')
+  set('start_time', toIsoDate($('meta[property="event:start_time"]').attr('content')), 'meta')
+  set('end_time', toIsoDate($('meta[property="event:end_time"]').attr('content')), 'meta')
+  set('description', $('meta[property="og:description"]').attr('content') || $('meta[name="description"]').attr('content'), 'meta')
+
+  // 4. Rendered HTML
+  set('nome_evento', $('h1').first().text(), 'html')
+  if (options.organizerHeadings) {
+    set('produtor', findSectionText($, options.organizerHeadings), 'html')
+  }
+
+  if (data.start_time) {
+    data.data_evento = formatEventDate(data.start_time, data.end_time)
+    sources.data_evento = sources.start_time
+  }
+
+  return {
+    data,
+    sources,
+    missing: REQUIRED_EVENT_FIELDS.filter(field => !data[field]),
+    address: extractAddress(jsonLd?.location) ||
+      extractAddress(nextEvent && (nextEvent.location || nextEvent.address || nextEvent.venue || nextEvent.geo_address_info))
+  }
+}
+
+/**
+ * Convert a parse result into adapter output for platforms without an LLM
+ * fallback: the event name is required, other gaps get the usual placeholders
+ */
+export function toExtractedEvent(result: StructuredParseResult): ExtractedEvent | null {
+  const { data, sources } = result
+  if (!data.nome_evento) return null
+
+  return {
+    nome_evento: data.nome_evento,
+    data_evento: data.data_evento || 'Data não informada',
+    local: data.local || 'Local não informado',
+    produtor: data.produtor || 'Organizador não informado',
+    organizer_name: data.produtor,
+    website: data.website,
+    start_at: data.start_time,
+    end_at: data.end_time,
+    timezone: data.timezone,
+    description: data.description,
+    address: result.address,
+    field_sources: sources as Record<string, FieldSource>
+  }
+}
+
+export function findJsonLdEvent($: cheerio.CheerioAPI): any {
+  const jsonLdScripts = $('script[type="application/ld+json"]')
+
+  for (let i = 0; i < jsonLdScripts.length; i++) {
+    try {
+      const jsonText = $(jsonLdScripts[i]).html()
+      if (jsonText) {
+        const jsonData = JSON.parse(jsonText)
+        const items = Array.isArray(jsonData) ? jsonData : (jsonData['@graph'] || [jsonData])
+        const event = items.find((item: any) => typeof item?.['@type'] === 'string' && item['@type'].endsWith('Event'))
+        if (event) {
+          return event
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to parse JSON-LD data:', error)
+    }
+  }
+
+  return null
+}
+
+export function findNextDataEvent($: cheerio.CheerioAPI): any {
+  const json = readNextData($)
+  return json ? findEventObject(json?.props?.pageProps ?? json, 0) : null
+}
+
+/**
+ * Parsed Next.js page data (script#__NEXT_DATA__), or null when absent
+ */
+export function readNextData($: cheerio.CheerioAPI): any {
+  const nextData = $('script#__NEXT_DATA__').html()
+  if (!nextData) return null
+
+  try {
+    return JSON.parse(nextData)
+  } catch (error) {
+    console.warn('Failed to parse __NEXT_DATA__:', error)
+    return null
+  }
+}
+
+// Depth-first search for the first object that looks like an event
+function findEventObject(node: any, depth: number): any {
+  if (!node || typeof node !== 'object' || depth > 8) return null
+
+  if (!Array.isArray(node)) {
+    const hasName = typeof node.name === 'string' || typeof node.title === 'string'
+    const hasStart = node.startDate || node.start_date || node.startDateTime || node.start_at
+    if (hasName && hasStart) {
+      return node
+    }
+  }
+
+  for (const value of Object.values(node)) {
+    const found = findEventObject(value, depth + 1)
+    if (found) return found
+  }
+
+  return null
+}
+
+/**
+ * Text of the first block after a heading such as "Sobre o produtor"
+ */
+export function findSectionText($: cheerio.CheerioAPI, headings: string[]): string | undefined {
+  const heading = $('h1, h2, h3, h4, h5, span, p, strong')
+    .filter((_, el) => headings.includes($(el).text().trim().toLowerCase().replace(/:$/, '')))
+    .first()
+
+  if (heading.length === 0) return undefined
+
+  // The name is the first non-empty text block after the heading
+  let candidate = heading.next()
+  for (let i = 0; i < 5 && candidate.length > 0; i++) {
+    const text = candidate.is('p, h3, h4, h5, span, a, strong') ? candidate.text().trim() : candidate.find('p, h3, h4, h5, a, strong').first().text().trim()
+    if (text) return text
+    candidate = candidate.next()
+  }
+
+  return heading.parent().find('p').first().text().trim() || undefined
+}
+
+export function extractName(value: any): string | undefined {
+  if (!value) return undefined
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return extractName(value[0])
+  return value.name || value.title || undefined
+}
+
+export function extractWebsite(value: any): string | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  if (Array.isArray(value)) return extractWebsite(value[0])
+
+  const sameAs = Array.isArray(value.sameAs) ? value.sameAs[0] : value.sameAs
+  const website = value.url || value.website || sameAs
+  // Profile pages on the ticketing platform itself are not the organizer's site
+  return typeof website === 'string' && !detectPlatform(website) ? website : undefined
+}
+
+export function formatLocation(location: any): string | undefined {
+  if (!location) return undefined
+  if (typeof location === 'string') return location
+  if (Array.isArray(location)) return formatLocation(location[0])
+
+  // Online events carry a VirtualLocation with only a URL
+  if (location['@type'] === 'VirtualLocation') return 'Evento online'
+
+  const address = location.address
+  const parts = [
+    location.name,
+    typeof address === 'string' ? address : address?.streetAddress,
+    address?.addressLocality || location.city,
+    address?.addressRegion || location.state || location.uf || location.region
+  ].filter(Boolean)
+
+  // Avoid "São Paulo, São Paulo" when the venue name is the city
+  return Array.from(new Set(parts)).join(', ') || undefined
+}
+
+/**
+ * Address parts of a schema.org Place (or a platform's own venue object),
+ * left for lib/location to normalize
+ */
+export function extractAddress(location: any): EventAddress | undefined {
+  if (!location || typeof location !== 'object') return undefined
+  if (Array.isArray(location)) return extractAddress(location[0])
+  if (location['@type'] === 'VirtualLocation') return undefined
+
+  const address = location.address && typeof location.address === 'object' ? location.address : location
+  const country = address.addressCountry || location.country
+  const text = (value: any) => typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+  const result: EventAddress = {
+    venue: text(location.name),
+    street: text(address.streetAddress) || text(location.address_line_1) || text(location.street),
+    city: text(address.addressLocality) || text(location.city),
+    state: text(address.addressRegion) || text(location.state) || text(location.uf) || text(location.region),
+    postal_code: text(address.postalCode) || text(location.zip_code) || text(location.postal_code),
+    country: text(country) || text(country?.name)
+  }
+
+  // Venue objects sometimes just repeat the city as their name
+  if (result.venue && result.venue === result.city) {
+    result.venue = undefined
+  }
+
+  const parts = Object.keys(result) as (keyof EventAddress)[]
+  parts.forEach(key => result[key] === undefined && delete result[key])
+  return parts.some(key => result[key]) ? result : undefined
+}
+
+export function stripHtml(value: any): string | undefined {
+  if (typeof value !== 'string') return undefined
+  return cheerio.load(value).text().trim() || undefined
+}
+
+// "2025-10-22T19:00:00-03:00" -> "-03:00"
+export function extractUtcOffset(value: any): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?([+-]\d{2}:?\d{2}|Z)$/)
+  return match ? match[1] : undefined
+}
+
+export function toIsoDate(value: any): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+// Same register the LLM prompt asks for, e.g. "22 out - 2025" or "15-16 nov - 2025"
+export function formatEventDate(startIso: string, endIso?: string): string {
+  const part = (iso: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(iso).toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo', ...options }).replace('.', '')
+
+  const startDay = part(startIso, { day: '2-digit' })
+  const startMonth = part(startIso, { month: 'short' })
+  const startYear = part(startIso, { year: 'numeric' })
+
+  if (!endIso) {
+    return `${startDay} ${startMonth} - ${startYear}`
+  }
+
+  const endDay = part(endIso, { day: '2-digit' })
+  const endMonth = part(endIso, { month: 'short' })
+
+  if (endDay === startDay && endMonth === startMonth) {
+    return `${startDay} ${startMonth} - ${startYear}`
+  }
+
+  if (endMonth === startMonth) {
+    return `${startDay}-${endDay} ${startMonth} - ${startYear}`
+  }
+
+  return `${startDay} ${startMonth} - ${endDay} ${endMonth} - ${startYear}`
+}
@@ -0,0 +1,234 @@
+import { SymplaScraper, SymplaField, FieldSource } from '../sympla-scraper'
+import { generateJson, getDefaultLlmClient, JsonSchema, LlmClient } from '../llm'
+import { isPlaceholderValue } from './field-confidence'
+import type { EventSourceAdapter, ExtractedEvent, FetchedPage, EventSourceContext } from './types'
+
+/**
+ * Sympla event pages (sympla.com.br/evento/<slug>/<id>).
+ * Structured data is read deterministically; the LLM only fills the fields
+ * the page did not expose.
+ */
+export const symplaAdapter: EventSourceAdapter = {
+  id: 'sympla',
+  name: 'Sympla',
+
+  matches(url) {
+    return url.hostname.includes('sympla.com.br')
+  },
+
+  extract(page, context) {
+    return extractFromSymplaHtml(page, context)
+  },
+
+  browserFallback: {
+    waitForSelector: 'h1, .event-title, [data-testid*="title"]'
+  }
+}
+
+/**
+ * Reads the event from the page's structured data and only asks the LLM for
+ * the fields that could not be found there
+ */
+async function extractFromSymplaHtml(page: FetchedPage, context: EventSourceContext): Promise<ExtractedEvent | null> {
+  const { data, sources, missing, address } = SymplaScraper.parseHtml(page.html)
+  console.log(`[SymplaScraper] Parsed ${page.url}:`, { sources, missing })
+
+  const fieldSources: Record<string, FieldSource> = { ...sources }
+  const fieldConfidence: Record<string, number> = {}
+  const eventData: ExtractedEvent = {
+    nome_evento: data.nome_evento || '',
+    data_evento: data.data_evento || '',
+    local: data.local || '',
+    produtor: data.produtor || '',
+    website: data.website,
+    start_at: data.start_time,
+    end_at: data.end_time,
+    timezone: data.timezone,
+    description: data.description,
+    address,
+    field_sources: fieldSources,
+    field_confidence: fieldConfidence
+  }
+
+  if (missing.length === 0) {
+    return eventData
+  }
+
+  context.onProgress?.({ url: page.url, stage: 'llm_extraction' })
+  const llmData = await extractWithLlm(context.llm || getDefaultLlmClient(), page.html, missing)
+  if (!llmData) {
+    return null
+  }
+
+  // "Não informado" stays out of the event; the empty field sends it to review
+  missing.forEach(field => {
+    const value = llmData.values[field]
+    if (value && !isPlaceholderValue(value)) {
+      eventData[field] = value
+      fieldSources[field] = 'llm'
+      fieldConfidence[field] = llmData.confidence[field]
+    }
+  })
+
+  return eventData
+}
+
+// Field descriptions for the answer schema
+const FIELD_DESCRIPTIONS: Record<SymplaField, string> = {
+  nome_evento: 'Event name',
+  data_evento: 'Event date in the page\'s Portuguese format, e.g. "22 out - 2025"',
+  local: 'Venue and city/state',
+  produtor: 'Organizing company from the "Sobre o produtor" section'
+}
+
+const MAX_FIELD_LENGTH = 300
+
+interface LlmFields {
+  values: Record<string, string>
+  // The model's own estimate, 0 to 1
+  confidence: Record<string, number>
+}
+
+async function extractWithLlm(llm: LlmClient, htmlContent: string, fields: SymplaField[]): Promise<LlmFields | null> {
+  const prompt = `
+You are analyzing a Sympla event page to extract event information. Sympla is a Brazilian event platform.
+
+Extract the following information from this HTML content and return ONLY valid JSON:
+
+Required fields:
+- nome_evento: The event name/title (look for h1, title tags, or event name elements)
+- data_evento: The event date (keep original Portuguese format like "22 out - 2025", "15-16 nov 2024", etc.)
+- local: The event location (city, state, venue name - combine if available)
+- produtor: The event producer/organizer/company name
+
+CRITICAL: FINDING THE PRODUCER/ORGANIZER:
+The producer information on Sympla pages is ALWAYS in a section titled "Sobre o produtor".
+
+SPECIFIC INSTRUCTIONS FOR PRODUCER:
+1. Look for the exact text "Sobre o produtor" in the HTML
+2. The producer name will be immediately after this section in a <p> tag with class containing "kPySeH" or similar
+3. Look for HTML patterns like: <p class="sc-224a3358-4 kPySeH">PRODUCER_NAME</p>
+4. It's typically the company/organization name, not a person's name
+5. Examples: "IBDiC", "IDP", "CBF Academy", "Câmara de Comércio Brasil-Canadá", etc.
+6. This is the most important field - spend extra effort finding it
+7. The producer name is usually the first <p> tag after the "Sobre o produtor" heading
+8. Do NOT use venue names or location names as the producer
+9. Look specifically for text patterns like "Câmara de Comércio", "Instituto", "Academia", company names
+
+SEARCH PATTERN:
+- Find "Sobre o produtor" text in HTML
+- Look for the next <p> tag with producer name
+- Extract the company/organization name from that paragraph
+- Use that as the "produtor" field
+
+HTML PARSING TIPS:
+- The producer name is typically in a paragraph tag immediately following the "Sobre o produtor" section
+- Look for patterns like: <h3>Sobre o produtor</h3>....<p class="...">PRODUCER_NAME</p>
+- The producer text is usually the main company/organization name in that section
+
+Rules:
+1. Look for Portuguese text and Brazilian date formats
+2. Event names are usually in h1 tags or prominent headings
+3. Dates might be in time elements, date classes, or near calendar icons
+4. Location might include venue name + city/state
+5. PRIORITIZE finding the actual organizing company name (not venue names)
+6. Return valid JSON only, no extra text
+7. If a field is not found, use "Não informado"
+8. In "confidence", rate each field from 0 to 1: 1 when the page states it plainly, around 0.5 when you had to infer it, 0 when it is "Não informado"
+
+Example output for different events:
+{
+  "nome_evento": "XIII Congresso Internacional IBDiC 2025",
+  "data_evento": "22 out - 2025", 
+  "local": "São Paulo, SP",
+  "produtor": "IBDiC",
+  "confidence": { "nome_evento": 1, "data_evento": 1, "local": 0.9, "produtor": 0.8 }
+}
+
+Example for Canada-Brazil chamber event:
+{
+  "nome_evento": "Summit Brasil-Canadá 2025",
+  "data_evento": "15 mar - 2025",
+  "local": "São Paulo, SP", 
+  "produtor": "Câmara de Comércio Brasil-Canadá"
+}
+
+Another example:
+{
+  "nome_evento": "Summit CBF Academy 2025",
+  "data_evento": "15 mar - 2025",
+  "local": "Rio de Janeiro, RJ", 
+  "produtor": "IDP"
+}
+
+${fields ? `The other fields were already extracted. Only these fields are needed: ${fields.join(', ')}
+` : ''}
+HTML Content (first 50000 chars, focusing on producer section):
+${htmlContent.substring(0, 50000)}
+`
+
+  const { data, error, attempts } = await generateJson<Record<string, any>>(llm, {
+    schemaName: 'sympla_event',
+    schema: buildFieldSchema(fields),
+    system: "You are an expert at extracting event information from HTML pages. Always return valid JSON with the requested fields.",
+    prompt,
+    validate: value => validateFields(value, fields)
+  })
+
+  if (!data) {
+    console.error(`Error with LLM extraction after ${attempts} attempt(s):`, error)
+    return null
+  }
+
+  console.log(`LLM extraction (${llm.provider}, ${llm.model}):`, data)
+
+  const values: LlmFields['values'] = {}
+  const confidence: LlmFields['confidence'] = {}
+  fields.forEach(field => {
+    values[field] = data[field]
+    confidence[field] = data.confidence[field]
+  })
+
+  return { values, confidence }
+}
+
+function buildFieldSchema(fields: SymplaField[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const confidence: Record<string, JsonSchema> = {}
+  fields.forEach(field => {
+    properties[field] = { type: 'string', description: FIELD_DESCRIPTIONS[field] }
+    confidence[field] = { type: 'number', description: `How sure you are of ${field}, from 0 to 1` }
+  })
+
+  properties.confidence = { type: 'object', properties: confidence, required: [...fields], additionalProperties: false }
+
+  return { type: 'object', properties, required: [...fields, 'confidence'], additionalProperties: false }
+}
+
+// Problems with an LLM answer, phrased for the model to fix them
+function validateFields(value: any, fields: SymplaField[]): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['the answer must be a JSON object']
+  }
+
+  const problems: string[] = []
+  fields.forEach(field => {
+    const text = value[field]
+    if (typeof text !== 'string' || !text.trim()) {
+      problems.push(`"${field}" must be a non-empty string (use "Não informado" when the page does not say)`)
+    } else if (text.length > MAX_FIELD_LENGTH) {
+      problems.push(`"${field}" is too long; give only the value`)
+    } else if (/<[a-z][^>]*>/i.test(text)) {
+      problems.push(`"${field}" contains HTML; give plain text`)
+    } else if (field === 'data_evento' && !/\d/.test(text) && !/não informad/i.test(text)) {
+      problems.push('"data_evento" must contain the day or year of the event')
+    }
+
+    const score = value.confidence?.[field]
+    if (typeof score !== 'number' || score < 0 || score > 1) {
+      problems.push(`"confidence.${field}" must be a number from 0 to 1`)
+    }
+  })
+
+  return problems
+}
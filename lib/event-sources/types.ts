@@ -0,0 +1,76 @@
+import type { EventSourceId } from './platforms'
+import type { FieldSource } from './structured-data'
+import type { IngestionProgressListener } from '../lead-ingestion'
+import type { EventDetails } from './event-details'
+import type { EventAddress } from '../location'
+import type { LlmClient } from '../llm'
+
+export type { EventSourceId, FieldSource }
+
+// Event fields every adapter produces; ticket prices, capacity, format and
+// categories (EventDetails) are added from the page by extractEvent
+export interface ExtractedEvent extends EventDetails {
+  nome_evento: string
+  data_evento: string
+  local: string
+  produtor: string
+  organizer_name?: string
+  website?: string
+  // ISO timestamps when the page exposes machine-readable dates
+  start_at?: string
+  end_at?: string
+  timezone?: string
+  description?: string
+  // Separate address parts when the page has them; `local` stays the display text
+  address?: EventAddress
+  // Which extraction path produced each field
+  field_sources?: Record<string, FieldSource>
+  // How sure the extraction is of each field, 0 to 1 (see field-confidence.ts)
+  field_confidence?: Record<string, number>
+}
+
+// Milliseconds spent on each step of a page download
+export interface FetchTimings {
+  // Waiting for a free browser context (browser path)
+  queued_ms?: number
+  // Starting the shared browser; 0 when it was already running
+  launch_ms?: number
+  navigation_ms?: number
+  // Waiting for the content selector or network idle
+  wait_ms?: number
+  total_ms: number
+}
+
+export interface FetchedPage {
+  url: string
+  html: string
+  via: 'fetch' | 'browser'
+  // JPEG of the rendered page, browser path only
+  screenshot?: Buffer
+  timings?: FetchTimings
+}
+
+export interface EventSourceContext {
+  onProgress?: IngestionProgressListener
+  // LLM for fields the page does not expose; defaults to the deployment's (see lib/llm)
+  llm?: LlmClient
+}
+
+/**
+ * A ticketing platform the importer can read events from.
+ * Adapters live in lib/event-sources/<platform>.ts and are listed in the registry.
+ */
+export interface EventSourceAdapter {
+  id: EventSourceId
+  name: string
+  // Whether the URL points to a single event page on this platform
+  matches(url: URL): boolean
+  // Download the event page; defaults to a plain fetch (see page-fetcher.ts)
+  fetchPage?(url: string, context: EventSourceContext): Promise<FetchedPage>
+  // Read the event from a downloaded page; null when the page has no usable data
+  extract(page: FetchedPage, context: EventSourceContext): Promise<ExtractedEvent | null>
+  // Render the page in a headless browser when fetching or extracting fails
+  browserFallback?: {
+    waitForSelector?: string
+  }
+}
@@ -1,4 +1,7 @@
 import * as cheerio from 'cheerio'
+import { extractAddress, formatLocation } from './event-sources/structured-data'
+import type { EventAddress } from './location'
+import { politeFetch } from './event-sources/polite-fetch'
 
 export interface EventbriteEventData {
   nome_evento: string
@@ -11,6 +14,16 @@ export interface EventbriteEventData {
   start_time?: string
   end_time?: string
   timezone?: string
+  address?: EventAddress
+  // Whether the fields came from JSON-LD or from scraping the rendered HTML
+  extraction_source?: 'json_ld' | 'html'
+}
+
+export interface EventbriteOrganizerProfile {
+  organizer_name: string
+  website?: string
+  organizer_url: string
+  event_urls: string[]
 }
 
 export class EventbriteScraper {
@@ -24,7 +37,7 @@ export class EventbriteScraper {
       console.log(`[EventbriteScraper] Fetching data from: ${url}`)
 
       // Fetch the page content
-      const response = await fetch(url, {
+      const response = await politeFetch(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
         }
@@ -35,27 +48,27 @@ export class EventbriteScraper {
       }
 
       const html = await response.text()
-      const $ = cheerio.load(html)
+      return this.parseEventHtml(html, url)
 
-      console.log(`[EventbriteScraper] Page content loaded, length: ${html.length} chars`)
-
-      // Extract structured data from JSON-LD if available
-      const jsonLdData = this.extractJsonLdData($)
-      if (jsonLdData) {
-        console.log('[EventbriteScraper] Using JSON-LD structured data')
-        const result = this.parseJsonLdData(jsonLdData, url)
-        console.log('[EventbriteScraper] Extracted data:', {
-          event: result.nome_evento,
-          location: result.local,
-          organizer: result.organizer_name,
-          date: result.data_evento
-        })
-        return result
-      }
+    } catch (error) {
+      console.error('Error scraping Eventbrite event:', error)
+      throw new Error(`Failed to extract event data: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Extracts the event from an already fetched event page (JSON-LD first, then HTML)
+   */
+  static parseEventHtml(html: string, url: string): EventbriteEventData {
+    const $ = cheerio.load(html)
 
-      console.log('[EventbriteScraper] No JSON-LD found, falling back to HTML scraping')
-      // Fallback to HTML scraping
-      const result = this.scrapeHtmlData($, url)
+    console.log(`[EventbriteScraper] Page content loaded, length: ${html.length} chars`)
+
+    // Extract structured data from JSON-LD if available
+    const jsonLdData = this.extractJsonLdData($)
+    if (jsonLdData) {
+      console.log('[EventbriteScraper] Using JSON-LD structured data')
+      const result: EventbriteEventData = { ...this.parseJsonLdData(jsonLdData, url), extraction_source: 'json_ld' }
       console.log('[EventbriteScraper] Extracted data:', {
         event: result.nome_evento,
         location: result.local,
@@ -63,11 +76,166 @@ export class EventbriteScraper {
         date: result.data_evento
       })
       return result
+    }
+
+    console.log('[EventbriteScraper] No JSON-LD found, falling back to HTML scraping')
+    // Fallback to HTML scraping
+    const result: EventbriteEventData = { ...this.scrapeHtmlData($, url), extraction_source: 'html' }
+    console.log('[EventbriteScraper] Extracted data:', {
+      event: result.nome_evento,
+      location: result.local,
+      organizer: result.organizer_name,
+      date: result.data_evento
+    })
+    return result
+  }
+
+  /**
+   * Lists the events published on an organizer profile (eventbrite.com/o/...).
+   * Upcoming events are always included; past events only when requested.
+   */
+  static async fetchOrganizerProfile(url: string, options: { includePast?: boolean } = {}): Promise<EventbriteOrganizerProfile> {
+    try {
+      if (!this.isEventbriteOrganizerUrl(url)) {
+        throw new Error('Invalid Eventbrite organizer URL')
+      }
+
+      console.log(`[EventbriteScraper] Fetching organizer profile: ${url}`)
+
+      const response = await politeFetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch Eventbrite organizer page: ${response.status}`)
+      }
+
+      const html = await response.text()
+      const $ = cheerio.load(html)
+
+      const organizerJsonLd = this.extractOrganizationJsonLd($)
+      let organizerName = organizerJsonLd?.name ||
+                          $('[data-testid="organizer-name"]').first().text().trim() ||
+                          $('h1').first().text().trim() ||
+                          $('meta[property="og:title"]').attr('content')?.trim() ||
+                          'Organizador não informado'
+      organizerName = organizerName
+        .replace(/^(by\s+|organizado por\s+|organized by\s+)/i, '')
+        .replace(/\s*\|\s*Eventbrite$/i, '')
+        .trim()
+
+      const website = organizerJsonLd?.url && !organizerJsonLd.url.includes('eventbrite.')
+        ? organizerJsonLd.url
+        : organizerJsonLd?.sameAs?.find?.((link: string) => !link.includes('eventbrite.'))
+
+      const eventUrls = new Set<string>()
+      const organizerId = this.extractOrganizerIdFromUrl(url)
+      const origin = new URL(url).origin
+
+      if (organizerId) {
+        const types = options.includePast ? ['future', 'past'] : ['future']
+        for (const type of types) {
+          const urls = await this.fetchOrganizerEventUrls(origin, organizerId, type)
+          urls.forEach(eventUrl => eventUrls.add(eventUrl))
+        }
+      }
+
+      // Fallback: event links rendered on the profile page itself (upcoming events only)
+      if (eventUrls.size === 0) {
+        console.log('[EventbriteScraper] Organizer events endpoint returned nothing, scraping profile links')
+        $('a[href*="/e/"]').each((_, el) => {
+          const href = $(el).attr('href')
+          if (!href) return
+          try {
+            const absolute = new URL(href, origin)
+            absolute.search = ''
+            absolute.hash = ''
+            if (this.extractEventIdFromUrl(absolute.toString())) {
+              eventUrls.add(absolute.toString())
+            }
+          } catch {
+            // Ignore malformed hrefs
+          }
+        })
+      }
+
+      console.log(`[EventbriteScraper] Organizer "${organizerName}" has ${eventUrls.size} events`)
+
+      return {
+        organizer_name: organizerName,
+        website,
+        organizer_url: url,
+        event_urls: Array.from(eventUrls)
+      }
 
     } catch (error) {
-      console.error('Error scraping Eventbrite event:', error)
-      throw new Error(`Failed to extract event data: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error('Error scraping Eventbrite organizer:', error)
+      throw new Error(`Failed to extract organizer events: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  private static async fetchOrganizerEventUrls(origin: string, organizerId: string, type: string): Promise<string[]> {
+    const urls: string[] = []
+    const maxPages = 10
+
+    for (let page = 1; page <= maxPages; page++) {
+      try {
+        const response = await politeFetch(`${origin}/org/${organizerId}/showmore/?page_size=50&type=${type}&page=${page}`, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+            'Accept': 'application/json'
+          }
+        })
+
+        if (!response.ok) {
+          console.warn(`[EventbriteScraper] Organizer events endpoint returned ${response.status}`)
+          break
+        }
+
+        const json = await response.json()
+        const events: any[] = json?.data?.events || []
+        events.forEach(event => {
+          if (event?.url) {
+            const eventUrl = new URL(event.url)
+            eventUrl.search = ''
+            urls.push(eventUrl.toString())
+          }
+        })
+
+        if (!json?.data?.has_next_page || events.length === 0) {
+          break
+        }
+      } catch (error) {
+        console.warn('[EventbriteScraper] Failed to list organizer events:', error)
+        break
+      }
+    }
+
+    return urls
+  }
+
+  private static extractOrganizationJsonLd($: cheerio.CheerioAPI): any {
+    const jsonLdScripts = $('script[type="application/ld+json"]')
+
+    for (let i = 0; i < jsonLdScripts.length; i++) {
+      try {
+        const jsonText = $(jsonLdScripts[i]).html()
+        if (jsonText) {
+          const jsonData = JSON.parse(jsonText)
+          const items = Array.isArray(jsonData) ? jsonData : [jsonData]
+          const organization = items.find(item => item['@type'] === 'Organization' || item['@type'] === 'Person')
+          if (organization) {
+            return organization
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to parse JSON-LD data:', error)
+      }
     }
+
+    return null
   }
 
   private static isEventbriteUrl(url: string): boolean {
@@ -104,44 +272,8 @@ export class EventbriteScraper {
     const startDate = jsonData.startDate ? new Date(jsonData.startDate) : null
     const endDate = jsonData.endDate ? new Date(jsonData.endDate) : null
     
-    // Extract location information - prioritize venue name
-    let location = 'Local não informado'
-    if (jsonData.location) {
-      if (typeof jsonData.location === 'string') {
-        location = jsonData.location
-      } else if (jsonData.location.name) {
-        // Use venue name as primary location (e.g., "Renaissance São Paulo Hotel")
-        location = jsonData.location.name
-        
-        // Optionally add city/state if venue name doesn't include it
-        if (jsonData.location.address) {
-          const address = jsonData.location.address
-          const locality = address.addressLocality || ''
-          const region = address.addressRegion || ''
-          
-          // Only add city/state if venue name doesn't already contain location info
-          if (locality && !location.toLowerCase().includes(locality.toLowerCase())) {
-            location += `, ${locality}`
-            if (region && region !== locality) {
-              location += `, ${region}`
-            }
-          }
-        }
-      } else if (jsonData.location.address) {
-        // Fallback to address if no venue name
-        const address = jsonData.location.address
-        if (typeof address === 'string') {
-          location = address
-        } else {
-          const parts = [
-            address.streetAddress,
-            address.addressLocality,
-            address.addressRegion
-          ].filter(Boolean)
-          location = parts.join(', ')
-        }
-      }
-    }
+    // Location text for display; the separate parts go to lib/location for normalization
+    const location = formatLocation(jsonData.location) || 'Local não informado'
 
     // Extract organizer information
     let organizerName = 'Organizador não informado'
@@ -183,7 +315,8 @@ export class EventbriteScraper {
       description: jsonData.description,
       start_time: startDate ? startDate.toISOString() : undefined,
       end_time: endDate ? endDate.toISOString() : undefined,
-      timezone: jsonData.startDate ? this.extractTimezone(jsonData.startDate) : undefined
+      timezone: jsonData.startDate ? this.extractTimezone(jsonData.startDate) : undefined,
+      address: extractAddress(jsonData.location)
     }
   }
 
@@ -383,6 +516,20 @@ export class EventbriteScraper {
     }
   }
 
+  static extractOrganizerIdFromUrl(url: string): string | null {
+    try {
+      // Organizer profiles have format: https://www.eventbrite.com/o/organizer-name-{id}
+      const match = url.match(/\/o\/(?:[^\/?#]*-)?(\d+)/i)
+      return match ? match[1] : null
+    } catch {
+      return null
+    }
+  }
+
+  static isEventbriteOrganizerUrl(url: string): boolean {
+    return this.isEventbriteUrl(url) && this.extractOrganizerIdFromUrl(url) !== null
+  }
+
   static isValidEventbriteUrl(url: string): boolean {
     return this.isEventbriteUrl(url) && this.extractEventIdFromUrl(url) !== null
   }
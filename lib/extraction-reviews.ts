@@ -0,0 +1,195 @@
+import { createClient } from '@supabase/supabase-js'
+import { DEFAULT_REVIEW_THRESHOLD, findLowConfidenceFields, ReviewedField } from './event-sources/field-confidence'
+import type { FetchedPage } from './event-sources'
+import type { EventData } from './lead-ingestion'
+import type { ExtractionReview, ExtractionReviewStatus } from './supabase'
+
+/**
+ * Extraction review queue
+ * Imports with a field the extractors are unsure of (see
+ * event-sources/field-confidence.ts) wait here instead of becoming leads; the
+ * lead is created when the user corrects and approves them
+ * (approveExtractionReview in lib/lead-ingestion.ts).
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+export const REVIEW_THRESHOLD = process.env.EXTRACTION_REVIEW_THRESHOLD
+  ? Number(process.env.EXTRACTION_REVIEW_THRESHOLD)
+  : DEFAULT_REVIEW_THRESHOLD
+
+// Everything but the page HTML
+const REVIEW_COLUMNS = 'review_id, user_id, status, url, event_key, source, event_data, low_fields, page_url, page_via, job_id, item_id, llm_usage_ids, lead_id, created_at, reviewed_at'
+
+/**
+ * Fields of an extraction that need a person to look at them; empty when the
+ * lead can be created right away
+ */
+export function getFieldsNeedingReview(eventData: EventData): ReviewedField[] {
+  return findLowConfidenceFields(eventData.field_confidence || {}, REVIEW_THRESHOLD)
+}
+
+/**
+ * Park an extraction in the queue
+ */
+export async function createExtractionReview(
+  eventData: EventData,
+  userId: string,
+  details: {
+    url: string
+    lowFields: string[]
+    pages: FetchedPage[]
+    job?: { job_id: string; item_id: string }
+    llmUsageIds?: string[]
+  }
+): Promise<{ data: ExtractionReview | null; error: any }> {
+  const page = details.pages[details.pages.length - 1]
+
+  const { data, error } = await supabase
+    .from('extraction_review')
+    .insert([{
+      user_id: userId,
+      url: details.url,
+      event_key: eventData.event_key,
+      source: eventData.source,
+      event_data: eventData,
+      low_fields: details.lowFields,
+      page_url: page?.url || null,
+      page_via: page?.via || null,
+      page_html: page?.html || null,
+      job_id: details.job?.job_id || null,
+      item_id: details.job?.item_id || null,
+      llm_usage_ids: details.llmUsageIds || []
+    }])
+    .select(REVIEW_COLUMNS)
+    .single()
+
+  return { data, error }
+}
+
+/**
+ * Reviews of a user, newest first
+ */
+export async function listExtractionReviews(
+  userId: string,
+  status: ExtractionReviewStatus = 'pending'
+): Promise<{ data: ExtractionReview[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('extraction_review')
+    .select(REVIEW_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', status)
+    .order('created_at', { ascending: false })
+
+  return { data, error }
+}
+
+export async function countPendingReviews(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('extraction_review')
+    .select('review_id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+
+  if (error) {
+    console.error('Error counting extraction reviews:', error)
+  }
+
+  return count || 0
+}
+
+/**
+ * A pending review with the page it was extracted from
+ */
+export async function getPendingReview(
+  reviewId: string,
+  userId: string
+): Promise<{ data: (ExtractionReview & { page_html: string | null }) | null; error: any }> {
+  const { data, error } = await supabase
+    .from('extraction_review')
+    .select(`${REVIEW_COLUMNS}, page_html`)
+    .eq('review_id', reviewId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .single()
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Review not found' } }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Event keys among `keys` that already wait in the user's queue
+ */
+export async function findPendingReviewKeys(keys: string[], userId: string): Promise<Set<string>> {
+  if (keys.length === 0) return new Set()
+
+  const { data, error } = await supabase
+    .from('extraction_review')
+    .select('event_key')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .in('event_key', keys)
+
+  if (error) {
+    console.error('Error checking pending reviews:', error)
+  }
+
+  return new Set((data || []).map(review => review.event_key))
+}
+
+/**
+ * Close a review and the job item it came from; the page HTML is dropped
+ * since the snapshot archive keeps it for approved events
+ */
+export async function closeExtractionReview(
+  reviewId: string,
+  userId: string,
+  outcome: { status: 'approved'; lead_id: string; event_data: EventData } | { status: 'rejected' }
+): Promise<{ data: ExtractionReview | null; error: any }> {
+  const { data, error } = await supabase
+    .from('extraction_review')
+    .update({ ...outcome, page_html: null, reviewed_at: new Date().toISOString() })
+    .eq('review_id', reviewId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select(REVIEW_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Review not found' } }
+  }
+
+  if (data.item_id) {
+    const { error: itemError } = await supabase
+      .from('ingestion_job_item')
+      .update(outcome.status === 'approved'
+        ? {
+          status: 'done',
+          lead_id: outcome.lead_id,
+          event_name: outcome.event_data.nome_evento,
+          organizer_name: outcome.event_data.organizer_name || outcome.event_data.produtor,
+          error: null
+        }
+        : { status: 'failed', error: 'Rejected in review' })
+      .eq('item_id', data.item_id)
+      .eq('status', 'review')
+
+    if (itemError) {
+      console.error(`Failed to update job item ${data.item_id} after review:`, itemError)
+    }
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,514 @@
+import { createClient } from '@supabase/supabase-js'
+import type {
+  IngestionJob, IngestionJobItem, IngestionJobSummary, IngestionItemStatus
+} from './supabase'
+import type { SymplaDiscoveryOptions } from './sympla-crawler'
+import { getEventKey } from './event-sources/event-urls'
+import {
+  ingestLink,
+  expandEventbriteOrganizer,
+  discoverSymplaLinks,
+  findExistingEventUrls,
+  isEventbriteOrganizerUrl,
+  OrganizerOverride,
+  IngestionProgressEvent,
+  LINK_CONCURRENCY
+} from './lead-ingestion'
+import { previewLeadImport, importSpreadsheetRow } from './lead-import'
+import type { ImportRow } from './lead-import-mapping'
+
+/**
+ * Background ingestion jobs
+ * Submitting links creates a job with one item per URL; workers claim queued
+ * items and run them through the lead ingestion pipeline, recording the
+ * outcome of each item so progress survives timeouts and closed tabs.
+ * Spreadsheet imports use the same jobs with one item per row.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// Items stuck in 'running' longer than this are considered abandoned
+const STALE_RUNNING_MS = 10 * 60 * 1000
+
+const EMPTY_COUNTS: Record<IngestionItemStatus, number> = {
+  queued: 0,
+  running: 0,
+  done: 0,
+  failed: 0,
+  duplicate: 0,
+  review: 0
+}
+
+// JOB CREATION
+
+/**
+ * Create a job for a list of pasted links
+ */
+export async function createLinksJob(
+  userId: string,
+  links: string[],
+  options: { includePastEvents?: boolean } = {}
+): Promise<{ data: IngestionJobSummary | null; error: any }> {
+  // The same event pasted twice with different URLs only becomes one item
+  const seenKeys = new Set<string>()
+  const uniqueLinks = links.map(link => link.trim()).filter(link => {
+    if (!link) return false
+    const key = getEventKey(link)
+    if (seenKeys.has(key)) return false
+    seenKeys.add(key)
+    return true
+  })
+
+  if (uniqueLinks.length === 0) {
+    return { data: null, error: { message: 'No links provided' } }
+  }
+
+  const existing = await findExistingEventUrls(uniqueLinks, userId)
+
+  return createJob(userId, 'links', { includePastEvents: !!options.includePastEvents }, uniqueLinks.map(url => ({
+    url,
+    status: existing.has(url) ? 'duplicate' as const : 'queued' as const,
+    error: existing.has(url) ? `URL already exists: ${url}` : null
+  })))
+}
+
+/**
+ * Discover events on a Sympla listing and create a job with one item per event
+ */
+export async function createDiscoveryJob(
+  userId: string,
+  discovery: SymplaDiscoveryOptions
+): Promise<{ data: IngestionJobSummary | null; error: any }> {
+  let discovered
+  try {
+    discovered = await discoverSymplaLinks(discovery, userId)
+  } catch (error) {
+    return { data: null, error: { message: `Failed to discover events: ${error instanceof Error ? error.message : 'Unknown error'}` } }
+  }
+
+  const items = [
+    ...discovered.links.map(url => ({ url, status: 'queued' as const, error: null })),
+    ...discovered.existingLinks.map(url => ({ url, status: 'duplicate' as const, error: `URL already exists: ${url}` }))
+  ]
+
+  return createJob(userId, 'sympla_discovery', { ...discovery, pagesVisited: discovered.pagesVisited }, items)
+}
+
+/**
+ * Create a job for the rows of a spreadsheet import. Rows the preview marks
+ * as duplicates are recorded as such; invalid rows only count in the job's
+ * options, since the import page already listed their errors.
+ */
+export async function createSpreadsheetJob(
+  userId: string,
+  rows: ImportRow[]
+): Promise<{ data: IngestionJobSummary | null; error: any }> {
+  const { data: previews, error } = await previewLeadImport(rows, userId)
+
+  if (error || !previews) {
+    return { data: null, error: error || { message: 'Failed to check the rows' } }
+  }
+
+  const items = previews
+    .filter(preview => preview.status !== 'invalid')
+    .map(preview => ({
+      url: preview.row.event_url,
+      status: preview.status === 'duplicate' ? 'duplicate' as const : 'queued' as const,
+      error: preview.status === 'duplicate' ? preview.errors.join('; ') : null,
+      options: { row: preview.row },
+      event_name: preview.row.nome_evento,
+      organizer_name: preview.organizer_name
+    }))
+
+  const invalidRows = previews.length - items.length
+  if (items.length === 0) {
+    return { data: null, error: { message: 'No valid rows to import' } }
+  }
+
+  return createJob(userId, 'spreadsheet', { invalidRows }, items)
+}
+
+async function createJob(
+  userId: string,
+  source: IngestionJob['source'],
+  options: Record<string, any>,
+  items: {
+    url: string
+    status: IngestionItemStatus
+    error: string | null
+    options?: Record<string, any>
+    event_name?: string
+    organizer_name?: string
+  }[]
+): Promise<{ data: IngestionJobSummary | null; error: any }> {
+  const hasQueued = items.some(item => item.status === 'queued')
+
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_job')
+    .insert([{
+      user_id: userId,
+      source,
+      options,
+      status: hasQueued ? 'queued' : 'completed',
+      finished_at: hasQueued ? null : new Date().toISOString()
+    }])
+    .select()
+    .single()
+
+  if (jobError || !job) {
+    return { data: null, error: jobError || { message: 'Failed to create job' } }
+  }
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('ingestion_job_item')
+      .insert(items.map(item => ({
+        job_id: job.job_id,
+        user_id: userId,
+        url: item.url,
+        status: item.status,
+        error: item.error,
+        options: item.options || {},
+        event_name: item.event_name || null,
+        organizer_name: item.organizer_name || null,
+        finished_at: item.status === 'duplicate' ? new Date().toISOString() : null
+      })))
+
+    if (itemsError) {
+      await supabase.from('ingestion_job').delete().eq('job_id', job.job_id)
+      return { data: null, error: itemsError }
+    }
+  }
+
+  return { data: summarize(job, items), error: null }
+}
+
+// JOB QUERIES
+
+/**
+ * Recent jobs for a user with per-status item counts
+ */
+export async function listIngestionJobs(userId: string, limit = 10): Promise<{ data: IngestionJobSummary[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('ingestion_job')
+    .select('*, items:ingestion_job_item(status)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  return {
+    data: (data || []).map(({ items, ...job }: any) => summarize(job, items || [])),
+    error: null
+  }
+}
+
+/**
+ * A single job with all of its items
+ */
+export async function getIngestionJob(
+  jobId: string,
+  userId: string
+): Promise<{ data: { job: IngestionJobSummary; items: IngestionJobItem[] } | null; error: any }> {
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_job')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('user_id', userId)
+    .single()
+
+  if (jobError || !job) {
+    return { data: null, error: jobError || { message: 'Job not found' } }
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('ingestion_job_item')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true })
+
+  if (itemsError) {
+    return { data: null, error: itemsError }
+  }
+
+  return { data: { job: summarize(job, items || []), items: items || [] }, error: null }
+}
+
+// RETRY
+
+/**
+ * Put a failed item back in the queue
+ */
+export async function retryIngestionItem(itemId: string, userId: string): Promise<{ data: IngestionJobItem | null; error: any }> {
+  const { data: item, error } = await supabase
+    .from('ingestion_job_item')
+    .update({ status: 'queued', error: null, started_at: null, finished_at: null })
+    .eq('item_id', itemId)
+    .eq('user_id', userId)
+    .eq('status', 'failed')
+    .select()
+    .single()
+
+  if (error || !item) {
+    return { data: null, error: error || { message: 'Item not found or not failed' } }
+  }
+
+  await supabase
+    .from('ingestion_job')
+    .update({ status: 'queued', finished_at: null })
+    .eq('job_id', item.job_id)
+    .eq('status', 'completed')
+
+  return { data: item, error: null }
+}
+
+// WORKER
+
+/**
+ * Process queued items until the time budget runs out, LINK_CONCURRENCY at a time.
+ * With a jobId only that job's items are processed; without one the worker
+ * drains the global queue (used by the scheduled worker).
+ */
+export async function runIngestionWorker(options: {
+  jobId?: string
+  budgetMs: number
+  onProgress?: (itemId: string, event: IngestionProgressEvent) => void
+}): Promise<{ processed: number }> {
+  const deadline = Date.now() + options.budgetMs
+  let processed = 0
+
+  // Each lane claims and processes items on its own until the queue is empty
+  const lane = async () => {
+    while (Date.now() < deadline) {
+      const item = await claimNextItem(options.jobId)
+      if (!item) break
+
+      await processItem(item, event => options.onProgress?.(item.item_id, event))
+      await refreshJobStatus(item.job_id)
+      processed++
+    }
+  }
+
+  const lanes: Promise<void>[] = []
+  for (let i = 0; i < LINK_CONCURRENCY; i++) {
+    lanes.push(lane())
+  }
+  await Promise.all(lanes)
+
+  return { processed }
+}
+
+async function claimNextItem(jobId?: string): Promise<IngestionJobItem | null> {
+  // Try to use the database function first (safe with concurrent workers)
+  const { data, error } = await supabase.rpc('claim_ingestion_items', {
+    p_job_id: jobId || null,
+    p_limit: 1
+  })
+
+  if (!error) {
+    const item = Array.isArray(data) ? data[0] : null
+    if (item) await markJobRunning(item.job_id)
+    return item || null
+  }
+
+  // Fallback: select the oldest claimable item and flip it to running
+  const staleBefore = new Date(Date.now() - STALE_RUNNING_MS).toISOString()
+  let query = supabase
+    .from('ingestion_job_item')
+    .select('*')
+    .or(`status.eq.queued,and(status.eq.running,started_at.lt.${staleBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (jobId) {
+    query = query.eq('job_id', jobId)
+  }
+
+  const { data: candidates, error: findError } = await query
+  if (findError || !candidates || candidates.length === 0) {
+    return null
+  }
+
+  const candidate = candidates[0]
+  const { data: claimed } = await supabase
+    .from('ingestion_job_item')
+    .update({
+      status: 'running',
+      attempts: candidate.attempts + 1,
+      started_at: new Date().toISOString(),
+      error: null
+    })
+    .eq('item_id', candidate.item_id)
+    .eq('status', candidate.status)
+    .select()
+    .maybeSingle()
+
+  if (claimed) await markJobRunning(claimed.job_id)
+  return claimed || null
+}
+
+async function markJobRunning(jobId: string) {
+  await supabase
+    .from('ingestion_job')
+    .update({ status: 'running' })
+    .eq('job_id', jobId)
+    .eq('status', 'queued')
+}
+
+async function processItem(item: IngestionJobItem, onProgress: (event: IngestionProgressEvent) => void) {
+  console.log(`[IngestionJobs] Processing item ${item.item_id}: ${item.url}`)
+
+  if (item.options?.row) {
+    await processSpreadsheetRow(item, onProgress)
+    return
+  }
+
+  // Organizer profiles expand into one queued item per event
+  if (isEventbriteOrganizerUrl(item.url)) {
+    onProgress({ url: item.url, stage: 'fetching' })
+    try {
+      const { override, newUrls, existingUrls } = await expandEventbriteOrganizer(
+        item.url,
+        item.user_id,
+        await jobIncludesPastEvents(item.job_id)
+      )
+
+      const children = [
+        ...newUrls.map(url => ({ url, status: 'queued', error: null, finished_at: null })),
+        ...existingUrls.map(url => ({ url, status: 'duplicate', error: `URL already exists: ${url}`, finished_at: new Date().toISOString() }))
+      ]
+
+      if (children.length > 0) {
+        const { error } = await supabase
+          .from('ingestion_job_item')
+          .insert(children.map(child => ({
+            ...child,
+            job_id: item.job_id,
+            user_id: item.user_id,
+            options: { override }
+          })))
+
+        if (error) throw error
+      }
+
+      const error = children.length > 0 ? null : `No events found for Eventbrite organizer: ${item.url}`
+      await finishItem(item.item_id, {
+        status: error ? 'failed' : 'done',
+        organizer_name: override.organizer_name,
+        error
+      })
+      onProgress({
+        url: item.url,
+        stage: error ? 'failed' : 'saved',
+        organizer_name: override.organizer_name,
+        error: error || undefined
+      })
+    } catch (error) {
+      console.error(`[IngestionJobs] Failed to expand organizer ${item.url}:`, error)
+      await finishItem(item.item_id, { status: 'failed', error: `Failed to load Eventbrite organizer: ${item.url}` })
+      onProgress({ url: item.url, stage: 'failed', error: `Failed to load Eventbrite organizer: ${item.url}` })
+    }
+    return
+  }
+
+  const override: OrganizerOverride | undefined = item.options?.override
+  const outcome = await ingestLink(item.url, item.user_id, override, onProgress, {
+    job_id: item.job_id,
+    item_id: item.item_id
+  })
+
+  if (outcome.status === 'done') {
+    await finishItem(item.item_id, {
+      status: 'done',
+      lead_id: outcome.leadId,
+      event_name: outcome.eventData.nome_evento,
+      organizer_name: outcome.eventData.organizer_name || outcome.eventData.produtor
+    })
+  } else if (outcome.status === 'review') {
+    // Finished once the review is approved or rejected (see lib/extraction-reviews.ts)
+    await finishItem(item.item_id, {
+      status: 'review',
+      event_name: outcome.eventData.nome_evento || null,
+      organizer_name: outcome.eventData.organizer_name || outcome.eventData.produtor || null
+    })
+  } else {
+    await finishItem(item.item_id, { status: outcome.status, error: outcome.error })
+  }
+}
+
+// Spreadsheet rows carry their values, so no page is fetched
+async function processSpreadsheetRow(item: IngestionJobItem, onProgress: (event: IngestionProgressEvent) => void) {
+  const outcome = await importSpreadsheetRow(item.options.row as ImportRow, item.user_id)
+
+  if (outcome.status === 'created') {
+    await finishItem(item.item_id, { status: 'done', lead_id: outcome.lead.id })
+    onProgress({ url: item.url, stage: 'saved', lead_id: outcome.lead.id })
+    return
+  }
+
+  const status = outcome.status === 'duplicate' ? 'duplicate' : 'failed'
+  const error = outcome.errors.join('; ')
+  await finishItem(item.item_id, { status, error })
+  onProgress({ url: item.url, stage: status, error })
+}
+
+async function jobIncludesPastEvents(jobId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('ingestion_job')
+    .select('options')
+    .eq('job_id', jobId)
+    .single()
+
+  return !!data?.options?.includePastEvents
+}
+
+async function finishItem(itemId: string, update: Partial<IngestionJobItem>) {
+  const { error } = await supabase
+    .from('ingestion_job_item')
+    .update({ ...update, finished_at: new Date().toISOString() })
+    .eq('item_id', itemId)
+
+  if (error) {
+    console.error(`[IngestionJobs] Failed to record result for item ${itemId}:`, error)
+  }
+}
+
+async function refreshJobStatus(jobId: string) {
+  const { count } = await supabase
+    .from('ingestion_job_item')
+    .select('item_id', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .in('status', ['queued', 'running'])
+
+  if (count === 0) {
+    await supabase
+      .from('ingestion_job')
+      .update({ status: 'completed', finished_at: new Date().toISOString() })
+      .eq('job_id', jobId)
+  }
+}
+
+function summarize(job: IngestionJob, items: { status: IngestionItemStatus }[]): IngestionJobSummary {
+  const itemCounts = { ...EMPTY_COUNTS }
+  items.forEach(item => {
+    itemCounts[item.status]++
+  })
+
+  return {
+    ...job,
+    total_items: items.length,
+    item_counts: itemCounts
+  }
+}
@@ -0,0 +1,195 @@
+import { validateContact } from './contact-utils'
+import { isPlaceholderValue } from './event-sources/field-confidence'
+
+/**
+ * Column mapping for spreadsheet imports
+ * Which spreadsheet column feeds which lead field, guessed from the header
+ * row and adjustable on the import page, plus the per-row validation shown in
+ * the preview. Client-safe: the page and lib/lead-import.ts share it.
+ */
+
+export const IMPORT_FIELDS = [
+  'nome_evento',
+  'data_evento',
+  'local',
+  'produtor',
+  'website',
+  'contact_name',
+  'contact_email',
+  'contact_position',
+  'event_url'
+] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  nome_evento: 'Nome do evento',
+  data_evento: 'Data',
+  local: 'Local',
+  produtor: 'Organizador',
+  website: 'Site do organizador',
+  contact_name: 'Nome do contato',
+  contact_email: 'Email do contato',
+  contact_position: 'Cargo do contato',
+  event_url: 'URL do evento'
+}
+
+// Fields a row cannot be imported without
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['nome_evento', 'produtor']
+
+// Spreadsheet column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export type ImportRow = Record<ImportField, string> & {
+  // Line in the spreadsheet, header included, for messages
+  row_number: number
+}
+
+// Header names (normalized, see normalizeHeader) that usually hold each field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  nome_evento: ['evento', 'nome do evento', 'nome evento', 'congresso', 'titulo', 'titulo do evento', 'event', 'event name'],
+  data_evento: ['data', 'data do evento', 'datas', 'quando', 'inicio', 'data de inicio', 'date'],
+  local: ['local', 'local do evento', 'cidade', 'localizacao', 'endereco', 'onde', 'location', 'venue'],
+  produtor: ['organizador', 'organizadora', 'organizacao', 'produtor', 'produtora', 'realizacao', 'promotor', 'entidade', 'instituicao', 'organizer'],
+  website: ['site', 'website', 'site do organizador', 'site organizador', 'homepage'],
+  contact_name: ['contato', 'nome do contato', 'responsavel', 'contact', 'contact name'],
+  contact_email: ['email', 'e mail', 'email do contato', 'e mail do contato', 'contact email'],
+  contact_position: ['cargo', 'funcao', 'posicao', 'cargo do contato', 'position', 'job title'],
+  event_url: ['url', 'link', 'url do evento', 'link do evento', 'site do evento', 'pagina do evento', 'sympla', 'event url']
+}
+
+// "E-mail do Responsável" -> "e mail do responsavel"
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Mapping guessed from the header row: exact header names first, then
+ * headers starting with one of the names ("Email do responsável" is an
+ * email, not a contact name), then headers containing one
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+
+  const assign = (matches: (header: string, alias: string) => boolean) => {
+    IMPORT_FIELDS.forEach(field => {
+      if (mapping[field] !== undefined) return
+
+      const column = normalized.findIndex((header, index) =>
+        !used.has(index) && header !== '' && HEADER_ALIASES[field].some(alias => matches(header, alias))
+      )
+
+      if (column !== -1) {
+        mapping[field] = column
+        used.add(column)
+      }
+    })
+  }
+
+  assign((header, alias) => header === alias)
+  assign((header, alias) => header.indexOf(`${alias} `) === 0)
+  assign((header, alias) => ` ${header} `.indexOf(` ${alias} `) !== -1)
+
+  return mapping
+}
+
+// "www.abc.org.br" -> "https://www.abc.org.br"
+function normalizeUrl(value: string): string {
+  if (!value || /^https?:\/\//i.test(value)) return value
+  return /^[\w-]+(\.[\w-]+)+([/?#]|$)/.test(value) ? `https://${value}` : value
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.indexOf('.') !== -1
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Rows of the spreadsheet (header excluded) as lead fields; rows with no
+ * mapped value are dropped
+ */
+export function applyColumnMapping(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+  const imported: ImportRow[] = []
+
+  rows.forEach((cells, index) => {
+    const values: Partial<Record<ImportField, string>> = {}
+    IMPORT_FIELDS.forEach(field => {
+      const column = mapping[field]
+      if (column !== undefined) values[field] = cells[column]
+    })
+
+    const row = normalizeImportRow(values, index + 2)
+    if (IMPORT_FIELDS.some(field => row[field] !== '')) {
+      imported.push(row)
+    }
+  })
+
+  return imported
+}
+
+/**
+ * Trimmed values with websites made absolute and emails lowercased; the new
+ * lead form goes through here too
+ */
+export function normalizeImportRow(values: Partial<Record<ImportField, string | null>>, rowNumber: number): ImportRow {
+  const row = { row_number: rowNumber } as ImportRow
+
+  IMPORT_FIELDS.forEach(field => {
+    row[field] = (values[field] || '').replace(/\s+/g, ' ').trim()
+  })
+
+  row.website = normalizeUrl(row.website)
+  row.event_url = normalizeUrl(row.event_url)
+  row.contact_email = row.contact_email.toLowerCase()
+  return row
+}
+
+export function hasContact(row: ImportRow): boolean {
+  return Boolean(row.contact_name || row.contact_email || row.contact_position)
+}
+
+/**
+ * Problems that keep a row from being imported, in Portuguese for the preview
+ */
+export function validateImportRow(row: ImportRow): string[] {
+  const errors: string[] = []
+
+  if (isPlaceholderValue(row.nome_evento)) {
+    errors.push('Informe o nome do evento')
+  }
+
+  // "Não informado" would become an organizer every such event ends up under
+  if (isPlaceholderValue(row.produtor)) {
+    errors.push('Informe o organizador')
+  }
+
+  if (row.event_url && !isHttpUrl(row.event_url)) {
+    errors.push('URL do evento inválida')
+  }
+
+  if (row.website && !isHttpUrl(row.website)) {
+    errors.push('Site do organizador inválido')
+  }
+
+  if (hasContact(row)) {
+    const contact = validateContact({
+      name: row.contact_name || null,
+      email: row.contact_email || null,
+      position: row.contact_position || null
+    })
+    errors.push(...contact.errors)
+  }
+
+  return errors
+}
@@ -0,0 +1,307 @@
+import { createClient } from '@supabase/supabase-js'
+import { saveLead, findExistingEventUrls, LeadEventData } from './lead-ingestion'
+import { findOrganizerMatch, normalizeOrganizerName, OrganizerCandidate, OrganizerMatchReason, STRONG_MATCH_REASONS } from './organizer-matching'
+import { canonicalizeEventUrl, getEventKey } from './event-sources/event-urls'
+import { detectPlatform } from './event-sources/platforms'
+import { REVIEWED_FIELDS } from './event-sources/field-confidence'
+import type { FieldSource } from './event-sources/structured-data'
+import { ImportField, ImportRow, hasContact, normalizeImportRow, validateImportRow } from './lead-import-mapping'
+import type { LeadOrigin } from './lead-origins'
+
+/**
+ * Leads entered by people: spreadsheet imports and the new lead form
+ * Rows mapped on the import page (see lead-import-mapping.ts) are checked
+ * against the user's organizers and events, previewed, and saved through the
+ * same organizer/event/lead path as the URL importer. Imports run as
+ * ingestion jobs, one item per row; the new lead form sends a single row. Values come from a person, so every field is recorded as
+ * 'manual'; event pages are not fetched.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid'
+
+export interface ImportRowPreview {
+  row: ImportRow
+  status: ImportRowStatus
+  // Validation errors, or why the row is a duplicate
+  errors: string[]
+  // Name the organizer is saved under: the existing organizer's on a strong match
+  organizer_name: string
+  // Existing organizer the event goes under; null when the import creates it
+  organizer_id: string | null
+  organizer_match: OrganizerMatchReason | null
+  // Existing organizer that only looks similar, left for the organizers page to merge
+  possible_organizer: string | null
+}
+
+// Identity of an event without a URL: its name under its organizer
+function eventNameKey(organizerName: string, eventName: string): string {
+  return `${normalizeOrganizerName(organizerName)}|${normalizeOrganizerName(eventName)}`
+}
+
+/**
+ * What importing the rows would do, without saving anything
+ */
+export async function previewLeadImport(
+  rows: ImportRow[],
+  userId: string
+): Promise<{ data: ImportRowPreview[] | null; error: any }> {
+  const { data: organizers, error: organizerError } = await supabase
+    .from('organizer')
+    .select('organizer_id, name, website')
+    .eq('user_id', userId)
+
+  if (organizerError) {
+    return { data: null, error: organizerError }
+  }
+
+  const urls = rows.map(row => row.event_url).filter(url => url)
+  const existingUrls = await findExistingEventUrls(urls, userId)
+
+  // Organizers created by earlier rows take part in matching with an empty ID
+  const candidates: OrganizerCandidate[] = (organizers || []) as OrganizerCandidate[]
+  const seenEvents = new Set<string>()
+  const previews: ImportRowPreview[] = []
+
+  rows.forEach(row => {
+    const errors = validateImportRow(row)
+    const preview: ImportRowPreview = {
+      row,
+      status: 'new',
+      errors,
+      organizer_name: row.produtor,
+      organizer_id: null,
+      organizer_match: null,
+      possible_organizer: null
+    }
+    previews.push(preview)
+
+    if (errors.length > 0) {
+      preview.status = 'invalid'
+      return
+    }
+
+    const match = findOrganizerMatch({ name: row.produtor, website: row.website || null }, candidates)
+    if (match && STRONG_MATCH_REASONS.indexOf(match.reason) !== -1) {
+      preview.organizer_name = match.organizer.name
+      preview.organizer_id = match.organizer.organizer_id || null
+      preview.organizer_match = match.reason
+    } else {
+      if (match?.organizer.organizer_id) {
+        preview.possible_organizer = match.organizer.name
+      }
+      candidates.push({ organizer_id: '', name: row.produtor, website: row.website || null })
+    }
+
+    const key = row.event_url
+      ? getEventKey(row.event_url)
+      : eventNameKey(preview.organizer_name, row.nome_evento)
+
+    if (row.event_url && existingUrls.has(row.event_url)) {
+      preview.status = 'duplicate'
+      preview.errors = ['Evento já cadastrado']
+    } else if (seenEvents.has(key)) {
+      preview.status = 'duplicate'
+      preview.errors = ['Evento repetido na planilha']
+    }
+
+    seenEvents.add(key)
+  })
+
+  await markExistingEventsByName(previews, userId)
+
+  return { data: previews, error: null }
+}
+
+// Rows without a URL are duplicates when their organizer already has an event of the same name
+async function markExistingEventsByName(previews: ImportRowPreview[], userId: string) {
+  const pending = previews.filter(preview => preview.status === 'new' && !preview.row.event_url && preview.organizer_id)
+  if (pending.length === 0) return
+
+  const organizerIds = Array.from(new Set(pending.map(preview => preview.organizer_id as string)))
+  const { data: events, error } = await supabase
+    .from('event')
+    .select('organizer_id, nome_evento')
+    .eq('user_id', userId)
+    .in('organizer_id', organizerIds)
+
+  if (error) {
+    console.error('Error checking existing events by name:', error)
+    return
+  }
+
+  const existing = new Set((events || []).map(event => `${event.organizer_id}|${normalizeOrganizerName(event.nome_evento || '')}`))
+
+  pending.forEach(preview => {
+    if (existing.has(`${preview.organizer_id}|${normalizeOrganizerName(preview.row.nome_evento)}`)) {
+      preview.status = 'duplicate'
+      preview.errors = ['Evento já cadastrado para este organizador']
+    }
+  })
+}
+
+export type ManualLeadOutcome =
+  | { status: 'created'; lead: any }
+  | { status: 'invalid' | 'duplicate' | 'failed'; errors: string[] }
+
+/**
+ * Create one lead from the new lead form. `organizerId` is the organizer
+ * picked in the autocomplete; without it the typed name is matched like a
+ * spreadsheet row.
+ */
+export async function createManualLead(
+  values: Partial<Record<ImportField, string | null>>,
+  origin: LeadOrigin,
+  userId: string,
+  organizerId?: string | null
+): Promise<ManualLeadOutcome> {
+  if (organizerId) {
+    const { data: organizer } = await supabase
+      .from('organizer')
+      .select('name, website')
+      .eq('organizer_id', organizerId)
+      .eq('user_id', userId)
+      .single()
+
+    if (!organizer) {
+      return { status: 'invalid', errors: ['Organizador não encontrado'] }
+    }
+
+    values = { ...values, produtor: organizer.name, website: values.website || organizer.website }
+  }
+
+  const { data: previews, error } = await previewLeadImport([normalizeImportRow(values, 1)], userId)
+
+  if (error || !previews) {
+    console.error('Error checking manual lead:', error)
+    return { status: 'failed', errors: ['Erro ao verificar o lead'] }
+  }
+
+  const [preview] = previews
+  if (preview.status !== 'new') {
+    return { status: preview.status, errors: preview.errors }
+  }
+
+  const { leadId, lead, error: saveError } = await createLeadFromRow(preview, origin, userId)
+
+  if (saveError || !leadId) {
+    console.error('Failed to create manual lead:', saveError)
+    return { status: 'failed', errors: [saveError || 'Unknown error'] }
+  }
+
+  return { status: 'created', lead: { ...lead, lead_origin: origin } }
+}
+
+/**
+ * Save one row of a spreadsheet import job (see createSpreadsheetJob in
+ * ingestion-jobs.ts). The row is checked again, so a row that became a
+ * duplicate after the preview is not imported twice.
+ */
+export async function importSpreadsheetRow(row: ImportRow, userId: string): Promise<ManualLeadOutcome> {
+  return createManualLead(row, 'spreadsheet', userId)
+}
+
+// Organizer, event and lead through saveLead, then the contact and the origin
+async function createLeadFromRow(
+  preview: ImportRowPreview,
+  origin: LeadOrigin,
+  userId: string
+): Promise<{ leadId: string | null; lead: any; error: string | null }> {
+  const { row } = preview
+  const { leadId, lead, error } = await saveLead(toLeadEventData(row, preview.organizer_name), userId)
+
+  if (error || !leadId) {
+    return { leadId: null, lead: null, error }
+  }
+
+  const { error: originError } = await supabase
+    .from('leads')
+    .update({ origin })
+    .eq('id', leadId)
+
+  if (originError) {
+    console.error(`Failed to record the origin of lead ${leadId}:`, originError)
+  }
+
+  if (hasContact(row)) {
+    await addImportedContact(leadId, row, userId)
+  }
+
+  return { leadId, lead, error: null }
+}
+
+function toLeadEventData(row: ImportRow, organizerName: string): LeadEventData {
+  const eventUrl = row.event_url ? canonicalizeEventUrl(row.event_url) : null
+  const fieldSources: Record<string, FieldSource> = {}
+  const fieldConfidence: Record<string, number> = {}
+
+  REVIEWED_FIELDS.forEach(field => {
+    if (!row[field]) return
+    fieldSources[field] = 'manual'
+    fieldConfidence[field] = 1
+  })
+
+  return {
+    nome_evento: row.nome_evento,
+    data_evento: row.data_evento,
+    local: row.local,
+    produtor: organizerName,
+    organizer_name: organizerName,
+    website: row.website || undefined,
+    event_url: eventUrl,
+    event_key: eventUrl ? getEventKey(eventUrl) : null,
+    source: eventUrl ? detectPlatform(eventUrl)?.id || null : null,
+    field_sources: fieldSources,
+    field_confidence: fieldConfidence
+  }
+}
+
+// Add the row's contact to the lead's organizer unless it already has one
+// with the same email (or name, for contacts without email)
+async function addImportedContact(leadId: string, row: ImportRow, userId: string) {
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('organizer_id')
+    .eq('id', leadId)
+    .single()
+
+  if (!lead?.organizer_id) return
+
+  if (row.contact_email || row.contact_name) {
+    const query = supabase
+      .from('contact')
+      .select('contact_id')
+      .eq('organizer_id', lead.organizer_id)
+
+    const { data: existing } = await (row.contact_email
+      ? query.eq('email', row.contact_email)
+      : query.ilike('name', row.contact_name)
+    ).limit(1)
+
+    if (existing && existing.length > 0) return
+  }
+
+  const { error } = await supabase
+    .from('contact')
+    .insert({
+      name: row.contact_name || null,
+      email: row.contact_email || null,
+      position: row.contact_position || null,
+      organizer_id: lead.organizer_id,
+      user_id: userId
+    })
+
+  if (error) {
+    console.error(`Failed to add contact for lead ${leadId}:`, error)
+  }
+}
@@ -0,0 +1,649 @@
+import { createClient } from '@supabase/supabase-js'
+import { EventbriteScraper } from './eventbrite-scraper'
+import { SymplaCrawler, SymplaDiscoveryOptions } from './sympla-crawler'
+import { parsePtBrDateRange } from './pt-br-dates'
+import { normalizeLocation, isLocationUnresolved } from './location'
+import { findMatchingOrganizer } from './organizers'
+import { STRONG_MATCH_REASONS } from './organizer-matching'
+import { saveEventSnapshots, getEventSnapshot } from './event-snapshots'
+import { detectEventStatus } from './event-sources/event-status'
+import { toEventDetailColumns } from './event-sources/event-details'
+import { classifyEvents } from './event-classification'
+import { getLlmClientForUser } from './llm-settings'
+import { linkLlmUsage, linkLlmUsageRows } from './llm-usage'
+import {
+  createExtractionReview,
+  findPendingReviewKeys,
+  getFieldsNeedingReview,
+  getPendingReview,
+  closeExtractionReview
+} from './extraction-reviews'
+import { REVIEWED_FIELDS, ReviewedField } from './event-sources/field-confidence'
+import {
+  resolveEventSource,
+  extractEvent,
+  extractFromPage,
+  canonicalizeEventUrl,
+  getEventKey,
+  resolveShortLink,
+  isPlaceholderValue,
+  ExtractedEvent,
+  EventSourceId,
+  FetchedPage
+} from './event-sources'
+
+/**
+ * Server-side ingestion pipeline shared by the synchronous import route and
+ * the background ingestion jobs: extracts event data from a ticketing page
+ * and creates the organizer, event and lead rows for a user.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// Links processed at the same time by one import request or worker run; the
+// per-host limits in event-sources/polite-fetch.ts keep each platform safe
+export const LINK_CONCURRENCY = Number(process.env.INGESTION_CONCURRENCY) || 3
+
+export interface EventData extends ExtractedEvent {
+  // Canonical event page URL (stored in event.sympla_url for every platform)
+  event_url: string
+  // Platform event identity used for duplicate checks (see event-sources/event-urls.ts)
+  event_key: string
+  source: EventSourceId
+}
+
+// Event of a lead that did not come from an extraction (spreadsheet imports);
+// it may have no event page
+export interface LeadEventData extends Omit<EventData, 'event_url' | 'event_key' | 'source'> {
+  event_url: string | null
+  event_key: string | null
+  source: EventSourceId | null
+}
+
+// Steps reported while a link goes through the pipeline; the last four are final
+export type IngestionStage = 'fetching' | 'browser_fallback' | 'llm_extraction' | 'saved' | 'review' | 'duplicate' | 'failed'
+
+export interface IngestionProgressEvent {
+  url: string
+  stage: IngestionStage
+  event_name?: string
+  organizer_name?: string
+  lead_id?: string
+  error?: string
+}
+
+export type IngestionProgressListener = (event: IngestionProgressEvent) => void
+
+// Create complete lead using the database function
+export async function createCompleteLeadWithFallback(eventData: LeadEventData, userId: string): Promise<{ data: string | null; error: any }> {
+  // Try to use the database function first
+  const eventUrl = eventData.event_url
+  const organizerName = eventData.organizer_name || eventData.produtor
+
+  // "Não informado" would become an organizer every such event ends up under
+  if (isPlaceholderValue(organizerName)) {
+    return { data: null, error: { message: 'Organizer name is missing' } }
+  }
+  
+  const { data, error } = await supabase.rpc('create_complete_lead', {
+    p_nome_evento: eventData.nome_evento,
+    p_data_evento: eventData.data_evento,
+    p_local: eventData.local,
+    p_sympla_url: eventUrl,
+    p_organizer_name: organizerName,
+    p_organizer_website: eventData.website || null,
+    p_contact_name: null,
+    p_contact_email: null,
+    p_contact_position: null,
+    p_user_id: userId
+  })
+
+  if (!error) {
+    return { data, error }
+  }
+
+  console.warn('Database function failed, using fallback:', error)
+
+  // Fallback: Manual implementation
+  try {
+    // Get or create organizer
+    const { data: organizerId, error: organizerError } = await supabase.rpc('get_or_create_organizer', {
+      p_name: organizerName,
+      p_website: eventData.website || null,
+      p_user_id: userId
+    })
+
+    if (organizerError || !organizerId) {
+      return { data: null, error: organizerError || { message: 'Failed to create organizer' } }
+    }
+
+    // Create event
+    const { data: newEvent, error: eventError } = await supabase
+      .from('event')
+      .insert([{
+        nome_evento: eventData.nome_evento,
+        data_evento: eventData.data_evento,
+        local: eventData.local,
+        sympla_url: eventUrl,
+        event_key: eventData.event_key,
+        organizer_id: organizerId,
+        user_id: userId
+      }])
+      .select()
+      .single()
+
+    if (eventError) {
+      return { data: null, error: eventError }
+    }
+
+    // Create lead
+    const { data: newLead, error: leadError } = await supabase
+      .from('leads')
+      .insert([{
+        organizer_id: organizerId,
+        event_id: newEvent.event_id,
+        user_id: userId,
+        contato_verificado: false,
+        status_busca: 'pendente' as const
+      }])
+      .select()
+      .single()
+
+    if (leadError) {
+      return { data: null, error: leadError }
+    }
+
+    return { data: newLead.id, error: null }
+  } catch (fallbackError) {
+    return { data: null, error: fallbackError }
+  }
+}
+
+export type IngestionOutcome =
+  | { status: 'done'; leadId: string; lead: any; eventData: EventData }
+  // Parked in the review queue until the user checks the low-confidence fields
+  | { status: 'review'; reviewId: string; eventData: EventData; lowFields: ReviewedField[] }
+  | { status: 'duplicate'; error: string }
+  | { status: 'failed'; error: string }
+
+export interface OrganizerOverride {
+  organizer_name: string
+  website?: string
+}
+
+// Save the extracted event as a lead, archive the pages it came from and
+// return the complete lead row
+export async function saveLead(
+  eventData: LeadEventData,
+  userId: string,
+  pages: FetchedPage[] = []
+): Promise<{ leadId: string | null; lead: any; error: string | null }> {
+  const { data: leadId, error: saveError } = await createCompleteLeadWithFallback(eventData, userId)
+
+  if (saveError || !leadId) {
+    return { leadId: null, lead: null, error: saveError?.message || 'Unknown error' }
+  }
+
+  // Pages can already announce a cancelled or sold-out event at import time
+  const status = pages.length > 0 ? detectEventStatus(pages[pages.length - 1].html) : null
+  const eventId = await recordEventDetails(leadId, eventData, status ? { status } : {})
+
+  if (eventId && pages.length > 0) {
+    await saveEventSnapshots(eventId, userId, pages)
+  }
+
+  // Keyword rules only; the LLM pass is run from the leads page
+  if (eventId) {
+    await classifyEvents(userId, { eventIds: [eventId] })
+  }
+
+  return { leadId, lead: await getCompleteLead(leadId, eventData), error: null }
+}
+
+// Complete lead data for responses
+async function getCompleteLead(leadId: string, eventData: LeadEventData) {
+  const { data: completeLead } = await supabase
+    .from('leads_complete')
+    .select('*')
+    .eq('id', leadId)
+    .single()
+
+  return completeLead || { id: leadId, ...eventData }
+}
+
+// Store extraction metadata the create_complete_lead function does not take;
+// returns the lead's event ID
+async function recordEventDetails(leadId: string, eventData: LeadEventData, columns: Record<string, any> = {}): Promise<string | null> {
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('event_id')
+    .eq('id', leadId)
+    .single()
+
+  if (!lead?.event_id) return null
+
+  await updateEventDetails(lead.event_id, eventData, columns)
+  return lead.event_id
+}
+
+async function updateEventDetails(eventId: string, eventData: LeadEventData, columns: Record<string, any> = {}) {
+  // Structured timestamps from the page win over parsing the display text
+  const dates = eventData.start_at
+    ? { start_at: eventData.start_at, end_at: eventData.end_at || null }
+    : parsePtBrDateRange(eventData.data_evento)
+
+  const location = normalizeLocation(eventData.local, eventData.address)
+
+  const { error } = await supabase
+    .from('event')
+    .update({
+      source: eventData.source,
+      event_key: eventData.event_key,
+      field_sources: eventData.field_sources || {},
+      field_confidence: eventData.field_confidence || {},
+      start_at: dates?.start_at || null,
+      end_at: dates?.end_at || null,
+      date_parse_failed: !dates,
+      timezone: eventData.timezone || null,
+      description: eventData.description || null,
+      ...location,
+      location_parse_failed: isLocationUnresolved(eventData.local, location),
+      ...toEventDetailColumns(eventData),
+      ...columns
+    })
+    .eq('event_id', eventId)
+
+  if (error) {
+    console.error(`Failed to record event details for event ${eventId}:`, error)
+  }
+}
+
+/**
+ * Returns the subset of URLs this user already imported, matching by event
+ * key so tracking parameters or another URL form of the same event count too
+ */
+export async function findExistingEventUrls(urls: string[], userId: string): Promise<Set<string>> {
+  if (urls.length === 0) return new Set()
+
+  const keys = urls.map(url => getEventKey(url))
+  const canonicalUrls = urls.map(url => canonicalizeEventUrl(url))
+
+  // Rows saved before event_key existed can only be found by URL
+  const [byKey, byUrl] = await Promise.all([
+    supabase
+      .from('event')
+      .select('event_key')
+      .eq('user_id', userId)
+      .in('event_key', Array.from(new Set(keys))),
+    supabase
+      .from('event')
+      .select('sympla_url')
+      .eq('user_id', userId)
+      .in('sympla_url', Array.from(new Set(urls.concat(canonicalUrls))))
+  ])
+
+  if (byKey.error || byUrl.error) {
+    console.error('Error checking existing events:', byKey.error || byUrl.error)
+  }
+
+  const existingKeys = new Set((byKey.data || []).map(event => event.event_key))
+  const existingUrls = new Set((byUrl.data || []).map(event => event.sympla_url))
+
+  return new Set(urls.filter((url, i) =>
+    existingKeys.has(keys[i]) || existingUrls.has(url) || existingUrls.has(canonicalUrls[i])
+  ))
+}
+
+/**
+ * Extracts and saves a single event page (Sympla or Eventbrite)
+ */
+export async function ingestLink(
+  link: string,
+  userId: string,
+  override?: OrganizerOverride,
+  onProgress?: IngestionProgressListener,
+  // Background job item the link belongs to, recorded with its LLM calls
+  job?: { job_id: string; item_id: string }
+): Promise<IngestionOutcome> {
+  const trimmedLink = link.trim()
+  const outcome = await runIngestion(trimmedLink, userId, override, onProgress, job)
+
+  if (outcome.status === 'done') {
+    onProgress?.({
+      url: trimmedLink,
+      stage: 'saved',
+      lead_id: outcome.leadId,
+      event_name: outcome.eventData.nome_evento,
+      organizer_name: outcome.eventData.organizer_name || outcome.eventData.produtor
+    })
+  } else if (outcome.status === 'review') {
+    onProgress?.({
+      url: trimmedLink,
+      stage: 'review',
+      event_name: outcome.eventData.nome_evento || undefined,
+      organizer_name: outcome.eventData.organizer_name || outcome.eventData.produtor || undefined
+    })
+  } else {
+    onProgress?.({ url: trimmedLink, stage: outcome.status, error: outcome.error })
+  }
+
+  return outcome
+}
+
+async function runIngestion(
+  trimmedLink: string,
+  userId: string,
+  override: OrganizerOverride | undefined,
+  onProgress: IngestionProgressListener | undefined,
+  job: { job_id: string; item_id: string } | undefined
+): Promise<IngestionOutcome> {
+  const link = await resolveShortLink(trimmedLink)
+  const { adapter, error: sourceError } = resolveEventSource(link)
+
+  if (!adapter) {
+    return { status: 'failed', error: sourceError || `Unsupported URL: ${trimmedLink}` }
+  }
+
+  const eventUrl = canonicalizeEventUrl(link)
+
+  try {
+    // Check if this event already exists for this user, under any of its URL forms
+    const existing = await findExistingEventUrls([link], userId)
+
+    if (existing.size > 0) {
+      return { status: 'duplicate', error: `URL already exists: ${eventUrl}` }
+    }
+
+    if ((await findPendingReviewKeys([getEventKey(eventUrl)], userId)).size > 0) {
+      return { status: 'duplicate', error: `URL already waiting for review: ${eventUrl}` }
+    }
+
+    const llm = await getLlmClientForUser(userId, { purpose: 'extraction', source_url: eventUrl, ...job })
+    const { data: extracted, error: extractError, pages } = await extractEvent(adapter, eventUrl, {
+      // Report progress under the URL the caller submitted
+      onProgress: onProgress && (event => onProgress({ ...event, url: trimmedLink })),
+      llm
+    })
+
+    if (!extracted) {
+      return { status: 'failed', error: extractError || `Failed to extract data from: ${eventUrl}` }
+    }
+
+    const eventData: EventData = { ...extracted, event_url: eventUrl, event_key: getEventKey(eventUrl), source: adapter.id }
+
+    if (override) {
+      // Keep every event of an organizer profile under the profile's organizer row
+      eventData.organizer_name = override.organizer_name
+      eventData.produtor = override.organizer_name
+      eventData.website = eventData.website || override.website
+      // The user picked this organizer profile to import
+      eventData.field_sources = { ...eventData.field_sources, produtor: 'manual' }
+      eventData.field_confidence = {
+        ...eventData.field_confidence,
+        produtor: isPlaceholderValue(override.organizer_name) ? 0 : 1
+      }
+    }
+
+    await reuseMatchingOrganizer(eventData, userId)
+
+    const lowFields = getFieldsNeedingReview(eventData)
+    if (lowFields.length > 0) {
+      const { data: review, error: reviewError } = await createExtractionReview(eventData, userId, {
+        url: trimmedLink,
+        lowFields,
+        pages,
+        job,
+        llmUsageIds: llm.usageIds
+      })
+
+      if (reviewError || !review) {
+        console.error(`Failed to queue ${eventUrl} for review:`, reviewError)
+        return { status: 'failed', error: `Failed to queue for review: ${eventUrl}` }
+      }
+
+      return { status: 'review', reviewId: review.review_id, eventData, lowFields }
+    }
+
+    // Create complete lead using normalized structure
+    const { leadId, lead, error: saveError } = await saveLead(eventData, userId, pages)
+
+    if (saveError || !leadId) {
+      return { status: 'failed', error: `Failed to save data for: ${eventUrl} - ${saveError}` }
+    }
+
+    await linkLlmUsage(llm, { lead_id: leadId, event_id: lead?.event_id })
+
+    return { status: 'done', leadId, lead, eventData }
+
+  } catch (error) {
+    console.error(`Error processing ${trimmedLink}:`, error)
+    return { status: 'failed', error: `Error processing: ${trimmedLink}` }
+  }
+}
+
+/**
+ * Run the extractor again on the latest saved page of a lead's event and
+ * update the event (and its organizer, when the page names another one)
+ * without refetching
+ */
+export async function reextractLead(leadId: string, userId: string): Promise<{ lead: any; error: string | null }> {
+  const { data: lead, error: leadError } = await supabase
+    .from('leads')
+    .select('id, event_id, organizer_id, event:event_id(sympla_url, event_key), organizer:organizer_id(name)')
+    .eq('id', leadId)
+    .eq('user_id', userId)
+    .single()
+
+  if (leadError || !lead) {
+    return { lead: null, error: 'Lead not found' }
+  }
+
+  const event = lead.event as any
+  const { data: snapshot, error: snapshotError } = await getEventSnapshot(lead.event_id, userId)
+
+  if (snapshotError || !snapshot) {
+    return { lead: null, error: 'No saved page for this event' }
+  }
+
+  const { adapter, error: sourceError } = resolveEventSource(event.sympla_url)
+  if (!adapter) {
+    return { lead: null, error: sourceError || 'Unsupported event URL' }
+  }
+
+  const { data: extracted, error: extractError } = await extractFromPage(adapter, {
+    url: snapshot.url,
+    html: snapshot.html,
+    via: snapshot.via
+  }, { llm: await getLlmClientForUser(userId, { purpose: 'extraction', lead_id: leadId, event_id: lead.event_id }) })
+
+  if (!extracted) {
+    return { lead: null, error: extractError || 'Extraction failed' }
+  }
+
+  const eventData: EventData = {
+    ...extracted,
+    event_url: event.sympla_url,
+    event_key: event.event_key || getEventKey(event.sympla_url),
+    source: adapter.id
+  }
+
+  await reuseMatchingOrganizer(eventData, userId)
+
+  // Move the lead to the organizer the page names now
+  const organizerName = eventData.organizer_name || eventData.produtor
+  let organizerId = lead.organizer_id
+  if (!isPlaceholderValue(organizerName) && organizerName.trim() !== (lead.organizer as any)?.name) {
+    const { data: newOrganizerId, error: organizerError } = await supabase.rpc('get_or_create_organizer', {
+      p_name: organizerName,
+      p_website: eventData.website || null,
+      p_user_id: userId
+    })
+
+    if (organizerError || !newOrganizerId) {
+      console.error(`Failed to resolve organizer "${organizerName}" for lead ${leadId}:`, organizerError)
+    } else {
+      organizerId = newOrganizerId
+    }
+  }
+
+  // Fields the page no longer gives keep their saved value
+  const columns: Record<string, any> = { organizer_id: organizerId }
+  ;(['nome_evento', 'data_evento', 'local'] as const).forEach(field => {
+    if (!isPlaceholderValue(eventData[field])) columns[field] = eventData[field]
+  })
+
+  await updateEventDetails(lead.event_id, eventData, columns)
+
+  if (organizerId !== lead.organizer_id) {
+    const { error } = await supabase.from('leads').update({ organizer_id: organizerId }).eq('id', leadId)
+    if (error) {
+      console.error(`Failed to move lead ${leadId} to organizer ${organizerId}:`, error)
+    }
+  }
+
+  await classifyEvents(userId, { eventIds: [lead.event_id] })
+
+  return { lead: await getCompleteLead(leadId, eventData), error: null }
+}
+
+// Fields a review cannot be approved without; date and location may stay unknown
+const FIELDS_REQUIRED_ON_APPROVAL: ReviewedField[] = ['nome_evento', 'produtor']
+
+/**
+ * Create the lead of a queued import with the reviewer's corrections. Every
+ * reviewed field counts as confirmed; corrected ones are marked 'manual'.
+ */
+export async function approveExtractionReview(
+  reviewId: string,
+  userId: string,
+  corrections: Partial<Record<ReviewedField | 'website', string>>
+): Promise<{ lead: any; error: string | null }> {
+  const { data: review, error: reviewError } = await getPendingReview(reviewId, userId)
+
+  if (reviewError || !review) {
+    return { lead: null, error: 'Review not found' }
+  }
+
+  const eventData = { ...review.event_data } as EventData
+  const sources = { ...eventData.field_sources }
+  const confidence = { ...eventData.field_confidence }
+
+  REVIEWED_FIELDS.forEach(field => {
+    const value = corrections[field]?.replace(/\s+/g, ' ').trim()
+    if (value !== undefined && value !== eventData[field]) {
+      eventData[field] = value
+      sources[field] = 'manual'
+    }
+    confidence[field] = isPlaceholderValue(eventData[field]) ? 0 : 1
+  })
+
+  if (corrections.produtor !== undefined) {
+    eventData.organizer_name = eventData.produtor
+  }
+  if (corrections.website !== undefined) {
+    eventData.website = corrections.website.trim() || undefined
+  }
+
+  eventData.field_sources = sources
+  eventData.field_confidence = confidence
+
+  const missing = FIELDS_REQUIRED_ON_APPROVAL.filter(field => isPlaceholderValue(eventData[field]))
+  if (missing.length > 0) {
+    return { lead: null, error: `Missing values for: ${missing.join(', ')}` }
+  }
+
+  const existing = await findExistingEventUrls([eventData.event_url], userId)
+  if (existing.size > 0) {
+    return { lead: null, error: `URL already exists: ${eventData.event_url}` }
+  }
+
+  await reuseMatchingOrganizer(eventData, userId)
+
+  const pages: FetchedPage[] = review.page_html && review.page_url && review.page_via
+    ? [{ url: review.page_url, html: review.page_html, via: review.page_via }]
+    : []
+  const { leadId, lead, error: saveError } = await saveLead(eventData, userId, pages)
+
+  if (saveError || !leadId) {
+    return { lead: null, error: `Failed to save data for: ${eventData.event_url} - ${saveError}` }
+  }
+
+  await linkLlmUsageRows(review.llm_usage_ids || [], { lead_id: leadId, event_id: lead?.event_id })
+
+  const { error: closeError } = await closeExtractionReview(reviewId, userId, { status: 'approved', lead_id: leadId, event_data: eventData })
+  if (closeError) {
+    console.error(`Lead ${leadId} created but review ${reviewId} could not be closed:`, closeError)
+  }
+
+  return { lead, error: null }
+}
+
+/**
+ * Point the event at an organizer the user already has under another spelling
+ * or with the same website, so get_or_create_organizer finds it by name.
+ * Weaker matches (acronyms, similar names) are only suggested for merging on
+ * the organizers page.
+ */
+async function reuseMatchingOrganizer(eventData: EventData, userId: string) {
+  const organizerName = eventData.organizer_name || eventData.produtor
+  if (isPlaceholderValue(organizerName)) return
+
+  const match = await findMatchingOrganizer(userId, organizerName, eventData.website)
+  if (!match || match.organizer.name === organizerName.trim()) return
+
+  if (STRONG_MATCH_REASONS.indexOf(match.reason) === -1) {
+    console.log(`Organizer "${organizerName}" may be "${match.organizer.name}" (${match.reason}); left for review`)
+    return
+  }
+
+  eventData.organizer_name = match.organizer.name
+  eventData.produtor = match.organizer.name
+  eventData.website = eventData.website || match.organizer.website || undefined
+}
+
+/**
+ * Lists the events of an Eventbrite organizer profile, splitting out the ones
+ * this user already imported
+ */
+export async function expandEventbriteOrganizer(
+  organizerUrl: string,
+  userId: string,
+  includePast: boolean
+): Promise<{ override: OrganizerOverride; newUrls: string[]; existingUrls: string[] }> {
+  const profile = await EventbriteScraper.fetchOrganizerProfile(organizerUrl, { includePast })
+  const existing = await findExistingEventUrls(profile.event_urls, userId)
+
+  return {
+    override: { organizer_name: profile.organizer_name, website: profile.website },
+    newUrls: profile.event_urls.filter(url => !existing.has(url)),
+    existingUrls: profile.event_urls.filter(url => existing.has(url))
+  }
+}
+
+// Discover event URLs from a Sympla listing and drop the ones this user already imported
+export async function discoverSymplaLinks(
+  options: SymplaDiscoveryOptions,
+  userId: string
+): Promise<{ links: string[]; existingLinks: string[]; pagesVisited: number }> {
+  const { eventUrls, pagesVisited } = await SymplaCrawler.discoverEventUrls(options)
+  const existing = await findExistingEventUrls(eventUrls, userId)
+
+  return {
+    links: eventUrls.filter(url => !existing.has(url)),
+    existingLinks: eventUrls.filter(url => existing.has(url)),
+    pagesVisited
+  }
+}
+
+export function isEventbriteOrganizerUrl(url: string): boolean {
+  return EventbriteScraper.isEventbriteOrganizerUrl(url)
+}
@@ -0,0 +1,22 @@
+/**
+ * How a lead reached us, stored in leads.origin.
+ * Client-safe: the leads page and the new lead form show the labels.
+ */
+
+export const LEAD_ORIGINS = ['url_import', 'spreadsheet', 'referral', 'inbound', 'event_page'] as const
+export type LeadOrigin = typeof LEAD_ORIGINS[number]
+
+// Origins a person picks on the new lead form
+export const MANUAL_LEAD_ORIGINS: LeadOrigin[] = ['referral', 'inbound', 'event_page']
+
+export const LEAD_ORIGIN_LABELS: Record<LeadOrigin, string> = {
+  url_import: 'Importado por link',
+  spreadsheet: 'Planilha',
+  referral: 'Indicação',
+  inbound: 'Contato recebido',
+  event_page: 'Página do evento'
+}
+
+export function isLeadOrigin(value: unknown): value is LeadOrigin {
+  return typeof value === 'string' && (LEAD_ORIGINS as readonly string[]).indexOf(value) !== -1
+}
@@ -1,6 +1,7 @@
 import { supabase } from './supabase'
 import type { Lead, LeadInsert, LeadUpdate, LeadWithUser, LegacyLead, CompleteLeadInput } from './supabase'
 import { getLeadsComplete, createCompleteLead } from './normalized-db'
+import { getEventKey } from './event-sources/event-urls'
 
 /**
  * Lead management utilities for Supabase operations
@@ -141,20 +142,22 @@ export async function deleteLead(id: string): Promise<{ error: any }> {
 }
 
 /**
- * Check if a Sympla URL already exists for the current user
+ * Check if an event URL already exists for the current user.
+ * Matches on the event key, so UTM parameters, short forms or another
+ * Eventbrite domain of an imported event also count as existing.
  */
 export async function checkSymplaUrlExists(symplaUrl: string): Promise<{ exists: boolean; error: any }> {
   const { data, error } = await supabase
-    .from('leads')
-    .select('id')
-    .eq('sympla_url', symplaUrl)
-    .maybeSingle()
+    .from('event')
+    .select('event_id')
+    .eq('event_key', getEventKey(symplaUrl))
+    .limit(1)
 
   if (error) {
     return { exists: false, error }
   }
 
-  return { exists: !!data, error: null }
+  return { exists: (data || []).length > 0, error: null }
 }
 
 /**
@@ -0,0 +1,127 @@
+import { createClient } from '@supabase/supabase-js'
+import {
+  createLlmClient,
+  getDefaultLlmSettings,
+  getDefaultLlmClient,
+  getDefaultModel,
+  LlmClient,
+  LlmProviderId,
+  LlmSettings
+} from './llm'
+import { LlmUsageContext, TrackedLlmClient, trackLlmUsage } from './llm-usage'
+
+/**
+ * Per-user LLM settings, kept on the user's profile. Unset values fall back
+ * to the deployment's LLM_PROVIDER / LLM_MODEL / LLM_MONTHLY_BUDGET_USD.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+export interface UserLlmSettings {
+  // What the user chose; null means the deployment default
+  llm_provider: LlmProviderId | null
+  llm_model: string | null
+  // Monthly spend limit in US dollars
+  llm_monthly_budget_usd: number | null
+}
+
+export interface EffectiveLlmSettings extends LlmSettings {
+  // null when there is no limit
+  monthly_budget_usd: number | null
+}
+
+// Deployment-wide monthly budget; unset means no limit
+const DEFAULT_MONTHLY_BUDGET_USD = process.env.LLM_MONTHLY_BUDGET_USD ? Number(process.env.LLM_MONTHLY_BUDGET_USD) : null
+
+/**
+ * The user's own choice and the settings that actually apply
+ */
+export async function getUserLlmSettings(
+  userId: string
+): Promise<{ data: { user: UserLlmSettings; effective: EffectiveLlmSettings; defaults: EffectiveLlmSettings } | null; error: any }> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('llm_provider, llm_model, llm_monthly_budget_usd')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  const user: UserLlmSettings = {
+    llm_provider: data?.llm_provider || null,
+    llm_model: data?.llm_model || null,
+    llm_monthly_budget_usd: data?.llm_monthly_budget_usd == null ? null : Number(data.llm_monthly_budget_usd)
+  }
+
+  return {
+    data: {
+      user,
+      effective: resolveSettings(user),
+      defaults: { ...getDefaultLlmSettings(), monthly_budget_usd: DEFAULT_MONTHLY_BUDGET_USD }
+    },
+    error: null
+  }
+}
+
+// Settings left out are kept as they are
+export async function updateUserLlmSettings(userId: string, settings: Partial<UserLlmSettings>): Promise<{ error: any }> {
+  const update: Partial<UserLlmSettings> = {}
+  const keep = <K extends keyof UserLlmSettings>(key: K) => {
+    const value = settings[key]
+    if (value !== undefined) update[key] = value
+  }
+  ;(Object.keys(settings) as Array<keyof UserLlmSettings>).forEach(keep)
+
+  const { error } = await supabase
+    .from('profiles')
+    .update(update)
+    .eq('id', userId)
+
+  return { error }
+}
+
+/**
+ * LLM client for a user's calls, recorded in llm_usage against `usage` and
+ * refused once the month's budget is spent; the deployment's client when the
+ * user has no settings or they cannot be read
+ */
+export async function getLlmClientForUser(
+  userId: string,
+  usage: Omit<LlmUsageContext, 'user_id'>
+): Promise<TrackedLlmClient> {
+  const { data, error } = await getUserLlmSettings(userId)
+
+  if (error) {
+    console.warn(`Could not load LLM settings for user ${userId}, using the default:`, error)
+  }
+
+  const client: LlmClient = !data || (!data.user.llm_provider && !data.user.llm_model)
+    ? getDefaultLlmClient()
+    : createLlmClient(data.effective)
+  const budget = data ? data.effective.monthly_budget_usd : DEFAULT_MONTHLY_BUDGET_USD
+
+  return trackLlmUsage(client, { ...usage, user_id: userId }, budget)
+}
+
+function resolveSettings(user: UserLlmSettings): EffectiveLlmSettings {
+  const defaults = getDefaultLlmSettings()
+  const monthly_budget_usd = user.llm_monthly_budget_usd ?? DEFAULT_MONTHLY_BUDGET_USD
+
+  if (!user.llm_provider || user.llm_provider === defaults.provider) {
+    return { provider: defaults.provider, model: user.llm_model || defaults.model, monthly_budget_usd }
+  }
+
+  // The deployment's model may not exist on another provider
+  return { provider: user.llm_provider, model: user.llm_model || getDefaultModel(user.llm_provider), monthly_budget_usd }
+}
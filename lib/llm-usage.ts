@@ -0,0 +1,229 @@
+import { createClient } from '@supabase/supabase-js'
+import { estimateLlmCost, LlmBudgetExceededError, LlmClient, LlmCompletion } from './llm'
+import type { LlmUsage, LlmUsagePurpose, LlmUsageReport, LlmUsageTotals } from './supabase'
+
+/**
+ * LLM usage accounting
+ * Every call made through a tracked client is stored in llm_usage with its
+ * tokens, estimated cost and latency, and refused up front once the user's
+ * month has used up the budget. Months are calendar months in UTC.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// What a call is recorded against
+export interface LlmUsageContext {
+  user_id: string
+  purpose: LlmUsagePurpose
+  lead_id?: string
+  event_id?: string
+  job_id?: string
+  item_id?: string
+  source_url?: string
+}
+
+export interface TrackedLlmClient extends LlmClient {
+  // llm_usage rows written by this client, to link them to a lead saved afterwards
+  usageIds: string[]
+}
+
+const RECENT_CALLS = 20
+
+/**
+ * Wrap a client so its calls are recorded and checked against a monthly
+ * budget in US dollars (null for no limit)
+ */
+export function trackLlmUsage(client: LlmClient, context: LlmUsageContext, budgetUsd: number | null): TrackedLlmClient {
+  const usageIds: string[] = []
+
+  return {
+    provider: client.provider,
+    model: client.model,
+    usageIds,
+
+    async complete(request) {
+      if (budgetUsd !== null) {
+        const spent = await getLlmSpend(context.user_id, startOfMonth())
+        if (spent >= budgetUsd) {
+          throw new LlmBudgetExceededError(spent, budgetUsd)
+        }
+      }
+
+      const started = Date.now()
+      let completion: LlmCompletion | null = null
+      let failure: unknown = null
+
+      try {
+        completion = await client.complete(request)
+      } catch (error) {
+        failure = error
+      }
+
+      const usage = completion?.usage || { prompt_tokens: 0, completion_tokens: 0 }
+      const { data, error } = await supabase
+        .from('llm_usage')
+        .insert([{
+          ...context,
+          provider: client.provider,
+          model: client.model,
+          prompt_tokens: usage.prompt_tokens,
+          completion_tokens: usage.completion_tokens,
+          cost_usd: estimateLlmCost(client.provider, client.model, usage),
+          latency_ms: Date.now() - started,
+          success: !failure,
+          error: failure ? (failure instanceof Error ? failure.message : String(failure)).slice(0, 500) : null
+        }])
+        .select('usage_id')
+        .single()
+
+      if (error) {
+        console.error('Failed to record LLM usage:', error)
+      } else if (data) {
+        usageIds.push(data.usage_id)
+      }
+
+      if (failure) throw failure
+      return completion!
+    }
+  }
+}
+
+/**
+ * Attach the calls of a tracked client to the lead/event they ended up producing
+ */
+export async function linkLlmUsage(client: LlmClient | undefined, ids: { lead_id?: string; event_id?: string }) {
+  await linkLlmUsageRows((client as TrackedLlmClient | undefined)?.usageIds || [], ids)
+}
+
+/**
+ * Same for usage rows remembered elsewhere (imports approved from the review queue)
+ */
+export async function linkLlmUsageRows(usageIds: string[], ids: { lead_id?: string; event_id?: string }) {
+  if (usageIds.length === 0) return
+
+  const { error } = await supabase.from('llm_usage').update(ids).in('usage_id', usageIds)
+
+  if (error) {
+    console.error('Failed to link LLM usage:', error)
+  }
+}
+
+/**
+ * Estimated spend of a user since a date
+ */
+export async function getLlmSpend(userId: string, since: Date): Promise<number> {
+  // Try to use the database function first
+  const { data, error } = await supabase.rpc('get_llm_spend', {
+    p_user_id: userId,
+    p_since: since.toISOString()
+  })
+
+  if (!error) {
+    return Number(data) || 0
+  }
+
+  const { data: rows, error: selectError } = await supabase
+    .from('llm_usage')
+    .select('cost_usd')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+
+  if (selectError) {
+    console.error('Error fetching LLM spend:', selectError)
+    return 0
+  }
+
+  return (rows || []).reduce((total, row) => total + Number(row.cost_usd), 0)
+}
+
+/**
+ * Monthly totals for the last `months` months (current one included), the
+ * current month by model and purpose, and the latest calls
+ */
+export async function getLlmUsageReport(userId: string, months = 6): Promise<{ data: LlmUsageReport | null; error: any }> {
+  const since = startOfMonth(months - 1)
+
+  const { data: rows, error } = await supabase
+    .from('llm_usage')
+    .select('purpose, model, prompt_tokens, completion_tokens, cost_usd, latency_ms, success, created_at')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  const { data: recent, error: recentError } = await supabase
+    .from('llm_usage')
+    .select('*, event:event_id(nome_evento)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_CALLS)
+
+  if (recentError) {
+    return { data: null, error: recentError }
+  }
+
+  const currentMonth = monthKey(new Date())
+  const byMonth: Record<string, LlmUsageTotals> = {}
+  const byModel: Record<string, LlmUsageTotals> = {}
+  const byPurpose: Record<string, LlmUsageTotals> = {}
+
+  for (let i = months - 1; i >= 0; i--) {
+    byMonth[monthKey(startOfMonth(i))] = emptyTotals()
+  }
+
+  ;(rows || []).forEach(row => {
+    const month = monthKey(new Date(row.created_at))
+    addTo(byMonth[month] = byMonth[month] || emptyTotals(), row)
+    if (month === currentMonth) {
+      addTo(byModel[row.model] = byModel[row.model] || emptyTotals(), row)
+      addTo(byPurpose[row.purpose] = byPurpose[row.purpose] || emptyTotals(), row)
+    }
+  })
+
+  return {
+    data: {
+      months: Object.keys(byMonth).sort().map(month => ({ month, ...byMonth[month] })),
+      current_month: {
+        by_model: Object.keys(byModel).map(model => ({ model, ...byModel[model] })),
+        by_purpose: Object.keys(byPurpose).map(purpose => ({ purpose: purpose as LlmUsagePurpose, ...byPurpose[purpose] }))
+      },
+      recent: (recent || []).map(({ event, ...usage }: any) => ({ ...usage, event_name: event?.nome_evento || null })) as LlmUsage[]
+    },
+    error: null
+  }
+}
+
+// First instant of the month `monthsAgo` months before the current one (UTC)
+export function startOfMonth(monthsAgo = 0): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1))
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7)
+}
+
+function emptyTotals(): LlmUsageTotals {
+  return { calls: 0, failed_calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0, avg_latency_ms: 0 }
+}
+
+function addTo(totals: LlmUsageTotals, row: any) {
+  totals.avg_latency_ms = Math.round((totals.avg_latency_ms * totals.calls + row.latency_ms) / (totals.calls + 1))
+  totals.calls++
+  if (!row.success) totals.failed_calls++
+  totals.prompt_tokens += row.prompt_tokens
+  totals.completion_tokens += row.completion_tokens
+  totals.cost_usd += Number(row.cost_usd)
+}
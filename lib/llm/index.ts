@@ -0,0 +1,163 @@
+import { createOpenAIClient } from './openai'
+import { createMockClient } from './mock'
+import type { JsonSchema, LlmClient, LlmMessage, LlmProviderId, LlmSettings } from './types'
+
+export type {
+  JsonSchema, LlmClient, LlmMessage, LlmProviderId, LlmSettings, LlmCompletionRequest, LlmCompletion, LlmTokenUsage
+} from './types'
+export { createMockClient } from './mock'
+export { estimateLlmCost } from './pricing'
+
+/**
+ * LLM access for the extractors.
+ * The provider and model come from the environment (LLM_PROVIDER, LLM_MODEL)
+ * and can be overridden per user (see lib/llm-settings.ts); answers are
+ * requested as JSON following a schema, validated, and asked for again with
+ * the problems spelled out when they do not pass.
+ */
+
+export const LLM_PROVIDERS: LlmProviderId[] = ['openai', 'openai_compatible', 'mock']
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  openai_compatible: 'llama3.1',
+  mock: 'mock'
+}
+
+// Ollama's OpenAI-compatible endpoint
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'
+
+const MAX_RETRIES = process.env.LLM_MAX_RETRIES ? Number(process.env.LLM_MAX_RETRIES) : 2
+
+/**
+ * The user's monthly LLM budget is used up; no call was made
+ */
+export class LlmBudgetExceededError extends Error {
+  constructor(public spentUsd: number, public budgetUsd: number) {
+    super(`Monthly LLM budget exceeded (US$ ${spentUsd.toFixed(2)} of US$ ${budgetUsd.toFixed(2)})`)
+    this.name = 'LlmBudgetExceededError'
+  }
+}
+
+export function getDefaultModel(provider: LlmProviderId): string {
+  return DEFAULT_MODELS[provider]
+}
+
+export function isLlmProvider(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && LLM_PROVIDERS.indexOf(value as LlmProviderId) !== -1
+}
+
+/**
+ * Provider and model configured for the deployment
+ */
+export function getDefaultLlmSettings(): LlmSettings {
+  const provider = isLlmProvider(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'openai'
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_MODELS[provider]
+  }
+}
+
+export function createLlmClient(settings: LlmSettings = getDefaultLlmSettings()): LlmClient {
+  const model = settings.model || DEFAULT_MODELS[settings.provider]
+
+  switch (settings.provider) {
+    case 'mock':
+      return createMockClient()
+    case 'openai_compatible':
+      return createOpenAIClient({
+        provider: 'openai_compatible',
+        model,
+        // Local servers ignore the key, but the client requires one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL
+      })
+    default:
+      return createOpenAIClient({
+        provider: 'openai',
+        model,
+        apiKey: process.env.OPENAI_API_KEY!
+      })
+  }
+}
+
+let defaultClient: LlmClient | null = null
+
+// Created on first use so modules load without an API key
+export function getDefaultLlmClient(): LlmClient {
+  if (!defaultClient) {
+    defaultClient = createLlmClient()
+  }
+  return defaultClient
+}
+
+/**
+ * Ask for JSON following `schema` and return it once `validate` finds no
+ * problems. Invalid answers are sent back with the problems listed, up to
+ * LLM_MAX_RETRIES times.
+ */
+export async function generateJson<T>(
+  client: LlmClient,
+  request: {
+    schemaName: string
+    schema: JsonSchema
+    system: string
+    prompt: string
+    // Problems with a parsed answer; empty when it can be used
+    validate?: (value: any) => string[]
+    maxTokens?: number
+  }
+): Promise<{ data: T | null; error: string | null; attempts: number }> {
+  const messages: LlmMessage[] = [
+    { role: 'system', content: request.system },
+    { role: 'user', content: request.prompt }
+  ]
+  let lastError = 'No answer'
+
+  for (let attempt = 1; attempt <= MAX_RETRIES + 1; attempt++) {
+    let text: string
+    try {
+      ({ text } = await client.complete({
+        messages,
+        schemaName: request.schemaName,
+        schema: request.schema,
+        maxTokens: request.maxTokens
+      }))
+    } catch (error) {
+      if (error instanceof LlmBudgetExceededError) throw error
+
+      // Transport and API errors are not the model's fault; asking again will not help
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[LLM] ${client.provider} (${client.model}) request failed:`, error)
+      return { data: null, error: message, attempts: attempt }
+    }
+
+    const { value, error: parseError } = parseJson(text)
+    const problems = parseError ? [parseError] : (request.validate ? request.validate(value) : [])
+
+    if (problems.length === 0) {
+      return { data: value as T, error: null, attempts: attempt }
+    }
+
+    lastError = problems.join('; ')
+    console.warn(`[LLM] Invalid answer from ${client.provider} (${client.model}), attempt ${attempt}: ${lastError}`)
+
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `That answer is invalid: ${lastError}. Reply again with corrected JSON only.` }
+    )
+  }
+
+  return { data: null, error: lastError, attempts: MAX_RETRIES + 1 }
+}
+
+// Servers without structured output sometimes wrap the JSON in a markdown fence
+function parseJson(text: string): { value: any; error: string | null } {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+  try {
+    return { value: JSON.parse(cleaned), error: null }
+  } catch {
+    return { value: null, error: 'the answer is not valid JSON' }
+  }
+}
@@ -0,0 +1,48 @@
+import type { JsonSchema, LlmClient, LlmCompletion, LlmCompletionRequest } from './types'
+
+/**
+ * Deterministic LLM for offline runs and local development without an API key.
+ * Answers with what `respond` returns for the request, or, without a
+ * responder, with the simplest value that satisfies the schema.
+ */
+export function createMockClient(respond?: (request: LlmCompletionRequest) => unknown): LlmClient {
+  return {
+    provider: 'mock',
+    model: 'mock',
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const answer = respond ? respond(request) : placeholderFor(request.schema)
+      const text = JSON.stringify(answer ?? placeholderFor(request.schema))
+      const promptLength = request.messages.reduce((total, message) => total + message.content.length, 0)
+
+      // Rough token counts (about 4 characters each) so usage reports have numbers
+      return {
+        text,
+        usage: { prompt_tokens: Math.ceil(promptLength / 4), completion_tokens: Math.ceil(text.length / 4) }
+      }
+    }
+  }
+}
+
+function placeholderFor(schema: JsonSchema): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0]
+
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {}
+      Object.keys(schema.properties || {}).forEach(key => {
+        value[key] = placeholderFor(schema.properties![key])
+      })
+      return value
+    }
+    case 'array':
+      return []
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    default:
+      return 'Não informado'
+  }
+}
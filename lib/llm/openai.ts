@@ -0,0 +1,52 @@
+import OpenAI from 'openai'
+import type { LlmClient, LlmCompletion, LlmCompletionRequest, LlmProviderId } from './types'
+
+/**
+ * OpenAI chat completions with JSON-schema structured output. The same client
+ * talks to OpenAI-compatible servers (Ollama, LM Studio, vLLM) through baseURL.
+ */
+export function createOpenAIClient(options: {
+  provider: Extract<LlmProviderId, 'openai' | 'openai_compatible'>
+  model: string
+  apiKey: string
+  baseURL?: string
+}): LlmClient {
+  const openai = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL
+  })
+
+  return {
+    provider: options.provider,
+    model: options.model,
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const response = await openai.chat.completions.create({
+        model: options.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.1,
+        max_tokens: request.maxTokens ?? 500,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: request.schemaName,
+            schema: request.schema as unknown as Record<string, unknown>,
+            strict: true
+          }
+        }
+      })
+
+      const content = response.choices[0]?.message?.content
+      if (!content) {
+        throw new Error(`No response from ${options.provider} (${options.model})`)
+      }
+      return {
+        text: content,
+        usage: response.usage && {
+          prompt_tokens: response.usage.prompt_tokens,
+          completion_tokens: response.usage.completion_tokens
+        }
+      }
+    }
+  }
+}
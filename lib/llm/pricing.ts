@@ -0,0 +1,43 @@
+import type { LlmProviderId, LlmTokenUsage } from './types'
+
+/**
+ * Estimated cost of a completion in US dollars.
+ * Prices are per million tokens (input, output) as published by OpenAI;
+ * LLM_PRICES overrides or extends them as JSON, e.g. {"gpt-4o-mini": [0.15, 0.6]}.
+ * Local and mock providers cost nothing.
+ */
+
+const OPENAI_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1': [2, 8],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1-nano': [0.1, 0.4]
+}
+
+let prices: Record<string, [number, number]> | null = null
+
+function getPrices(): Record<string, [number, number]> {
+  if (!prices) {
+    prices = { ...OPENAI_PRICES }
+    try {
+      Object.assign(prices, JSON.parse(process.env.LLM_PRICES || '{}'))
+    } catch (error) {
+      console.warn('Ignoring invalid LLM_PRICES:', error)
+    }
+  }
+  return prices
+}
+
+export function estimateLlmCost(provider: LlmProviderId, model: string, usage: LlmTokenUsage): number {
+  const known = getPrices()
+
+  // Dated OpenAI snapshots ("gpt-4o-mini-2024-07-18") cost the same as their model
+  const key = known[model] ? model : provider === 'openai'
+    ? Object.keys(known).filter(name => model.indexOf(name) === 0).sort((a, b) => b.length - a.length)[0]
+    : undefined
+  if (!key) return 0
+
+  const [input, output] = known[key]
+  return (usage.prompt_tokens * input + usage.completion_tokens * output) / 1000000
+}
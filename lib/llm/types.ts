@@ -0,0 +1,50 @@
+// Where completions come from: OpenAI, any server speaking the OpenAI API
+// (Ollama, LM Studio, vLLM...), or canned answers for offline runs
+export type LlmProviderId = 'openai' | 'openai_compatible' | 'mock'
+
+export interface LlmSettings {
+  provider: LlmProviderId
+  model: string
+}
+
+// The subset of JSON Schema the structured-output APIs accept
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: Array<string | number>
+  additionalProperties?: boolean
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[]
+  // Name and schema the answer must follow
+  schemaName: string
+  schema: JsonSchema
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LlmTokenUsage {
+  prompt_tokens: number
+  completion_tokens: number
+}
+
+export interface LlmCompletion {
+  // Raw text of the answer, expected to be JSON following the schema
+  text: string
+  usage?: LlmTokenUsage
+}
+
+export interface LlmClient {
+  provider: LlmProviderId
+  model: string
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>
+}
@@ -0,0 +1,273 @@
+import { IBGE_MUNICIPALITIES } from './ibge-municipalities'
+import { BRAZILIAN_STATES, getStateByUf } from './states'
+
+export * from './states'
+
+/**
+ * Location normalization
+ * Event pages mix venue names, street addresses and "São Paulo, SP" in one
+ * string. This splits them into venue, street, city, UF and country, using the
+ * bundled IBGE table for canonical municipality names.
+ */
+
+// Address parts as scraped (e.g. schema.org PostalAddress), before normalization
+export interface EventAddress {
+  venue?: string
+  street?: string
+  city?: string
+  state?: string
+  postal_code?: string
+  country?: string
+}
+
+export interface NormalizedLocation {
+  venue: string | null
+  street: string | null
+  city: string | null
+  // Two-letter UF for Brazilian locations, the raw region otherwise
+  state: string | null
+  // ISO 3166-1 alpha-2
+  country: string | null
+  // 7-digit IBGE municipality code when the city was matched
+  ibge_code: string | null
+}
+
+export interface Municipality {
+  ibge_code: string
+  uf: string
+  name: string
+}
+
+const COUNTRIES: Record<string, string> = {
+  brasil: 'BR', brazil: 'BR', br: 'BR',
+  portugal: 'PT',
+  argentina: 'AR',
+  chile: 'CL',
+  uruguai: 'UY', uruguay: 'UY',
+  paraguai: 'PY', paraguay: 'PY',
+  'estados unidos': 'US', 'united states': 'US', usa: 'US', eua: 'US',
+  espanha: 'ES', spain: 'ES', espana: 'ES',
+  'reino unido': 'GB', 'united kingdom': 'GB', uk: 'GB'
+}
+
+// Nicknames that show up instead of the official city name
+const CITY_ALIASES: Record<string, { name: string; uf: string }> = {
+  sampa: { name: 'São Paulo', uf: 'SP' },
+  rio: { name: 'Rio de Janeiro', uf: 'RJ' },
+  bh: { name: 'Belo Horizonte', uf: 'MG' },
+  floripa: { name: 'Florianópolis', uf: 'SC' },
+  poa: { name: 'Porto Alegre', uf: 'RS' },
+  brasilia: { name: 'Brasília', uf: 'DF' }
+}
+
+const STREET_PREFIX = /^(rua|r\.|av\.?|avenida|alameda|al\.|travessa|tv\.|pra[cç]a|p[cç]a\.?|largo|rodovia|rod\.|estrada|estr\.|via|quadra|setor|sh[nsi]\b|sc[ns]\b|sgas\b|sep[sn]\b)\s/i
+const STREET_NUMBER = /^(n[º°o.]?\s*)?\d+[a-z]?$|^s\/?n[º°o.]?$/i
+const POSTAL_CODE = /^(cep:?\s*)?\d{5}-?\d{3}$/i
+const CITY_WITH_UF = /^(.+?)\s*[/(]\s*([a-z]{2})\s*\)?$/i
+const ONLINE = /^(evento\s+)?(online|on-line|virtual|remoto|digital)$/i
+
+let municipalityIndex: Map<string, Municipality[]> | null = null
+
+export function normalizeLocationKey(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function getMunicipalityIndex(): Map<string, Municipality[]> {
+  if (municipalityIndex) return municipalityIndex
+
+  municipalityIndex = new Map()
+  for (const line of IBGE_MUNICIPALITIES.split('\n')) {
+    const match = line.match(/^(\d{7}) ([A-Z]{2}) (.+)$/)
+    if (!match) continue
+
+    const municipality = { ibge_code: match[1], uf: match[2], name: match[3] }
+    const key = normalizeLocationKey(municipality.name)
+    const entries = municipalityIndex.get(key) || []
+    entries.push(municipality)
+    municipalityIndex.set(key, entries)
+  }
+
+  return municipalityIndex
+}
+
+/**
+ * Find a municipality by name, optionally restricted to a UF.
+ * Names shared by several states resolve to the state capital when one of them
+ * is a capital, and to null otherwise unless the UF is given.
+ */
+export function findMunicipality(name: string, uf?: string | null): Municipality | null {
+  const key = normalizeLocationKey(name)
+  if (!key) return null
+
+  const alias = CITY_ALIASES[key]
+  const candidates = getMunicipalityIndex().get(alias ? normalizeLocationKey(alias.name) : key) || []
+  if (candidates.length === 0) return null
+
+  if (uf) {
+    return candidates.find(candidate => candidate.uf === uf) || null
+  }
+  if (alias) {
+    return candidates.find(candidate => candidate.uf === alias.uf) || null
+  }
+  if (candidates.length === 1) {
+    return candidates[0]
+  }
+
+  const capitals = candidates.filter(candidate => getStateByUf(candidate.uf)?.capital === candidate.name)
+  return capitals.length === 1 ? capitals[0] : null
+}
+
+/** Resolve "SP", "sp" or "São Paulo" to a UF */
+export function resolveUf(text: string | null | undefined): string | null {
+  if (!text) return null
+  const trimmed = text.trim()
+
+  if (/^[a-z]{2}$/i.test(trimmed)) {
+    return getStateByUf(trimmed)?.uf || null
+  }
+
+  const key = normalizeLocationKey(trimmed.replace(/^(estado d[eo]\s+)/i, ''))
+  return BRAZILIAN_STATES.find(state => normalizeLocationKey(state.name) === key)?.uf || null
+}
+
+function resolveCountry(text: string | null | undefined): string | null {
+  if (!text) return null
+  const key = normalizeLocationKey(text)
+  if (COUNTRIES[key]) return COUNTRIES[key]
+  return /^[a-z]{2}$/i.test(text.trim()) ? text.trim().toUpperCase() : null
+}
+
+/** "Evento online", "Online", "Virtual": nothing to normalize */
+export function isOnlineLocation(text: string | null | undefined): boolean {
+  return Boolean(text && ONLINE.test(text.trim()))
+}
+
+/**
+ * Whether a normalized location should be flagged for review: a physical
+ * location in which no city could be identified
+ */
+export function isLocationUnresolved(text: string | null | undefined, location: NormalizedLocation): boolean {
+  return !location.city && !isOnlineLocation(text) && !/^local n[aã]o informado$/i.test(text?.trim() || '')
+}
+
+/**
+ * Split a free-text location (and any structured address the page exposed)
+ * into its parts. Structured fields win; the text fills the gaps.
+ */
+export function normalizeLocation(text: string | null | undefined, address: EventAddress = {}): NormalizedLocation {
+  const segments = (text || '')
+    .split(/\s*(?:[,\n·|]|\s-\s|\s–\s)\s*/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && !/^(local|endere[cç]o) n[aã]o informado$/i.test(segment))
+
+  let venue = address.venue?.trim() || null
+  let street = address.street?.trim() || null
+  let stateUf = resolveUf(address.state)
+  let country = resolveCountry(address.country)
+  let cityText = address.city?.trim() || null
+
+  if (segments.length === 1 && isOnlineLocation(segments[0])) {
+    return { venue: venue || segments[0], street, city: null, state: null, country, ibge_code: null }
+  }
+
+  // First pass: pieces recognisable on their own
+  const remaining: { text: string; index: number }[] = []
+  segments.forEach((segment, index) => {
+    if (POSTAL_CODE.test(segment)) return
+
+    const segmentCountry = resolveCountry(segment)
+    if (segmentCountry && index > 0 && segment.length > 2) {
+      country = country || segmentCountry
+      return
+    }
+
+    if (/^[a-z]{2}$/i.test(segment) && resolveUf(segment)) {
+      stateUf = stateUf || resolveUf(segment)
+      return
+    }
+
+    const cityWithUf = segment.match(CITY_WITH_UF)
+    if (cityWithUf && resolveUf(cityWithUf[2])) {
+      stateUf = stateUf || resolveUf(cityWithUf[2])
+      cityText = cityText || cityWithUf[1]
+      return
+    }
+
+    if (STREET_PREFIX.test(segment)) {
+      street = street || segment
+      return
+    }
+
+    if (STREET_NUMBER.test(segment)) {
+      const previous = segments[index - 1]
+      if (street && previous && street.endsWith(previous)) {
+        street = `${street}, ${segment}`
+      }
+      return
+    }
+
+    remaining.push({ text: segment, index })
+  })
+
+  // Second pass: the city is usually the last piece that names a municipality
+  let municipality = cityText ? findMunicipality(cityText, stateUf) : null
+  let cityIndex = -1
+
+  if (!cityText) {
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const match = findMunicipality(remaining[i].text, stateUf)
+      if (!match) continue
+
+      // "Embu-Guaçu, São Paulo": the last piece is the state, not the capital
+      const stateName = !stateUf && i > 0 ? resolveUf(remaining[i].text) : null
+      const earlier = stateName ? findMunicipality(remaining[i - 1].text, stateName) : null
+      if (earlier) {
+        municipality = earlier
+        cityIndex = remaining[i - 1].index
+        stateUf = stateName
+      } else {
+        municipality = match
+        cityIndex = remaining[i].index
+      }
+      break
+    }
+  }
+
+  // A full state name left over ("Campinas, São Paulo")
+  if (!stateUf) {
+    const stateSegment = remaining.find(segment => segment.index !== cityIndex && segment.index > 0 && resolveUf(segment.text))
+    if (stateSegment) {
+      stateUf = resolveUf(stateSegment.text)
+      cityIndex = cityIndex === -1 ? stateSegment.index - 1 : cityIndex
+      if (!municipality && cityIndex >= 0) {
+        municipality = findMunicipality(segments[cityIndex], stateUf)
+      }
+    }
+  }
+
+  // Whatever comes first and is not the city or state is the venue
+  if (!venue) {
+    const first = remaining.find(segment =>
+      segment.index !== cityIndex && !(segment.index > 0 && resolveUf(segment.text))
+    )
+    if (first && (cityIndex === -1 || first.index < cityIndex)) {
+      venue = first.text
+    }
+  }
+
+  const isBrazilian = Boolean(municipality || stateUf) && (!country || country === 'BR')
+
+  return {
+    venue,
+    street,
+    city: municipality?.name || cityText,
+    state: municipality?.uf || stateUf || address.state?.trim() || null,
+    country: country || (isBrazilian ? 'BR' : null),
+    ibge_code: municipality?.ibge_code || null
+  }
+}
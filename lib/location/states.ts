@@ -0,0 +1,55 @@
+/**
+ * Brazilian states (UF) and regions.
+ * Kept free of the municipality table so pages can build filters with it.
+ */
+
+export type BrazilianRegion = 'Norte' | 'Nordeste' | 'Centro-Oeste' | 'Sudeste' | 'Sul'
+
+export interface BrazilianState {
+  uf: string
+  name: string
+  region: BrazilianRegion
+  capital: string
+}
+
+export const BRAZILIAN_REGIONS: BrazilianRegion[] = ['Norte', 'Nordeste', 'Centro-Oeste', 'Sudeste', 'Sul']
+
+export const BRAZILIAN_STATES: BrazilianState[] = [
+  { uf: 'AC', name: 'Acre', region: 'Norte', capital: 'Rio Branco' },
+  { uf: 'AL', name: 'Alagoas', region: 'Nordeste', capital: 'Maceió' },
+  { uf: 'AP', name: 'Amapá', region: 'Norte', capital: 'Macapá' },
+  { uf: 'AM', name: 'Amazonas', region: 'Norte', capital: 'Manaus' },
+  { uf: 'BA', name: 'Bahia', region: 'Nordeste', capital: 'Salvador' },
+  { uf: 'CE', name: 'Ceará', region: 'Nordeste', capital: 'Fortaleza' },
+  { uf: 'DF', name: 'Distrito Federal', region: 'Centro-Oeste', capital: 'Brasília' },
+  { uf: 'ES', name: 'Espírito Santo', region: 'Sudeste', capital: 'Vitória' },
+  { uf: 'GO', name: 'Goiás', region: 'Centro-Oeste', capital: 'Goiânia' },
+  { uf: 'MA', name: 'Maranhão', region: 'Nordeste', capital: 'São Luís' },
+  { uf: 'MT', name: 'Mato Grosso', region: 'Centro-Oeste', capital: 'Cuiabá' },
+  { uf: 'MS', name: 'Mato Grosso do Sul', region: 'Centro-Oeste', capital: 'Campo Grande' },
+  { uf: 'MG', name: 'Minas Gerais', region: 'Sudeste', capital: 'Belo Horizonte' },
+  { uf: 'PA', name: 'Pará', region: 'Norte', capital: 'Belém' },
+  { uf: 'PB', name: 'Paraíba', region: 'Nordeste', capital: 'João Pessoa' },
+  { uf: 'PR', name: 'Paraná', region: 'Sul', capital: 'Curitiba' },
+  { uf: 'PE', name: 'Pernambuco', region: 'Nordeste', capital: 'Recife' },
+  { uf: 'PI', name: 'Piauí', region: 'Nordeste', capital: 'Teresina' },
+  { uf: 'RJ', name: 'Rio de Janeiro', region: 'Sudeste', capital: 'Rio de Janeiro' },
+  { uf: 'RN', name: 'Rio Grande do Norte', region: 'Nordeste', capital: 'Natal' },
+  { uf: 'RS', name: 'Rio Grande do Sul', region: 'Sul', capital: 'Porto Alegre' },
+  { uf: 'RO', name: 'Rondônia', region: 'Norte', capital: 'Porto Velho' },
+  { uf: 'RR', name: 'Roraima', region: 'Norte', capital: 'Boa Vista' },
+  { uf: 'SC', name: 'Santa Catarina', region: 'Sul', capital: 'Florianópolis' },
+  { uf: 'SP', name: 'São Paulo', region: 'Sudeste', capital: 'São Paulo' },
+  { uf: 'SE', name: 'Sergipe', region: 'Nordeste', capital: 'Aracaju' },
+  { uf: 'TO', name: 'Tocantins', region: 'Norte', capital: 'Palmas' }
+]
+
+export function getStateByUf(uf: string | null | undefined): BrazilianState | null {
+  if (!uf) return null
+  const code = uf.trim().toUpperCase()
+  return BRAZILIAN_STATES.find(state => state.uf === code) || null
+}
+
+export function getStatesInRegion(region: BrazilianRegion): BrazilianState[] {
+  return BRAZILIAN_STATES.filter(state => state.region === region)
+}
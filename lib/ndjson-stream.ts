@@ -0,0 +1,74 @@
+/**
+ * Newline-delimited JSON streaming
+ * Long-running routes write one JSON message per line so the page can render
+ * progress while the request is still open.
+ */
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+export type NdjsonMessage = { type: string; [key: string]: any }
+
+/**
+ * Build a streaming response; everything passed to `send` is flushed as one line.
+ * A thrown error is reported as a final `{ type: 'error' }` message.
+ */
+export function ndjsonResponse(
+  producer: (send: (message: NdjsonMessage) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: NdjsonMessage) => {
+        controller.enqueue(encoder.encode(JSON.stringify(message) + '\n'))
+      }
+
+      try {
+        await producer(send)
+      } catch (error) {
+        console.error('Streaming error:', error)
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Internal server error' })
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
+
+/**
+ * Read a streaming response line by line (client side). `T` is the union of
+ * messages the endpoint sends, so callers can narrow on `type`.
+ */
+export async function readNdjson<T extends NdjsonMessage = NdjsonMessage>(
+  response: Response,
+  onMessage: (message: T) => void
+): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    lines.filter(line => line.trim()).forEach(line => onMessage(JSON.parse(line)))
+  }
+
+  if (buffer.trim()) {
+    onMessage(JSON.parse(buffer))
+  }
+}
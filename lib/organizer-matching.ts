@@ -0,0 +1,212 @@
+/**
+ * Fuzzy organizer matching
+ * Ticketing pages spell the same organizer in different ways ("IBDiC", "Ibdic",
+ * "Instituto Brasileiro de Direito Contratual"). These helpers decide when two
+ * names (or websites) point to the same organizer. Pure functions, safe to use
+ * on the server and in pages.
+ */
+
+export type OrganizerMatchReason = 'same_name' | 'same_domain' | 'acronym' | 'similar_name'
+
+export interface OrganizerCandidate {
+  organizer_id: string
+  name: string
+  website?: string | null
+}
+
+export interface OrganizerMatch<T extends OrganizerCandidate = OrganizerCandidate> {
+  organizer: T
+  reason: OrganizerMatchReason
+}
+
+// Same normalized name or website: safe to link automatically
+export const STRONG_MATCH_REASONS: OrganizerMatchReason[] = ['same_name', 'same_domain']
+
+export const MATCH_REASON_LABELS: Record<OrganizerMatchReason, string> = {
+  same_name: 'Mesmo nome',
+  same_domain: 'Mesmo site',
+  acronym: 'Sigla',
+  similar_name: 'Nome parecido'
+}
+
+// Words left out of acronyms ("Instituto Brasileiro de Direito" -> IBD)
+const STOPWORDS = new Set(['de', 'da', 'do', 'das', 'dos', 'e', 'em', 'para', 'a', 'o', 'the', 'of', 'and', 'for'])
+
+// Company suffixes that do not tell organizers apart
+const LEGAL_SUFFIXES = /\b(ltda|me|mei|eireli|epp|s a|sa|inc|llc|ltd)$/
+
+// Sites shared by many organizers, so a matching domain means nothing
+const SHARED_DOMAINS = [
+  'instagram.com', 'facebook.com', 'fb.com', 'linkedin.com', 'twitter.com', 'x.com',
+  'youtube.com', 'youtu.be', 'tiktok.com', 'linktr.ee', 'wa.me', 'whatsapp.com',
+  'sympla.com.br', 'eventbrite.com', 'eventbrite.com.br', 'even3.com.br', 'doity.com.br',
+  'meetup.com', 'lu.ma', 'google.com', 'forms.gle', 'bit.ly', 'gmail.com', 'hotmail.com'
+]
+
+const SIMILARITY_THRESHOLD = 0.88
+
+export function normalizeOrganizerName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(LEGAL_SUFFIXES, '')
+    .trim()
+}
+
+/**
+ * Registrable-looking domain of an organizer website, or null for social
+ * networks, ticketing platforms and other shared hosts
+ */
+export function getOrganizerDomain(website: string | null | undefined): string | null {
+  if (!website) return null
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`)
+    const hostname = url.hostname.toLowerCase().replace(/^www\./, '')
+    const shared = SHARED_DOMAINS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))
+    return shared ? null : hostname
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether `short` reads as an acronym of `long`: each significant word of the
+ * long name contributes a prefix, in order ("ibdic" = I·B·Di·C)
+ */
+export function isAcronymOf(short: string, long: string): boolean {
+  const acronym = normalizeOrganizerName(short).replace(/ /g, '')
+  const words = normalizeOrganizerName(long).split(' ').filter(Boolean)
+
+  if (acronym.length < 2 || acronym.length > 12 || words.length < 2) return false
+  if (normalizeOrganizerName(short).includes(' ')) return false
+
+  const matchFrom = (position: number, wordIndex: number): boolean => {
+    if (wordIndex === words.length) return position === acronym.length
+
+    const word = words[wordIndex]
+    // Connectives may be left out of the acronym ("TDC" for The Developers Conference)
+    if (STOPWORDS.has(word) && matchFrom(position, wordIndex + 1)) return true
+    if (acronym[position] !== word[0]) return false
+
+    // Try the longest prefix first so "Di" in "IBDiC" is taken from "Direito"
+    for (let length = Math.min(word.length, acronym.length - position); length >= 1; length--) {
+      if (word.slice(0, length) === acronym.slice(position, position + length) && matchFrom(position + length, wordIndex + 1)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  return matchFrom(0, 0)
+}
+
+// Dice coefficient over character bigrams of the normalized names
+export function nameSimilarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const normalized = normalizeOrganizerName(text).replace(/ /g, '')
+    const result: string[] = []
+    for (let i = 0; i < normalized.length - 1; i++) {
+      result.push(normalized.slice(i, i + 2))
+    }
+    return result
+  }
+
+  const first = bigrams(a)
+  const second = bigrams(b)
+  if (first.length === 0 || second.length === 0) return 0
+
+  const remaining = second.slice()
+  let overlap = 0
+  for (const bigram of first) {
+    const index = remaining.indexOf(bigram)
+    if (index !== -1) {
+      overlap++
+      remaining.splice(index, 1)
+    }
+  }
+
+  return (2 * overlap) / (first.length + second.length)
+}
+
+/**
+ * Why two organizers look like the same one, or null when they do not
+ */
+export function compareOrganizers(
+  a: { name: string; website?: string | null },
+  b: { name: string; website?: string | null }
+): OrganizerMatchReason | null {
+  const nameA = normalizeOrganizerName(a.name)
+  const nameB = normalizeOrganizerName(b.name)
+  if (!nameA || !nameB) return null
+
+  if (nameA === nameB) return 'same_name'
+
+  const domainA = getOrganizerDomain(a.website)
+  if (domainA && domainA === getOrganizerDomain(b.website)) return 'same_domain'
+
+  if (isAcronymOf(a.name, b.name) || isAcronymOf(b.name, a.name)) return 'acronym'
+
+  if (Math.min(nameA.length, nameB.length) >= 6 && nameSimilarity(a.name, b.name) >= SIMILARITY_THRESHOLD) {
+    return 'similar_name'
+  }
+
+  return null
+}
+
+/**
+ * Best existing organizer for a new name/website, strongest reason first
+ */
+export function findOrganizerMatch<T extends OrganizerCandidate>(
+  candidate: { name: string; website?: string | null },
+  organizers: T[]
+): OrganizerMatch<T> | null {
+  const order: OrganizerMatchReason[] = ['same_name', 'same_domain', 'acronym', 'similar_name']
+  let best: OrganizerMatch<T> | null = null
+
+  for (const organizer of organizers) {
+    const reason = compareOrganizers(candidate, organizer)
+    if (reason && (!best || order.indexOf(reason) < order.indexOf(best.reason))) {
+      best = { organizer, reason }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Groups of organizers that look like duplicates of each other, for review.
+ * Each group lists the organizers matched to its first member.
+ */
+export function findDuplicateOrganizerGroups<T extends OrganizerCandidate>(
+  organizers: T[]
+): { organizers: T[]; reasons: OrganizerMatchReason[] }[] {
+  const grouped = new Set<string>()
+  const groups: { organizers: T[]; reasons: OrganizerMatchReason[] }[] = []
+
+  organizers.forEach((organizer, index) => {
+    if (grouped.has(organizer.organizer_id)) return
+
+    const members: T[] = [organizer]
+    const reasons: OrganizerMatchReason[] = []
+
+    for (const other of organizers.slice(index + 1)) {
+      if (grouped.has(other.organizer_id)) continue
+      const reason = compareOrganizers(organizer, other)
+      if (reason) {
+        members.push(other)
+        if (reasons.indexOf(reason) === -1) reasons.push(reason)
+      }
+    }
+
+    if (members.length > 1) {
+      members.forEach(member => grouped.add(member.organizer_id))
+      groups.push({ organizers: members, reasons })
+    }
+  })
+
+  return groups
+}
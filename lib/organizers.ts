@@ -0,0 +1,141 @@
+import { createClient } from '@supabase/supabase-js'
+import { findOrganizerMatch, OrganizerCandidate, OrganizerMatch } from './organizer-matching'
+
+/**
+ * Server-side organizer maintenance: finding the organizer an import should
+ * reuse and merging duplicate organizers into one row.
+ */
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+/**
+ * Existing organizer of this user that looks like the given name/website
+ */
+export async function findMatchingOrganizer(
+  userId: string,
+  name: string,
+  website?: string | null
+): Promise<OrganizerMatch | null> {
+  const { data: organizers, error } = await supabase
+    .from('organizer')
+    .select('organizer_id, name, website')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error loading organizers for matching:', error)
+    return null
+  }
+
+  return findOrganizerMatch({ name, website }, (organizers || []) as OrganizerCandidate[])
+}
+
+/**
+ * Move the contacts, events and leads of the merged organizers into the
+ * survivor and delete them. Returns how many organizers were merged.
+ */
+export async function mergeOrganizers(
+  userId: string,
+  survivorId: string,
+  mergedIds: string[]
+): Promise<{ data: number | null; error: any }> {
+  const { data, error } = await supabase.rpc('merge_organizers', {
+    p_survivor_id: survivorId,
+    p_merged_ids: mergedIds,
+    p_user_id: userId
+  })
+
+  if (!error) {
+    return { data, error: null }
+  }
+
+  console.warn('Database function failed, using fallback:', error)
+
+  // Fallback: same steps as sql/21_merge_organizers.sql, one query at a time
+  try {
+    const { data: organizers, error: organizersError } = await supabase
+      .from('organizer')
+      .select('organizer_id, website, created_at')
+      .eq('user_id', userId)
+      .in('organizer_id', [survivorId, ...mergedIds])
+      .order('created_at', { ascending: true })
+
+    if (organizersError) {
+      return { data: null, error: organizersError }
+    }
+
+    const survivor = organizers?.find(organizer => organizer.organizer_id === survivorId)
+    if (!survivor) {
+      return { data: null, error: { message: 'Organizer not found' } }
+    }
+
+    const merged = (organizers || []).filter(organizer => organizer.organizer_id !== survivorId)
+    const ids = merged.map(organizer => organizer.organizer_id)
+    if (ids.length === 0) {
+      return { data: 0, error: null }
+    }
+
+    // Drop contacts whose email the survivor (or an older merged contact) already has
+    const { data: contacts, error: contactsError } = await supabase
+      .from('contact')
+      .select('contact_id, organizer_id, email')
+      .in('organizer_id', [survivorId, ...ids])
+      .order('created_at', { ascending: true })
+
+    if (contactsError) {
+      return { data: null, error: contactsError }
+    }
+
+    const seenEmails = new Set(
+      (contacts || [])
+        .filter(contact => contact.organizer_id === survivorId && contact.email)
+        .map(contact => contact.email.toLowerCase())
+    )
+    const duplicateContactIds: string[] = []
+    for (const contact of contacts || []) {
+      if (contact.organizer_id === survivorId || !contact.email) continue
+      const email = contact.email.toLowerCase()
+      if (seenEmails.has(email)) {
+        duplicateContactIds.push(contact.contact_id)
+      } else {
+        seenEmails.add(email)
+      }
+    }
+
+    if (duplicateContactIds.length > 0) {
+      const { error } = await supabase.from('contact').delete().in('contact_id', duplicateContactIds)
+      if (error) return { data: null, error }
+    }
+
+    for (const table of ['contact', 'event', 'leads']) {
+      const { error } = await supabase
+        .from(table)
+        .update({ organizer_id: survivorId })
+        .in('organizer_id', ids)
+      if (error) return { data: null, error }
+    }
+
+    const website = merged.find(organizer => organizer.website)?.website
+    if (!survivor.website && website) {
+      const { error } = await supabase.from('organizer').update({ website }).eq('organizer_id', survivorId)
+      if (error) return { data: null, error }
+    }
+
+    const { error: deleteError } = await supabase.from('organizer').delete().in('organizer_id', ids)
+    if (deleteError) {
+      return { data: null, error: deleteError }
+    }
+
+    return { data: ids.length, error: null }
+  } catch (fallbackError) {
+    return { data: null, error: fallbackError }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Parser for the free-text event dates shown on Brazilian ticketing pages,
+ * e.g. "22 out - 2025", "15-16 nov 2024", "15 a 16 de novembro de 2024",
+ * "sáb, 22 out - 2025 · 19:00" or "22/10/2025".
+ * Times are read as Brasília time (UTC-3, no daylight saving since 2019).
+ */
+
+export interface ParsedDateRange {
+  start_at: string
+  end_at: string | null
+}
+
+const BRASILIA_OFFSET_HOURS = 3
+
+const MONTHS: Record<string, number> = {
+  jan: 1, janeiro: 1, january: 1,
+  fev: 2, fevereiro: 2, feb: 2, february: 2,
+  mar: 3, marco: 3, march: 3,
+  abr: 4, abril: 4, apr: 4, april: 4,
+  mai: 5, maio: 5, may: 5,
+  jun: 6, junho: 6, june: 6,
+  jul: 7, julho: 7, july: 7,
+  ago: 8, agosto: 8, aug: 8, august: 8,
+  set: 9, setembro: 9, sep: 9, sept: 9, september: 9,
+  out: 10, outubro: 10, oct: 10, october: 10,
+  nov: 11, novembro: 11, november: 11,
+  dez: 12, dezembro: 12, dec: 12, december: 12
+}
+
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|')
+
+// "15", "15-16", "15 a 16", "15 e 16" followed by an optional "de", a month and an optional year
+const TEXT_DATE = new RegExp(
+  `(\\d{1,2})(?:\\s*(?:-|–|a|e|ate)\\s*(\\d{1,2}))?\\s*(?:de\\s+)?(${MONTH_PATTERN})\\b\\.?(?:\\s*(?:de|-|–|,)?\\s*(\\d{4}))?`,
+  'g'
+)
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/g
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g
+const TIME = /\b(\d{1,2})(?::(\d{2})|h(\d{2})?)(?![\d/])/g
+
+interface DayMatch {
+  day: number
+  month: number
+  year: number | null
+}
+
+/**
+ * Parse a pt-BR date string into ISO start/end timestamps.
+ * Years missing from the text are taken from `referenceDate`, moving to the
+ * next year when the date would be more than two months in the past.
+ * Returns null when no day and month can be found.
+ */
+export function parsePtBrDateRange(text: string | null | undefined, referenceDate: Date = new Date()): ParsedDateRange | null {
+  if (!text) return null
+
+  const normalized = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+
+  const days = findDays(normalized)
+  if (days.length === 0) return null
+
+  resolveYears(days, referenceDate)
+
+  const first = days[0]
+  const last = days[days.length - 1]
+  const times = findTimes(normalized)
+
+  const start = toBrasiliaIso(first, times[0] || null)
+  if (!start) return null
+
+  const isRange = days.length > 1 && (first.day !== last.day || first.month !== last.month || first.year !== last.year)
+  let end: string | null = null
+
+  if (isRange) {
+    // Without an explicit end time a multi-day event runs until the end of its last day
+    end = toBrasiliaIso(last, times[1] || times[0] || { hour: 23, minute: 59 })
+  } else if (times.length > 1) {
+    end = toBrasiliaIso(first, times[1])
+  }
+
+  if (end && end < start) {
+    end = null
+  }
+
+  return { start_at: start, end_at: end }
+}
+
+function findDays(text: string): DayMatch[] {
+  const days: DayMatch[] = []
+
+  for (const match of allMatches(ISO_DATE, text)) {
+    days.push({ day: Number(match[3]), month: Number(match[2]), year: Number(match[1]) })
+  }
+  if (days.length > 0) return days
+
+  for (const match of allMatches(NUMERIC_DATE, text)) {
+    const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : null
+    days.push({ day: Number(match[1]), month: Number(match[2]), year })
+  }
+  if (days.length > 0) return days
+
+  for (const match of allMatches(TEXT_DATE, text)) {
+    const month = MONTHS[match[3]]
+    const year = match[4] ? Number(match[4]) : null
+    days.push({ day: Number(match[1]), month, year })
+    if (match[2]) {
+      days.push({ day: Number(match[2]), month, year })
+    }
+  }
+
+  // A year written once at the end ("15 nov - 2 dez · 2025") applies to every date
+  if (days.length > 0 && days.every(day => day.year === null)) {
+    const standaloneYear = text.match(/\b(20\d{2})\b/)
+    if (standaloneYear) {
+      days[days.length - 1].year = Number(standaloneYear[1])
+    }
+  }
+
+  return days
+}
+
+function resolveYears(days: DayMatch[], referenceDate: Date) {
+  // Fill missing years backwards from the last known one ("30 dez - 2 jan 2026")
+  for (let i = days.length - 2; i >= 0; i--) {
+    const next = days[i + 1]
+    if (days[i].year === null && next.year !== null) {
+      days[i].year = days[i].month > next.month ? next.year - 1 : next.year
+    }
+  }
+
+  const firstKnown = days.find(day => day.year !== null)
+  if (!firstKnown) {
+    const referenceYear = referenceDate.getFullYear()
+    const candidate = Date.UTC(referenceYear, days[0].month - 1, days[0].day)
+    const twoMonthsAgo = referenceDate.getTime() - 60 * 24 * 60 * 60 * 1000
+    days[0].year = candidate < twoMonthsAgo ? referenceYear + 1 : referenceYear
+  }
+
+  // Fill the rest forwards, rolling over the new year when months go backwards
+  for (let i = 1; i < days.length; i++) {
+    const previous = days[i - 1]
+    if (days[i].year === null && previous.year !== null) {
+      days[i].year = days[i].month < previous.month ? previous.year + 1 : previous.year
+    }
+  }
+}
+
+function findTimes(text: string): { hour: number; minute: number }[] {
+  return allMatches(TIME, text)
+    .map(match => ({ hour: Number(match[1]), minute: Number(match[2] || match[3] || 0) }))
+    .filter(time => time.hour < 24 && time.minute < 60)
+}
+
+function allMatches(pattern: RegExp, text: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = []
+  const regex = new RegExp(pattern.source, 'g')
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match)
+  }
+  return matches
+}
+
+function toBrasiliaIso(day: DayMatch, time: { hour: number; minute: number } | null): string | null {
+  if (day.year === null || day.month < 1 || day.month > 12 || day.day < 1) return null
+
+  const hour = time?.hour ?? 0
+  const minute = time?.minute ?? 0
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day, hour + BRASILIA_OFFSET_HOURS, minute))
+
+  // Reject impossible days such as 31/02
+  const local = new Date(date.getTime() - BRASILIA_OFFSET_HOURS * 60 * 60 * 1000)
+  if (local.getUTCDate() !== day.day || local.getUTCMonth() !== day.month - 1) return null
+
+  return date.toISOString()
+}
+
+/**
+ * Human-readable pt-BR date for an event ("22 de outubro de 2025"),
+ * preferring the parsed timestamp over the original text
+ */
+export function formatEventDate(startAt: string | null | undefined, fallbackText?: string | null): string | null {
+  const parsed = startAt || parsePtBrDateRange(fallbackText)?.start_at
+  return (parsed && formatEventDateRange(parsed)) || fallbackText || null
+}
+
+/**
+ * pt-BR date range for display, e.g. "22 de outubro de 2025, 19:00",
+ * "15 a 16 de novembro de 2024" or "30 de dezembro de 2025 a 2 de janeiro de 2026".
+ * Dates are shown in the event's timezone when known, otherwise in Brasília time.
+ */
+export function formatEventDateRange(
+  startAt: string,
+  endAt?: string | null,
+  timezone?: string | null,
+  options: { withTime?: boolean } = {}
+): string | null {
+  const start = new Date(startAt)
+  if (isNaN(start.getTime())) return null
+
+  const end = endAt ? new Date(endAt) : null
+  const timeZone = toIntlTimeZone(timezone)
+
+  const parts = (date: Date) => {
+    const format = (opts: Intl.DateTimeFormatOptions) => date.toLocaleString('pt-BR', { timeZone, ...opts })
+    return {
+      day: format({ day: 'numeric' }),
+      month: format({ month: 'long' }),
+      year: format({ year: 'numeric' }),
+      time: format({ hour: '2-digit', minute: '2-digit' })
+    }
+  }
+
+  const s = parts(start)
+  const e = end && !isNaN(end.getTime()) ? parts(end) : null
+  const showTime = options.withTime && s.time !== '00:00'
+
+  if (!e || (e.day === s.day && e.month === s.month && e.year === s.year)) {
+    const date = `${s.day} de ${s.month} de ${s.year}`
+    if (!showTime) return date
+    return e && e.time !== s.time ? `${date}, ${s.time}–${e.time}` : `${date}, ${s.time}`
+  }
+
+  const startTime = showTime ? `, ${s.time}` : ''
+
+  if (e.month === s.month && e.year === s.year) {
+    return `${s.day} a ${e.day} de ${s.month} de ${s.year}${startTime}`
+  }
+
+  if (e.year === s.year) {
+    return `${s.day} de ${s.month} a ${e.day} de ${e.month} de ${s.year}${startTime}`
+  }
+
+  return `${s.day} de ${s.month} de ${s.year} a ${e.day} de ${e.month} de ${e.year}${startTime}`
+}
+
+// Intl only takes IANA names; whole-hour offsets map to the Etc/GMT zones (sign inverted)
+function toIntlTimeZone(timezone?: string | null): string {
+  if (timezone && timezone.includes('/')) {
+    try {
+      new Intl.DateTimeFormat('pt-BR', { timeZone: timezone })
+      return timezone
+    } catch {
+      // Unknown zone, fall through
+    }
+  }
+
+  const offset = timezone?.match(/^([+-])(\d{2}):?00$/)
+  if (offset) {
+    const hours = Number(offset[2])
+    return hours === 0 ? 'UTC' : `Etc/GMT${offset[1] === '-' ? '+' : '-'}${hours}`
+  }
+
+  return 'America/Sao_Paulo'
+}
@@ -0,0 +1,314 @@
+import * as cheerio from 'cheerio'
+import { inflateRawSync } from 'zlib'
+
+/**
+ * Spreadsheet reading for the lead import
+ * Turns an uploaded CSV or XLSX file into rows of cell text. XLSX files are
+ * zip archives of XML parts, read here with zlib and cheerio; only the first
+ * sheet is imported. Dates come out as dd/mm/yyyy, the form the pt-BR date
+ * parser and the leads page understand.
+ */
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.txt', '.xlsx']
+
+// Larger files are refused before parsing
+export const MAX_SPREADSHEET_BYTES = 5 * 1024 * 1024
+export const MAX_SPREADSHEET_ROWS = 2000
+// Excel's column limit (XFD)
+const MAX_SPREADSHEET_COLUMNS = 16384
+// Largest XLSX part inflated; the upload cap alone does not stop a zip bomb
+const MAX_ZIP_ENTRY_BYTES = 5 * MAX_SPREADSHEET_BYTES
+
+export type SpreadsheetRows = string[][]
+
+/**
+ * Rows of the first sheet, header row included
+ */
+export function readSpreadsheet(fileName: string, content: Buffer): { data: SpreadsheetRows | null; error: string | null } {
+  const name = fileName.toLowerCase()
+
+  if (content.length > MAX_SPREADSHEET_BYTES) {
+    return { data: null, error: 'File is too large' }
+  }
+
+  try {
+    const rows = name.endsWith('.xlsx') || isZip(content)
+      ? readXlsx(content)
+      : parseCsv(decodeText(content))
+
+    const filled = rows.filter(row => row.some(cell => cell.trim() !== ''))
+    if (filled.length === 0) {
+      return { data: null, error: 'The spreadsheet is empty' }
+    }
+    if (filled.length > MAX_SPREADSHEET_ROWS + 1) {
+      return { data: null, error: `The spreadsheet has more than ${MAX_SPREADSHEET_ROWS} rows` }
+    }
+
+    return { data: trimTrailingRows(rows), error: null }
+  } catch (error) {
+    console.error(`Error reading spreadsheet ${fileName}:`, error)
+    return { data: null, error: 'Could not read the spreadsheet' }
+  }
+}
+
+// CSV
+
+/**
+ * RFC 4180 CSV with the delimiter guessed from the header line; Excel in
+ * pt-BR saves with semicolons
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const delimiter = detectDelimiter(text)
+  const rows: SpreadsheetRows = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  const counts = [';', ',', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1
+  }))
+
+  counts.sort((a, b) => b.count - a.count)
+  return counts[0].count > 0 ? counts[0].delimiter : ','
+}
+
+// UTF-8 unless the bytes are not valid UTF-8, which is what Excel's
+// "CSV" export produces on Windows (Windows-1252, close enough to latin1)
+function decodeText(content: Buffer): string {
+  const text = content.toString('utf8')
+  const decoded = text.indexOf('\ufffd') !== -1 ? content.toString('latin1') : text
+  return decoded.replace(/^\ufeff/, '')
+}
+
+function trimTrailingRows(rows: SpreadsheetRows): SpreadsheetRows {
+  let end = rows.length
+  while (end > 0 && rows[end - 1].every(cell => cell.trim() === '')) end--
+  return rows.slice(0, end)
+}
+
+// XLSX
+
+function isZip(content: Buffer): boolean {
+  return content.length > 4 && content.readUInt32LE(0) === 0x04034b50
+}
+
+/**
+ * Files of a zip archive by path, decompressed on demand
+ */
+function readZipEntries(content: Buffer): Map<string, () => Buffer> {
+  // The end of central directory record sits within the last 64 KB (its comment)
+  let end = -1
+  for (let i = content.length - 22; i >= Math.max(0, content.length - 22 - 0xffff); i--) {
+    if (content.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+
+  if (end === -1) {
+    throw new Error('Not a zip file')
+  }
+
+  const entries = new Map<string, () => Buffer>()
+  const entryCount = content.readUInt16LE(end + 10)
+  let offset = content.readUInt32LE(end + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (content.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory')
+    }
+
+    const method = content.readUInt16LE(offset + 10)
+    const compressedSize = content.readUInt32LE(offset + 20)
+    const uncompressedSize = content.readUInt32LE(offset + 24)
+    const nameLength = content.readUInt16LE(offset + 28)
+    const extraLength = content.readUInt16LE(offset + 30)
+    const commentLength = content.readUInt16LE(offset + 32)
+    const localOffset = content.readUInt32LE(offset + 42)
+    const name = content.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    entries.set(name, () => {
+      if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) {
+        throw new Error(`Zip entry ${name} is too large (${uncompressedSize} bytes)`)
+      }
+      const dataStart = localOffset + 30 + content.readUInt16LE(localOffset + 26) + content.readUInt16LE(localOffset + 28)
+      const data = content.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return data
+      // The declared size can lie; the output limit makes inflating throw past it
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES })
+      throw new Error(`Unsupported zip compression method ${method}`)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+// Built-in Excel number formats that show a date
+const DATE_FORMAT_IDS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]
+
+function readXlsx(content: Buffer): SpreadsheetRows {
+  const entries = readZipEntries(content)
+  const readXml = (path: string) => {
+    const entry = entries.get(path)
+    return entry ? cheerio.load(entry().toString('utf8'), { xml: true }) : null
+  }
+
+  const sheetPath = findFirstSheetPath(readXml)
+  const sheet = readXml(sheetPath)
+  if (!sheet) {
+    throw new Error(`Missing sheet ${sheetPath}`)
+  }
+
+  const sharedStrings = readSharedStrings(readXml('xl/sharedStrings.xml'))
+  const dateStyles = readDateStyles(readXml('xl/styles.xml'))
+  const rows: SpreadsheetRows = []
+
+  sheet('sheetData > row').each((_, rowElement) => {
+    const rowNumber = Number(sheet(rowElement).attr('r')) || rows.length + 1
+    // One row past the limit is enough to refuse the file
+    if (rowNumber > MAX_SPREADSHEET_ROWS + 2) return false
+
+    // Rows left out of the file are empty in the sheet
+    while (rows.length < rowNumber - 1) rows.push([])
+
+    const row: string[] = []
+    sheet(rowElement).children('c').each((_, cellElement) => {
+      const cell = sheet(cellElement)
+      const column = columnIndex(cell.attr('r')) ?? row.length
+      while (row.length < column) row.push('')
+
+      const type = cell.attr('t')
+      const value = cell.children('v').text()
+      let text: string
+
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || ''
+      } else if (type === 'inlineStr') {
+        text = cell.find('is t').text()
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE'
+      } else if ((!type || type === 'n') && value && dateStyles.has(Number(cell.attr('s')))) {
+        text = formatSerialDate(Number(value))
+      } else {
+        text = value
+      }
+
+      row[column] = text
+    })
+
+    rows.push(row)
+  })
+
+  return rows
+}
+
+function findFirstSheetPath(readXml: (path: string) => cheerio.CheerioAPI | null): string {
+  const workbook = readXml('xl/workbook.xml')
+  const relations = readXml('xl/_rels/workbook.xml.rels')
+  const relationId = workbook?.('sheets > sheet').first().attr('r:id')
+
+  const target = relationId && relations
+    ? relations('Relationship').filter((_, element) => relations(element).attr('Id') === relationId).attr('Target')
+    : undefined
+
+  if (!target) return 'xl/worksheets/sheet1.xml'
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+function readSharedStrings($: cheerio.CheerioAPI | null): string[] {
+  if (!$) return []
+
+  return $('sst > si').map((_, item) =>
+    // Phonetic runs (rPh) are not part of the text
+    $(item).find('t').filter((_, t) => $(t).parents('rPh').length === 0).text()
+  ).get()
+}
+
+// Style indexes (the "s" attribute of cells) whose number format is a date
+function readDateStyles($: cheerio.CheerioAPI | null): Set<number> {
+  const styles = new Set<number>()
+  if (!$) return styles
+
+  const customDateFormats = new Set<number>()
+  $('numFmts > numFmt').each((_, element) => {
+    // Quoted literals and [color]/[locale] sections do not count
+    const code = ($(element).attr('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+    if (/[dy]/i.test(code)) {
+      customDateFormats.add(Number($(element).attr('numFmtId')))
+    }
+  })
+
+  $('cellXfs > xf').each((index, element) => {
+    const formatId = Number($(element).attr('numFmtId'))
+    if (DATE_FORMAT_IDS.indexOf(formatId) !== -1 || customDateFormats.has(formatId)) {
+      styles.add(index)
+    }
+  })
+
+  return styles
+}
+
+// "C12" -> 2
+function columnIndex(reference: string | undefined): number | null {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0].toUpperCase()
+  if (!letters) return null
+
+  let index = 0
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64)
+    // Past Excel's last column (XFD) the file was not written by a spreadsheet;
+    // padding the row up to the column would exhaust memory
+    if (index > MAX_SPREADSHEET_COLUMNS) {
+      throw new Error(`Cell reference ${reference} is past the last column`)
+    }
+  }
+  return index - 1
+}
+
+// Excel day 0 is 1899-12-30 (the 1900 leap year bug included)
+function formatSerialDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400) * 1000)
+  const pad = (value: number) => `0${value}`.slice(-2)
+  return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`
+}
@@ -1,4 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
+import type { EventStatus } from './event-sources/event-status'
+import type { EventFormat, TicketTier } from './event-sources/event-details'
+import type { ExtractedEvent } from './event-sources/types'
+import type { LeadOrigin } from './lead-origins'
+import type { EventSegment, OrganizerSegmentSource, SegmentSource } from './event-segments'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -16,6 +21,9 @@ export type Organizer = {
   name: string
   website: string | null
   user_id: string
+  // Industry segment (see lib/event-segments.ts)
+  segment: EventSegment | null
+  segment_source: OrganizerSegmentSource | null
   created_at: string
   updated_at: string
 }
@@ -25,9 +33,50 @@ export type Event = {
   nome_evento: string
   data_evento: string
   local: string
-  sympla_url: string
+  // NULL for events entered without an event page (spreadsheet imports)
+  sympla_url: string | null
   organizer_id: string
   user_id: string
+  // "<platform>:<event id>", see lib/event-sources/event-urls.ts
+  event_key: string | null
+  source: string | null
+  start_at: string | null
+  end_at: string | null
+  date_parse_failed: boolean
+  timezone: string | null
+  description: string | null
+  // Normalized from `local` (see lib/location)
+  venue: string | null
+  street: string | null
+  city: string | null
+  state: string | null
+  country: string | null
+  ibge_code: string | null
+  location_parse_failed: boolean
+  field_sources: Record<string, 'json_ld' | 'next_data' | 'meta' | 'html' | 'llm' | 'manual'>
+  // 0 to 1 per field (see lib/event-sources/field-confidence.ts)
+  field_confidence: Record<string, number>
+  // Size and shape of the event (see lib/event-sources/event-details.ts)
+  ticket_tiers: TicketTier[]
+  price_min: number | null
+  price_max: number | null
+  price_currency: string | null
+  capacity: number | null
+  attendance_hint: string | null
+  format: EventFormat | null
+  categories: string[]
+  // Industry segment (see lib/event-classification.ts)
+  segment: EventSegment | null
+  segment_source: SegmentSource | null
+  // Set when the LLM could not place the event, so it is not asked again
+  segment_llm_attempted_at: string | null
+  // Kept up to date by the refresh job (see lib/event-refresh.ts)
+  status: EventStatus
+  last_refreshed_at: string | null
+  last_changed_at: string | null
+  changes_seen_at: string | null
+  refresh_failures: number
+  gone_checks: number
   created_at: string
   updated_at: string
 }
@@ -52,6 +101,8 @@ export type Lead = {
   data_ultima_busca: string | null
   hunter_domain: string | null
   status_busca: 'pendente' | 'buscando' | 'encontrado' | 'nao_encontrado' | 'erro'
+  // How the lead reached us, see lib/lead-origins.ts
+  origin: LeadOrigin
   created_at: string
   updated_at: string
 }
@@ -77,10 +128,20 @@ export type LegacyLead = {
 }
 
 // Insert and Update types for new schema
-export type OrganizerInsert = Omit<Organizer, 'organizer_id' | 'created_at' | 'updated_at'>
+export type OrganizerInsert = Omit<Organizer, 'organizer_id' | 'segment' | 'segment_source' | 'created_at' | 'updated_at'> &
+  Partial<Pick<Organizer, 'segment' | 'segment_source'>>
 export type OrganizerUpdate = Partial<Omit<Organizer, 'organizer_id' | 'user_id' | 'created_at' | 'updated_at'>>
 
-export type EventInsert = Omit<Event, 'event_id' | 'created_at' | 'updated_at'>
+// Columns filled after import (see recordEventDetails in lib/lead-ingestion.ts) or by the refresh job
+type EventDetailColumns =
+  | 'event_key' | 'source' | 'start_at' | 'end_at' | 'date_parse_failed' | 'timezone' | 'description' | 'field_sources' | 'field_confidence'
+  | 'venue' | 'street' | 'city' | 'state' | 'country' | 'ibge_code' | 'location_parse_failed'
+  | 'status' | 'last_refreshed_at' | 'last_changed_at' | 'changes_seen_at' | 'refresh_failures' | 'gone_checks'
+  | 'ticket_tiers' | 'price_min' | 'price_max' | 'price_currency' | 'capacity' | 'attendance_hint' | 'format' | 'categories'
+  | 'segment' | 'segment_source' | 'segment_llm_attempted_at'
+
+export type EventInsert = Omit<Event, 'event_id' | EventDetailColumns | 'created_at' | 'updated_at'> &
+  Partial<Pick<Event, EventDetailColumns>>
 export type EventUpdate = Partial<Omit<Event, 'event_id' | 'user_id' | 'created_at' | 'updated_at'>>
 
 export type ContactInsert = Omit<Contact, 'contact_id' | 'created_at' | 'updated_at'>
@@ -122,6 +183,141 @@ export type ContactSummary = Contact & {
   organizer: Organizer
 }
 
+// Background ingestion jobs
+export type IngestionJobStatus = 'queued' | 'running' | 'completed'
+export type IngestionItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'duplicate' | 'review'
+
+export type IngestionJob = {
+  job_id: string
+  user_id: string
+  source: 'links' | 'sympla_discovery' | 'spreadsheet'
+  status: IngestionJobStatus
+  options: Record<string, any>
+  created_at: string
+  updated_at: string
+  finished_at: string | null
+}
+
+export type IngestionJobItem = {
+  item_id: string
+  job_id: string
+  user_id: string
+  url: string
+  status: IngestionItemStatus
+  options: Record<string, any>
+  lead_id: string | null
+  event_name: string | null
+  organizer_name: string | null
+  error: string | null
+  attempts: number
+  started_at: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type IngestionJobSummary = IngestionJob & {
+  total_items: number
+  item_counts: Record<IngestionItemStatus, number>
+}
+
+// Pages kept from an event import (see lib/event-snapshots.ts)
+export type EventSnapshot = {
+  snapshot_id: string
+  event_id: string
+  user_id: string
+  url: string
+  via: 'fetch' | 'browser'
+  html: string
+  screenshot_path: string | null
+  created_at: string
+}
+
+// Snapshot listing without the HTML, with a temporary link to the screenshot
+export type EventSnapshotSummary = Omit<EventSnapshot, 'html'> & {
+  screenshot_url: string | null
+}
+
+// Field change found by the event refresh job
+export type EventChange = {
+  change_id: string
+  event_id: string
+  user_id: string
+  field: 'nome_evento' | 'data_evento' | 'start_at' | 'end_at' | 'local' | 'status'
+  old_value: string | null
+  new_value: string | null
+  detected_at: string
+}
+
+// Low-confidence import waiting in the review queue (see lib/extraction-reviews.ts)
+export type ExtractionReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export type ExtractionReview = {
+  review_id: string
+  user_id: string
+  status: ExtractionReviewStatus
+  url: string
+  event_key: string
+  source: string
+  event_data: ExtractedEvent & { event_url: string; event_key: string; source: string }
+  // Fields below the review threshold, weakest first
+  low_fields: string[]
+  page_url: string | null
+  page_via: 'fetch' | 'browser' | null
+  job_id: string | null
+  item_id: string | null
+  llm_usage_ids: string[]
+  lead_id: string | null
+  created_at: string
+  reviewed_at: string | null
+}
+
+export type { EventStatus }
+
+export type LlmUsagePurpose = 'extraction' | 'refresh' | 'email_generation' | 'classification'
+
+// One recorded LLM call (cost is an estimate, see lib/llm/pricing.ts)
+export type LlmUsage = {
+  usage_id: string
+  user_id: string
+  purpose: LlmUsagePurpose
+  provider: string
+  model: string
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+  latency_ms: number
+  success: boolean
+  error: string | null
+  lead_id: string | null
+  event_id: string | null
+  job_id: string | null
+  item_id: string | null
+  source_url: string | null
+  created_at: string
+  // From the related event, in usage reports
+  event_name?: string | null
+}
+
+export type LlmUsageTotals = {
+  calls: number
+  failed_calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+  avg_latency_ms: number
+}
+
+export type LlmUsageReport = {
+  // Oldest first; "YYYY-MM"
+  months: Array<LlmUsageTotals & { month: string }>
+  current_month: {
+    by_model: Array<LlmUsageTotals & { model: string }>
+    by_purpose: Array<LlmUsageTotals & { purpose: LlmUsagePurpose }>
+  }
+  recent: LlmUsage[]
+}
+
 // For creating complete leads with all related data
 export type CompleteLeadInput = {
   nome_evento: string
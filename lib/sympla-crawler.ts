@@ -0,0 +1,164 @@
+import * as cheerio from 'cheerio'
+import { politeFetch } from './event-sources/polite-fetch'
+
+export interface SymplaDiscoveryOptions {
+  listingUrl?: string
+  keyword?: string
+  city?: string
+  maxPages?: number
+}
+
+export interface SymplaDiscoveryResult {
+  eventUrls: string[]
+  pagesVisited: number
+}
+
+const DEFAULT_MAX_PAGES = 5
+const MAX_PAGES_LIMIT = 20
+
+export class SymplaCrawler {
+  /**
+   * Walks a Sympla search/category/city listing page by page and collects
+   * every event URL it links to. Stops when a page yields no new events.
+   */
+  static async discoverEventUrls(options: SymplaDiscoveryOptions): Promise<SymplaDiscoveryResult> {
+    const startUrl = options.listingUrl?.trim()
+      ? options.listingUrl.trim()
+      : this.buildSearchUrl(options.keyword || '', options.city)
+
+    if (!this.isSymplaListingUrl(startUrl)) {
+      throw new Error('Invalid Sympla listing URL')
+    }
+
+    const maxPages = Math.min(Math.max(options.maxPages || DEFAULT_MAX_PAGES, 1), MAX_PAGES_LIMIT)
+    const eventUrls = new Set<string>()
+    let pagesVisited = 0
+
+    for (let page = 1; page <= maxPages; page++) {
+      const pageUrl = this.withPage(startUrl, page)
+      console.log(`[SymplaCrawler] Fetching listing page ${page}: ${pageUrl}`)
+
+      const response = await politeFetch(pageUrl, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8'
+        }
+      })
+
+      if (!response.ok) {
+        if (page === 1) {
+          throw new Error(`Failed to fetch Sympla listing page: ${response.status}`)
+        }
+        console.log(`[SymplaCrawler] Listing page ${page} returned ${response.status}, stopping`)
+        break
+      }
+
+      const html = await response.text()
+      pagesVisited++
+
+      const found = this.extractEventUrls(html)
+      const before = eventUrls.size
+      found.forEach(url => eventUrls.add(url))
+      const added = eventUrls.size - before
+
+      console.log(`[SymplaCrawler] Page ${page}: ${found.length} event links, ${added} new`)
+
+      if (added === 0) {
+        break
+      }
+    }
+
+    return {
+      eventUrls: Array.from(eventUrls),
+      pagesVisited
+    }
+  }
+
+  /**
+   * Builds a Sympla search URL from a keyword and an optional city
+   * (e.g. "São Paulo, SP" becomes /eventos/sao-paulo-sp)
+   */
+  static buildSearchUrl(keyword: string, city?: string): string {
+    const citySlug = city ? this.slugify(city) : ''
+    const url = new URL(`https://www.sympla.com.br/eventos${citySlug ? `/${citySlug}` : ''}`)
+    if (keyword.trim()) {
+      url.searchParams.set('s', keyword.trim())
+    }
+    return url.toString()
+  }
+
+  static isSymplaEventUrl(url: string): boolean {
+    try {
+      const urlObj = new URL(url)
+      if (!urlObj.hostname.includes('sympla.com.br')) return false
+      return /^\/(evento|evento-online)\/[^/]+\/\d+/.test(urlObj.pathname) || /__\d+\/?$/.test(urlObj.pathname)
+    } catch {
+      return false
+    }
+  }
+
+  private static isSymplaListingUrl(url: string): boolean {
+    try {
+      const urlObj = new URL(url)
+      return urlObj.hostname.includes('sympla.com.br') && !this.isSymplaEventUrl(url)
+    } catch {
+      return false
+    }
+  }
+
+  private static extractEventUrls(html: string): string[] {
+    const $ = cheerio.load(html)
+    const urls = new Set<string>()
+
+    // Event cards link straight to the event page
+    $('a[href]').each((_, el) => {
+      const href = $(el).attr('href')
+      if (!href) return
+      try {
+        const absolute = new URL(href, 'https://www.sympla.com.br').toString()
+        if (this.isSymplaEventUrl(absolute)) {
+          urls.add(this.stripQuery(absolute))
+        }
+      } catch {
+        // Ignore malformed hrefs
+      }
+    })
+
+    // Listings rendered client-side keep the event URLs in embedded JSON
+    const embeddedPattern = /https?:\\?\/\\?\/(?:www\.)?sympla\.com\.br\\?\/(?:evento(?:-online)?\\?\/[^"'\s<>\\]+\\?\/\d+|[^"'\s<>\\]+__\d+)/g
+    const matches = html.match(embeddedPattern) || []
+    matches.forEach(match => {
+      const url = match.replace(/\\\//g, '/')
+      if (this.isSymplaEventUrl(url)) {
+        urls.add(this.stripQuery(url))
+      }
+    })
+
+    return Array.from(urls)
+  }
+
+  private static withPage(url: string, page: number): string {
+    const urlObj = new URL(url)
+    if (page > 1) {
+      urlObj.searchParams.set('page', page.toString())
+    }
+    return urlObj.toString()
+  }
+
+  private static stripQuery(url: string): string {
+    const urlObj = new URL(url)
+    urlObj.search = ''
+    urlObj.hash = ''
+    return urlObj.toString()
+  }
+
+  private static slugify(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  }
+}
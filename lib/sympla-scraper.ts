@@ -0,0 +1,30 @@
+import {
+  parseStructuredEvent,
+  REQUIRED_EVENT_FIELDS,
+  FieldSource,
+  RequiredEventField,
+  StructuredEventData,
+  StructuredParseResult
+} from './event-sources/structured-data'
+
+export type { FieldSource }
+export type SymplaEventData = StructuredEventData
+export type SymplaField = RequiredEventField
+export type SymplaParseResult = StructuredParseResult
+
+// Fields every Sympla extraction must fill, in the order the LLM is asked for them
+export const SYMPLA_REQUIRED_FIELDS = REQUIRED_EVENT_FIELDS
+
+export class SymplaScraper {
+  /**
+   * Reads the event from the structured data embedded in a Sympla page
+   * (JSON-LD, Next.js page props, meta tags and the "Sobre o produtor" block).
+   * Fields that could not be found are listed in `missing`.
+   */
+  static parseHtml(html: string): SymplaParseResult {
+    return parseStructuredEvent(html, {
+      organizerHeadings: ['sobre o produtor'],
+      titleSuffix: /\s*[-|]\s*Sympla.*$/i
+    })
+  }
+}
@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Loaded at runtime only when SCRAPER_PROXY_URL is set (lib/event-sources/polite-fetch.ts)
+    serverComponentsExternalPackages: ['undici']
+  }
+}
 
 module.exports = nextConfig
\ No newline at end of file
@@ -0,0 +1,323 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { resolveEventSource, extractFromPage, ExtractedEvent } from '../lib/event-sources'
+import { createMockClient, JsonSchema } from '../lib/llm'
+import { fetchHtml } from '../lib/event-sources/page-fetcher'
+
+/**
+ * Offline regression suite for the event extractors.
+ * Every fixture in scripts/fixtures/extraction is a recorded event page
+ * (<name>.html) with the URL it came from and the fields the extraction must
+ * produce (<name>.json). The pages run through the same adapters as an import,
+ * with network access blocked and the mock LLM answering from the fixture's
+ * `llm_response` (its answers still go through schema validation), and the
+ * output is compared field by field.
+ *
+ *   npm run test:extraction                          run every fixture
+ *   npm run test:extraction -- --only sympla         fixtures whose name contains "sympla"
+ *   npm run test:extraction -- --report report.json  also write the results as JSON
+ *   npm run test:extraction -- --verbose             keep the extractors' logs
+ *   npm run test:extraction -- --record <url> <name> download a page into a new fixture
+ *
+ * Recorded fixtures take the current output as `expected`: check every value
+ * against the page before committing one.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'extraction')
+
+// Fields compared when a fixture lists them in `expected`
+const FIELDS: Array<keyof ExtractedEvent> = [
+  'nome_evento', 'data_evento', 'local', 'produtor', 'website', 'start_at', 'end_at', 'timezone',
+  'format', 'attendance_hint', 'price_min', 'price_max'
+]
+const INSTANT_FIELDS: Array<keyof ExtractedEvent> = ['start_at', 'end_at']
+
+interface Fixture {
+  name: string
+  description?: string
+  url: string
+  // What the stubbed LLM answers when the extractor asks for missing fields
+  llm_response?: Partial<ExtractedEvent>
+  // null means the field must be absent
+  expected: Partial<Record<keyof ExtractedEvent, string | number | null>>
+}
+
+interface FieldResult {
+  field: keyof ExtractedEvent
+  expected: string | null
+  actual: string | null
+  source?: string
+  confidence?: number
+  ok: boolean
+}
+
+interface FixtureResult {
+  name: string
+  platform: string
+  error: string | null
+  llm_fields: string[]
+  fields: FieldResult[]
+}
+
+// Dates are formatted in the server's zone; fixtures are recorded in Brasília time
+process.env.TZ = 'America/Sao_Paulo'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => {
+    const index = args.indexOf(name)
+    return index === -1 ? undefined : args[index + 1]
+  }
+
+  if (args.indexOf('--record') !== -1) {
+    const url = option('--record')
+    const name = args[args.indexOf('--record') + 2]
+    if (!url || !name) {
+      console.error('Usage: --record <url> <fixture-name>')
+      process.exit(1)
+    }
+    await recordFixture(url, name)
+    return
+  }
+
+  const only = option('--only')
+  const fixtures = loadFixtures().filter(fixture => !only || fixture.name.indexOf(only) !== -1)
+  if (fixtures.length === 0) {
+    console.error(`No fixtures found in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  blockNetwork()
+
+  const results: FixtureResult[] = []
+  for (const fixture of fixtures) {
+    results.push(await runFixture(fixture, args.indexOf('--verbose') !== -1))
+  }
+
+  printResults(results)
+
+  const reportPath = option('--report')
+  if (reportPath) {
+    fs.writeFileSync(reportPath, JSON.stringify({ accuracy: fieldAccuracy(results), fixtures: results }, null, 2))
+    console.log(`\nReport written to ${reportPath}`)
+  }
+
+  const failed = results.some(result => result.error || result.fields.some(field => !field.ok))
+  process.exit(failed ? 1 : 0)
+}
+
+// FIXTURES
+
+function loadFixtures(): Fixture[] {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const name = file.replace(/\.json$/, '')
+      return { name, ...JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) }
+    })
+}
+
+async function runFixture(fixture: Fixture, verbose: boolean): Promise<FixtureResult> {
+  const { adapter, error } = resolveEventSource(fixture.url)
+  const result: FixtureResult = { name: fixture.name, platform: adapter?.id || 'unknown', error: null, llm_fields: [], fields: [] }
+
+  if (!adapter) {
+    result.error = error
+    return result
+  }
+
+  const html = fs.readFileSync(path.join(FIXTURES_DIR, `${fixture.name}.html`), 'utf8')
+
+  // The mock answers only the fields the schema asks for, from the fixture,
+  // sure of the ones it has; without an `llm_response` it answers "Não informado"
+  const llm = createMockClient(request => {
+    const fields = askedFields(request.schema)
+    if (result.llm_fields.length === 0) result.llm_fields.push(...fields)
+    if (!fixture.llm_response) return null
+
+    const answer: Record<string, any> = { confidence: {} }
+    fields.forEach(field => {
+      const value = (fixture.llm_response as Record<string, unknown>)[field]
+      answer[field] = value ?? 'Não informado'
+      answer.confidence[field] = value ? 1 : 0
+    })
+    return answer
+  })
+
+  const { data, error: extractError } = await quietly(!verbose, () =>
+    extractFromPage(adapter, { url: fixture.url, html, via: 'fetch' }, { llm })
+  )
+
+  if (!data) {
+    result.error = extractError
+    return result
+  }
+
+  result.fields = FIELDS
+    .filter(field => field in fixture.expected)
+    .map(field => {
+      const expected = fieldText(fixture.expected[field])
+      const actual = fieldText(data[field])
+      return {
+        field,
+        expected,
+        actual,
+        source: data.field_sources?.[field],
+        confidence: data.field_confidence?.[field],
+        ok: sameValue(field, expected, actual)
+      }
+    })
+
+  return result
+}
+
+// Event fields in an LLM request, without the confidence block
+function askedFields(schema: JsonSchema): string[] {
+  return Object.keys(schema.properties || {}).filter(field => field !== 'confidence')
+}
+
+// Prices are numbers; they are compared as text like the other fields
+function fieldText(value: unknown): string | null {
+  if (typeof value === 'number') return String(value)
+  return typeof value === 'string' ? value : null
+}
+
+function sameValue(field: keyof ExtractedEvent, expected: string | null, actual: string | null): boolean {
+  if (!expected || !actual) return !expected && !actual
+
+  if (INSTANT_FIELDS.indexOf(field) !== -1) {
+    return new Date(expected).getTime() === new Date(actual).getTime()
+  }
+
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim()
+  return normalize(expected) === normalize(actual)
+}
+
+/**
+ * Download a live page and save it with the current extraction as the
+ * expected output (LLM answers are not recorded: the fields it would fill are
+ * left out of `expected`)
+ */
+async function recordFixture(url: string, name: string) {
+  const { adapter, error } = resolveEventSource(url)
+  if (!adapter) {
+    console.error(error)
+    process.exit(1)
+  }
+
+  const page = await fetchHtml(url)
+  const llmFields: string[] = []
+  const llm = createMockClient(request => {
+    llmFields.push(...askedFields(request.schema))
+    return null
+  })
+  const { data } = await extractFromPage(adapter, page, { llm })
+
+  const expected: Fixture['expected'] = {}
+  FIELDS.forEach(field => {
+    const value = data?.[field]
+    if ((typeof value === 'string' || typeof value === 'number') && data?.field_sources?.[field] !== 'llm') {
+      expected[field] = value
+    }
+  })
+
+  fs.writeFileSync(path.join(FIXTURES_DIR, `${name}.html`), page.html)
+  fs.writeFileSync(path.join(FIXTURES_DIR, `${name}.json`), JSON.stringify({
+    description: `Recorded from ${url} on ${new Date().toISOString().slice(0, 10)}`,
+    url,
+    expected
+  }, null, 2) + '\n')
+
+  console.log(`Saved fixture "${name}" (${page.html.length} chars)`)
+  if (!data) console.log('The extraction found nothing: fill in `expected` by hand')
+  if (llmFields.length > 0) console.log(`The LLM would be asked for: ${llmFields.join(', ')}; add them as \`llm_response\` and \`expected\``)
+  console.log('Check every expected value against the page before committing the fixture.')
+}
+
+// REPORT
+
+function fieldAccuracy(results: FixtureResult[]): Record<string, { correct: number; total: number }> {
+  const accuracy: Record<string, { correct: number; total: number }> = {}
+
+  results.forEach(result => {
+    result.fields.forEach(({ field, ok }) => {
+      accuracy[field] = accuracy[field] || { correct: 0, total: 0 }
+      accuracy[field].total++
+      if (ok) accuracy[field].correct++
+    })
+  })
+
+  return accuracy
+}
+
+function printResults(results: FixtureResult[]) {
+  console.log('Extraction fixtures')
+  console.log('----------------------------------------')
+
+  results.forEach(result => {
+    const failures = result.fields.filter(field => !field.ok)
+    const status = result.error || failures.length > 0 ? '❌' : '✅'
+    const llm = result.llm_fields.length > 0 ? ` (LLM: ${result.llm_fields.join(', ')})` : ''
+    console.log(`${status} ${result.name} [${result.platform}]${llm}`)
+
+    if (result.error) {
+      console.log(`   ${result.error}`)
+    }
+    failures.forEach(({ field, expected, actual, source, confidence }) => {
+      console.log(`   ${field}${source ? ` (${source}${confidence !== undefined ? `, confidence ${confidence}` : ''})` : ''}`)
+      console.log(`     expected: ${JSON.stringify(expected)}`)
+      console.log(`     actual:   ${JSON.stringify(actual)}`)
+    })
+  })
+
+  console.log('\nField accuracy')
+  console.log('----------------------------------------')
+
+  const accuracy = fieldAccuracy(results)
+  let correct = 0
+  let total = 0
+  FIELDS.filter(field => accuracy[field]).forEach(field => {
+    const { correct: fieldCorrect, total: fieldTotal } = accuracy[field]
+    correct += fieldCorrect
+    total += fieldTotal
+    console.log(`${field.padEnd(12)} ${String(fieldCorrect).padStart(3)}/${String(fieldTotal).padEnd(3)} ${percent(fieldCorrect, fieldTotal)}`)
+  })
+  console.log(`${'total'.padEnd(12)} ${String(correct).padStart(3)}/${String(total).padEnd(3)} ${percent(correct, total)}`)
+
+  const failedFixtures = results.filter(result => result.error || result.fields.some(field => !field.ok)).length
+  console.log(`\n${results.length - failedFixtures}/${results.length} fixtures passed`)
+}
+
+function percent(part: number, total: number): string {
+  return total === 0 ? '-' : `${(part / total * 100).toFixed(1)}%`
+}
+
+// SANDBOX
+
+// A fixture run must never reach a live page (or the LLM API)
+function blockNetwork() {
+  globalThis.fetch = (async (input: any) => {
+    throw new Error(`Network access during an offline fixture run: ${String(input?.url || input)}`)
+  }) as typeof fetch
+}
+
+// The extractors log every step; only keep that output with --verbose
+async function quietly<T>(enabled: boolean, task: () => Promise<T>): Promise<T> {
+  if (!enabled) return task()
+
+  const { log, warn } = console
+  console.log = () => {}
+  console.warn = () => {}
+  try {
+    return await task()
+  } finally {
+    console.log = log
+    console.warn = warn
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Extraction fixtures failed to run:', error)
+  process.exit(1)
+})
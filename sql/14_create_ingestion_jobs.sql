@@ -0,0 +1,136 @@
+-- Migration: Create ingestion job tables for background link processing
+-- A job groups the URLs submitted on the prospecção page; each URL becomes an
+-- item that a worker processes independently, so progress survives timeouts
+-- and closed browser tabs, and failed items can be retried one by one.
+
+-- Create the ingestion_job table
+CREATE TABLE IF NOT EXISTS public.ingestion_job (
+    job_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source TEXT NOT NULL DEFAULT 'links',
+    status TEXT NOT NULL DEFAULT 'queued',
+    options JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT ingestion_job_source_check CHECK (
+        source IN ('links', 'sympla_discovery')
+    ),
+    CONSTRAINT ingestion_job_status_check CHECK (
+        status IN ('queued', 'running', 'completed')
+    )
+);
+
+-- Create the ingestion_job_item table (one row per URL)
+CREATE TABLE IF NOT EXISTS public.ingestion_job_item (
+    item_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES public.ingestion_job(job_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    options JSONB NOT NULL DEFAULT '{}'::jsonb,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    event_name TEXT,
+    organizer_name TEXT,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT ingestion_job_item_status_check CHECK (
+        status IN ('queued', 'running', 'done', 'failed', 'duplicate')
+    )
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ingestion_job ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingestion_job_item ENABLE ROW LEVEL SECURITY;
+
+-- Policies: users can only see and manage their own jobs and items
+CREATE POLICY "Users can view own ingestion jobs" ON public.ingestion_job
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own ingestion jobs" ON public.ingestion_job
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own ingestion jobs" ON public.ingestion_job
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own ingestion jobs" ON public.ingestion_job
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own ingestion job items" ON public.ingestion_job_item
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own ingestion job items" ON public.ingestion_job_item
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own ingestion job items" ON public.ingestion_job_item
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own ingestion job items" ON public.ingestion_job_item
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_user_created ON public.ingestion_job(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_status ON public.ingestion_job(status) WHERE status <> 'completed';
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_item_job ON public.ingestion_job_item(job_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_item_queued ON public.ingestion_job_item(created_at) WHERE status = 'queued';
+
+-- updated_at triggers
+DROP TRIGGER IF EXISTS update_ingestion_job_updated_at ON public.ingestion_job;
+CREATE TRIGGER update_ingestion_job_updated_at
+    BEFORE UPDATE ON public.ingestion_job
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_ingestion_job_item_updated_at ON public.ingestion_job_item;
+CREATE TRIGGER update_ingestion_job_item_updated_at
+    BEFORE UPDATE ON public.ingestion_job_item
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Function to atomically claim queued items for a worker.
+-- Items stuck in 'running' for more than 10 minutes (a worker that died
+-- mid-request) are reclaimed as well.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_items(
+    p_job_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 1
+)
+RETURNS SETOF public.ingestion_job_item AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.ingestion_job_item i
+    SET status = 'running',
+        attempts = i.attempts + 1,
+        started_at = NOW(),
+        error = NULL
+    WHERE i.item_id IN (
+        SELECT item_id
+        FROM public.ingestion_job_item
+        WHERE (p_job_id IS NULL OR job_id = p_job_id)
+          AND (
+            status = 'queued'
+            OR (status = 'running' AND started_at < NOW() - INTERVAL '10 minutes')
+          )
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING i.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE public.ingestion_job IS 'Batch of URLs submitted for import, processed in the background';
+COMMENT ON COLUMN public.ingestion_job.source IS 'How the URLs were obtained: pasted links or Sympla discovery';
+COMMENT ON COLUMN public.ingestion_job.options IS 'Submission options (e.g. includePastEvents, discovery parameters)';
+COMMENT ON TABLE public.ingestion_job_item IS 'One URL of an ingestion job with its processing status';
+COMMENT ON COLUMN public.ingestion_job_item.options IS 'Per-item options, e.g. the organizer override for events expanded from an Eventbrite organizer profile';
+COMMENT ON COLUMN public.ingestion_job_item.attempts IS 'Number of times a worker picked up this item';
+COMMENT ON FUNCTION public.claim_ingestion_items IS 'Marks up to p_limit queued items as running and returns them (safe for concurrent workers)';
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.ingestion_job TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.ingestion_job_item TO authenticated;
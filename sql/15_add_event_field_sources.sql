@@ -0,0 +1,7 @@
+-- Migration: Record which extraction path produced each event field
+-- Values per field: json_ld, next_data, meta, html or llm
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.event.field_sources IS 'Extraction source per field, e.g. {"nome_evento": "json_ld", "produtor": "llm"}';
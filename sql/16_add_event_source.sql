@@ -0,0 +1,18 @@
+-- Migration: Record the ticketing platform each event was imported from
+-- Values match the adapter ids in lib/event-sources (sympla, eventbrite, ...)
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS source TEXT;
+
+-- Backfill existing events from their URL
+UPDATE public.event
+SET source = CASE
+    WHEN sympla_url ILIKE '%sympla.com.br%' THEN 'sympla'
+    WHEN sympla_url ILIKE '%eventbrite.%' THEN 'eventbrite'
+END
+WHERE source IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_source ON public.event(source);
+
+COMMENT ON COLUMN public.event.source IS 'Ticketing platform adapter that imported the event (sympla, eventbrite, ...)';
+COMMENT ON COLUMN public.event.sympla_url IS 'Canonical event page URL on the source platform (kept under its original name for every platform)';
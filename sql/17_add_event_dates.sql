@@ -0,0 +1,55 @@
+-- Migration: Structured event dates
+-- data_evento keeps the text shown on the ticketing page ("22 out - 2025");
+-- start_at/end_at hold the parsed timestamps so leads can be sorted and filtered.
+-- Existing rows are filled by POST /api/maintenance/backfill-event-dates
+-- (Authorization: Bearer $CRON_SECRET), which uses the pt-BR parser in lib/pt-br-dates.ts.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS start_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS end_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS date_parse_failed BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_event_user_start_at ON public.event(user_id, start_at);
+
+-- Rows the parser could not read, for manual review
+CREATE INDEX IF NOT EXISTS idx_event_date_parse_failed ON public.event(user_id)
+    WHERE date_parse_failed = true;
+
+COMMENT ON COLUMN public.event.start_at IS 'Event start parsed from the page data or from data_evento';
+COMMENT ON COLUMN public.event.end_at IS 'Event end for multi-day events or when an end time is known';
+COMMENT ON COLUMN public.event.date_parse_failed IS 'True when data_evento could not be parsed into start_at';
+
+-- Expose the dates on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT 
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
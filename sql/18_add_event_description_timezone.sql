@@ -0,0 +1,47 @@
+-- Migration: Keep the event description and timezone extracted from the event page
+-- Filled for every platform by the ingestion pipeline (lib/lead-ingestion.ts)
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.event.description IS 'Event description as published on the ticketing page (plain text)';
+COMMENT ON COLUMN public.event.timezone IS 'IANA timezone or UTC offset of the event dates, e.g. America/Sao_Paulo or -03:00';
+
+-- Expose the new columns on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT 
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
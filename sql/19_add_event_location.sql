@@ -0,0 +1,74 @@
+-- Migration: Normalized event location
+-- event.local keeps the text shown on the ticketing page; venue/street/city/state/country
+-- are parsed from it (and from the page's structured address) by lib/location, which
+-- matches cities against the bundled IBGE municipality table.
+-- Existing rows are filled by POST /api/maintenance/backfill-event-locations
+-- (Authorization: Bearer $CRON_SECRET).
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS venue TEXT,
+    ADD COLUMN IF NOT EXISTS street TEXT,
+    ADD COLUMN IF NOT EXISTS city TEXT,
+    ADD COLUMN IF NOT EXISTS state TEXT,
+    ADD COLUMN IF NOT EXISTS country CHAR(2),
+    ADD COLUMN IF NOT EXISTS ibge_code CHAR(7),
+    ADD COLUMN IF NOT EXISTS location_parse_failed BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_event_user_state_city ON public.event(user_id, state, city);
+
+-- Rows whose city could not be identified, for manual review
+CREATE INDEX IF NOT EXISTS idx_event_location_parse_failed ON public.event(user_id)
+    WHERE location_parse_failed = true;
+
+COMMENT ON COLUMN public.event.venue IS 'Venue name, e.g. Expo Center Norte';
+COMMENT ON COLUMN public.event.street IS 'Street address with number when published';
+COMMENT ON COLUMN public.event.city IS 'Canonical IBGE municipality name for Brazilian events';
+COMMENT ON COLUMN public.event.state IS 'Two-letter UF for Brazilian events, raw region otherwise';
+COMMENT ON COLUMN public.event.country IS 'ISO 3166-1 alpha-2 country code';
+COMMENT ON COLUMN public.event.ibge_code IS '7-digit IBGE municipality code';
+COMMENT ON COLUMN public.event.location_parse_failed IS 'True when no city could be identified in a physical event location';
+
+-- Expose the location on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT 
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone,
+    -- Normalized location
+    e.venue as event_venue,
+    e.street as event_street,
+    e.city as event_city,
+    e.state as event_state,
+    e.country as event_country,
+    e.ibge_code as event_ibge_code
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
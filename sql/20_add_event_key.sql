@@ -0,0 +1,23 @@
+-- Migration: Event identity for duplicate detection
+-- The same event reaches the importer with tracking parameters, trailing slashes,
+-- older URL shapes or another Eventbrite domain. event_key ("sympla:2345678",
+-- "eventbrite:987654321") identifies the event behind any of them; sympla_url holds
+-- the canonical URL (lib/event-sources/event-urls.ts).
+-- sympla_url used to be unique across all users, so a second user could not import an
+-- event someone else already had; uniqueness is now per user.
+-- Existing rows are canonicalized and their duplicates merged by
+-- POST /api/maintenance/merge-duplicate-events (Authorization: Bearer $CRON_SECRET).
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_sympla_url_key;
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_user_sympla_url_key;
+ALTER TABLE public.event
+    ADD CONSTRAINT event_user_sympla_url_key UNIQUE (user_id, sympla_url);
+
+-- Duplicate checks are always scoped to one user
+CREATE INDEX IF NOT EXISTS idx_event_user_event_key ON public.event(user_id, event_key);
+
+COMMENT ON COLUMN public.event.sympla_url IS 'Canonical event page URL on any supported platform (unique per user)';
+COMMENT ON COLUMN public.event.event_key IS 'Platform event identity, e.g. sympla:2345678; equal keys for one user are the same event';
@@ -0,0 +1,90 @@
+-- Migration: Merge duplicate organizers
+-- Ticketing pages spell one organizer in several ways ("IBDiC", "Ibdic", "Instituto
+-- Brasileiro de Direito Contratual"), and get_or_create_organizer only matches exact
+-- names, so events and contacts end up scattered across rows. Imports now reuse an
+-- organizer with the same normalized name or website (lib/organizer-matching.ts);
+-- the remaining duplicates are merged from the organizers page with this function.
+
+CREATE OR REPLACE FUNCTION public.merge_organizers(
+    p_survivor_id UUID,
+    p_merged_ids UUID[],
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_ids UUID[];
+    v_merged INTEGER;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'User ID is required';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.organizer
+        WHERE organizer_id = p_survivor_id AND user_id = p_user_id
+    ) THEN
+        RAISE EXCEPTION 'Organizer % not found', p_survivor_id;
+    END IF;
+
+    -- Only the user's own organizers, never the survivor itself
+    SELECT array_agg(organizer_id) INTO v_ids
+    FROM public.organizer
+    WHERE organizer_id = ANY(p_merged_ids)
+      AND organizer_id <> p_survivor_id
+      AND user_id = p_user_id;
+
+    IF v_ids IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- Contacts whose email the survivor already has would break unique_email_per_organizer
+    DELETE FROM public.contact c
+    WHERE c.organizer_id = ANY(v_ids)
+      AND c.email IS NOT NULL
+      AND EXISTS (
+          SELECT 1 FROM public.contact s
+          WHERE s.organizer_id = p_survivor_id
+            AND lower(s.email) = lower(c.email)
+      );
+
+    -- Same email on two merged organizers: keep the oldest contact
+    DELETE FROM public.contact c
+    WHERE c.organizer_id = ANY(v_ids)
+      AND c.email IS NOT NULL
+      AND EXISTS (
+          SELECT 1 FROM public.contact o
+          WHERE o.organizer_id = ANY(v_ids)
+            AND lower(o.email) = lower(c.email)
+            AND (o.created_at, o.contact_id) < (c.created_at, c.contact_id)
+      );
+
+    UPDATE public.contact SET organizer_id = p_survivor_id
+    WHERE organizer_id = ANY(v_ids);
+
+    UPDATE public.event SET organizer_id = p_survivor_id
+    WHERE organizer_id = ANY(v_ids);
+
+    UPDATE public.leads SET organizer_id = p_survivor_id
+    WHERE organizer_id = ANY(v_ids);
+
+    -- Keep a website when only a merged organizer had one
+    UPDATE public.organizer s
+    SET website = (
+            SELECT m.website FROM public.organizer m
+            WHERE m.organizer_id = ANY(v_ids) AND m.website IS NOT NULL
+            ORDER BY m.created_at
+            LIMIT 1
+        )
+    WHERE s.organizer_id = p_survivor_id
+      AND s.website IS NULL;
+
+    DELETE FROM public.organizer WHERE organizer_id = ANY(v_ids);
+    GET DIAGNOSTICS v_merged = ROW_COUNT;
+
+    RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.merge_organizers TO authenticated;
+
+COMMENT ON FUNCTION public.merge_organizers IS 'Moves contacts, events and leads of duplicate organizers into the survivor and deletes the duplicates';
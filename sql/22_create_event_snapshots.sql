@@ -0,0 +1,47 @@
+-- Migration: Raw page snapshots for ingested events
+-- Every page the importer downloads for an event is kept: the HTML as fetched (or as
+-- rendered by the headless browser) and, on the browser path, a screenshot stored in
+-- the private event-snapshots bucket. Snapshots let us see what the page said when an
+-- extraction is wrong and re-run an improved extractor without refetching
+-- (POST /api/leads/[id]/reextract).
+
+CREATE TABLE IF NOT EXISTS public.event_snapshot (
+    snapshot_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID NOT NULL REFERENCES public.event(event_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    via TEXT NOT NULL,
+    html TEXT NOT NULL,
+    screenshot_path TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT event_snapshot_via_check CHECK (
+        via IN ('fetch', 'browser')
+    )
+);
+
+ALTER TABLE public.event_snapshot ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own event snapshots" ON public.event_snapshot
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own event snapshots" ON public.event_snapshot
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own event snapshots" ON public.event_snapshot
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_event_snapshot_event_created ON public.event_snapshot(event_id, created_at DESC);
+
+GRANT SELECT, INSERT, DELETE ON public.event_snapshot TO authenticated;
+
+-- Screenshots live in Storage under <user_id>/<event_id>/; only the service role reads them
+-- and hands out signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('event-snapshots', 'event-snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.event_snapshot IS 'Pages downloaded while importing an event, kept for review and re-extraction';
+COMMENT ON COLUMN public.event_snapshot.via IS 'fetch for a plain HTTP request, browser for a headless Chromium render';
+COMMENT ON COLUMN public.event_snapshot.html IS 'Page HTML exactly as the extractor received it';
+COMMENT ON COLUMN public.event_snapshot.screenshot_path IS 'Object path of the screenshot in the event-snapshots bucket (browser path only)';
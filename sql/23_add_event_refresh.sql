@@ -0,0 +1,107 @@
+-- Migration: Scheduled event refresh
+-- Imported events used to be left alone, so postponed or cancelled congresses kept
+-- being pitched. The refresh job (GET /api/event-refresh/worker, see vercel.json crons)
+-- re-fetches upcoming events, records every change of name, date or location in
+-- event_change and tracks cancellations, postponements, sold-out events and removed
+-- pages in event.status. lib/event-refresh.ts has the details.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+    ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_changed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS changes_seen_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS refresh_failures INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_status_check;
+ALTER TABLE public.event
+    ADD CONSTRAINT event_status_check CHECK (
+        status IN ('active', 'postponed', 'cancelled', 'sold_out', 'removed')
+    );
+
+-- Events the refresh job still visits, least recently refreshed first
+CREATE INDEX IF NOT EXISTS idx_event_refresh_due ON public.event(last_refreshed_at NULLS FIRST)
+    WHERE status IN ('active', 'postponed', 'sold_out');
+
+-- Change history, one row per changed field
+CREATE TABLE IF NOT EXISTS public.event_change (
+    change_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID NOT NULL REFERENCES public.event(event_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT event_change_field_check CHECK (
+        field IN ('nome_evento', 'data_evento', 'start_at', 'end_at', 'local', 'status')
+    )
+);
+
+ALTER TABLE public.event_change ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own event changes" ON public.event_change
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own event changes" ON public.event_change
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_event_change_event_detected ON public.event_change(event_id, detected_at DESC);
+
+GRANT SELECT, DELETE ON public.event_change TO authenticated;
+
+COMMENT ON COLUMN public.event.status IS 'active, postponed, cancelled, sold_out, or removed when the page is gone';
+COMMENT ON COLUMN public.event.last_refreshed_at IS 'When the refresh job last fetched the event page';
+COMMENT ON COLUMN public.event.last_changed_at IS 'When the refresh job last detected a change';
+COMMENT ON COLUMN public.event.changes_seen_at IS 'When the user last acknowledged the changes; newer changes show as a badge';
+COMMENT ON COLUMN public.event.refresh_failures IS 'Consecutive refreshes that could not read the page';
+COMMENT ON TABLE public.event_change IS 'Changes detected by the refresh job, one row per field';
+
+-- Expose the refresh state on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone,
+    -- Normalized location
+    e.venue as event_venue,
+    e.street as event_street,
+    e.city as event_city,
+    e.state as event_state,
+    e.country as event_country,
+    e.ibge_code as event_ibge_code,
+    -- Refresh state
+    e.status as event_status,
+    e.last_refreshed_at as event_last_refreshed_at,
+    e.last_changed_at as event_last_changed_at,
+    (e.last_changed_at IS NOT NULL AND (e.changes_seen_at IS NULL OR e.changes_seen_at < e.last_changed_at)) as event_has_unseen_changes
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
@@ -0,0 +1,19 @@
+-- Migration: Per-user LLM settings
+-- The extractors ask an LLM for the fields a page does not expose. The deployment
+-- picks the provider and model (LLM_PROVIDER, LLM_MODEL); these columns let a user
+-- override them, e.g. to run their imports on a local OpenAI-compatible server.
+-- NULL means "use the deployment's setting". API keys and server URLs stay in the
+-- environment. lib/llm-settings.ts reads and writes them.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS llm_provider TEXT,
+    ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_llm_provider_check;
+ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_llm_provider_check CHECK (
+        llm_provider IS NULL OR llm_provider IN ('openai', 'openai_compatible', 'mock')
+    );
+
+COMMENT ON COLUMN public.profiles.llm_provider IS 'openai, openai_compatible or mock; NULL uses LLM_PROVIDER';
+COMMENT ON COLUMN public.profiles.llm_model IS 'Model name for the provider; NULL uses LLM_MODEL or the provider default';
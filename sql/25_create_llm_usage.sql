@@ -0,0 +1,61 @@
+-- Migration: LLM usage and cost accounting
+-- Every LLM call (event extraction today; email generation and classification when
+-- they use the LLM) is recorded with its model, token counts, estimated cost and
+-- latency, linked to the lead, event and ingestion job it was made for. Users get a
+-- monthly budget (profiles.llm_monthly_budget_usd, LLM_MONTHLY_BUDGET_USD by default);
+-- once the month's estimated cost reaches it, further calls are refused.
+-- lib/llm-usage.ts records and reports the usage.
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+    usage_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    success BOOLEAN NOT NULL DEFAULT true,
+    error TEXT,
+    -- What the call was for; kept when those rows go away
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    event_id UUID REFERENCES public.event(event_id) ON DELETE SET NULL,
+    job_id UUID REFERENCES public.ingestion_job(job_id) ON DELETE SET NULL,
+    item_id UUID REFERENCES public.ingestion_job_item(item_id) ON DELETE SET NULL,
+    source_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT llm_usage_purpose_check CHECK (
+        purpose IN ('extraction', 'refresh', 'email_generation', 'classification')
+    )
+);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own LLM usage" ON public.llm_usage
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON public.llm_usage(user_id, created_at DESC);
+
+GRANT SELECT ON public.llm_usage TO authenticated;
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS llm_monthly_budget_usd NUMERIC(10, 2);
+
+-- Estimated spend of a user since a date (the start of the month for the budget)
+CREATE OR REPLACE FUNCTION public.get_llm_spend(
+    p_user_id UUID,
+    p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(SUM(cost_usd), 0)
+    FROM public.llm_usage
+    WHERE user_id = p_user_id
+      AND created_at >= p_since;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON TABLE public.llm_usage IS 'One row per LLM call with tokens, estimated cost and latency';
+COMMENT ON COLUMN public.llm_usage.cost_usd IS 'Estimated from the model price list in lib/llm/pricing.ts';
+COMMENT ON COLUMN public.profiles.llm_monthly_budget_usd IS 'Monthly LLM budget in US dollars; NULL uses LLM_MONTHLY_BUDGET_USD (no limit when unset)';
+COMMENT ON FUNCTION public.get_llm_spend IS 'Sum of llm_usage.cost_usd for a user since p_since';
@@ -0,0 +1,128 @@
+-- Migration: Extraction confidence and the review queue
+-- When a page does not name the producer, the extractors (and the LLM) answer with a
+-- placeholder such as "Não informado", which get_or_create_organizer used to turn into
+-- an organizer every such event ended up under. Each extracted field now carries a
+-- confidence (event.field_confidence, next to field_sources); placeholders score 0 and
+-- are refused as organizer names. Imports with a field below the review threshold
+-- (EXTRACTION_REVIEW_THRESHOLD) are parked in extraction_review instead of becoming
+-- leads, and the lead is created once the user corrects and approves them.
+-- lib/extraction-reviews.ts manages the queue.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS field_confidence JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.event.field_confidence IS 'Extraction confidence per field from 0 to 1, e.g. {"nome_evento": 0.95, "produtor": 0.4}';
+
+-- Same rules as isPlaceholderValue in lib/event-sources/field-confidence.ts
+CREATE OR REPLACE FUNCTION public.is_placeholder_name(p_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT p_name IS NULL
+        OR trim(p_name) = ''
+        OR regexp_replace(trim(p_name), '\s+', ' ', 'g') ~* '^((organizador|local|data|produtor|evento|nome)\s+)?n[ãa]o\s+(informad[oa]|encontrad[oa]|dispon[íi]vel|identificad[oa])$'
+        OR trim(p_name) ~* '^(n/?a|null|undefined|none|unknown|desconhecid[oa]|sem\s+(nome|informa[çc][ãa]o)|-+|\?+)$';
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION public.is_placeholder_name IS 'Whether a name is empty or a "not informed" placeholder';
+
+-- Refuse placeholders as organizer names
+CREATE OR REPLACE FUNCTION public.get_or_create_organizer(
+    p_name TEXT,
+    p_website TEXT DEFAULT NULL,
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS UUID AS $$
+DECLARE
+    v_organizer_id UUID;
+BEGIN
+    -- Validate input
+    IF p_name IS NULL OR trim(p_name) = '' THEN
+        RAISE EXCEPTION 'Organizer name cannot be empty';
+    END IF;
+
+    IF public.is_placeholder_name(p_name) THEN
+        RAISE EXCEPTION 'Organizer name "%" is a placeholder', trim(p_name);
+    END IF;
+
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'User ID is required';
+    END IF;
+
+    -- Try to find existing organizer
+    SELECT organizer_id INTO v_organizer_id
+    FROM public.organizer
+    WHERE name = trim(p_name)
+      AND user_id = p_user_id;
+
+    -- Create if not found
+    IF v_organizer_id IS NULL THEN
+        INSERT INTO public.organizer (name, website, user_id)
+        VALUES (trim(p_name), p_website, p_user_id)
+        RETURNING organizer_id INTO v_organizer_id;
+    ELSE
+        -- Update website if provided and different
+        IF p_website IS NOT NULL THEN
+            UPDATE public.organizer
+            SET website = p_website, updated_at = NOW()
+            WHERE organizer_id = v_organizer_id
+              AND (website IS NULL OR website != p_website);
+        END IF;
+    END IF;
+
+    RETURN v_organizer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Imports waiting for a person to check their fields
+CREATE TABLE IF NOT EXISTS public.extraction_review (
+    review_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending',
+    url TEXT NOT NULL,
+    event_key TEXT NOT NULL,
+    source TEXT NOT NULL,
+    -- The extracted event (EventData in lib/lead-ingestion.ts), sources and confidences included
+    event_data JSONB NOT NULL,
+    -- Fields below the threshold, weakest first
+    low_fields TEXT[] NOT NULL DEFAULT '{}',
+    -- Last page downloaded, archived as the event snapshot once approved
+    page_url TEXT,
+    page_via TEXT,
+    page_html TEXT,
+    job_id UUID REFERENCES public.ingestion_job(job_id) ON DELETE SET NULL,
+    item_id UUID REFERENCES public.ingestion_job_item(item_id) ON DELETE SET NULL,
+    -- LLM calls made for the extraction, linked to the lead once it exists
+    llm_usage_ids UUID[] NOT NULL DEFAULT '{}',
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT extraction_review_status_check CHECK (
+        status IN ('pending', 'approved', 'rejected')
+    )
+);
+
+ALTER TABLE public.extraction_review ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own extraction reviews" ON public.extraction_review
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own extraction reviews" ON public.extraction_review
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own extraction reviews" ON public.extraction_review
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_review_user_status ON public.extraction_review(user_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_extraction_review_pending_key ON public.extraction_review(user_id, event_key) WHERE status = 'pending';
+
+GRANT SELECT, UPDATE, DELETE ON public.extraction_review TO authenticated;
+
+-- Job items whose import waits in the review queue
+ALTER TABLE public.ingestion_job_item DROP CONSTRAINT IF EXISTS ingestion_job_item_status_check;
+ALTER TABLE public.ingestion_job_item
+    ADD CONSTRAINT ingestion_job_item_status_check CHECK (
+        status IN ('queued', 'running', 'done', 'failed', 'duplicate', 'review')
+    );
+
+COMMENT ON TABLE public.extraction_review IS 'Low-confidence imports waiting to be corrected and approved before the lead is created';
+COMMENT ON COLUMN public.extraction_review.status IS 'pending, approved (lead created) or rejected';
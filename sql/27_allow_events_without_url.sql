@@ -0,0 +1,14 @@
+-- Migration: Events without an event page
+-- Spreadsheet imports (/import) bring congresses that have no ticketing page yet, so
+-- sympla_url and event_key can now be empty. The unique (user_id, sympla_url)
+-- constraint ignores NULLs; those events are told apart by name and organizer
+-- (lib/lead-import.ts). Events without a URL are never refreshed or merged by URL.
+
+ALTER TABLE public.event ALTER COLUMN sympla_url DROP NOT NULL;
+
+-- Same name and organizer is the only identity an event without a URL has
+CREATE INDEX IF NOT EXISTS idx_event_user_organizer_name ON public.event(user_id, organizer_id, lower(nome_evento))
+    WHERE sympla_url IS NULL;
+
+COMMENT ON COLUMN public.event.sympla_url IS 'Canonical event page URL on any supported platform (unique per user); NULL for events entered without one';
+COMMENT ON COLUMN public.event.event_key IS 'Platform event identity, e.g. sympla:2345678; equal keys for one user are the same event. NULL when the event has no URL';
@@ -0,0 +1,75 @@
+-- Migration: Lead origin
+-- Leads used to come only from pasted links; spreadsheets (/import) and the new lead
+-- form (/leads/new, for referrals and events found by hand) now create them too.
+-- leads.origin records which, with the values of LEAD_ORIGINS in lib/lead-origins.ts.
+
+ALTER TABLE public.leads
+    ADD COLUMN IF NOT EXISTS origin TEXT NOT NULL DEFAULT 'url_import';
+
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS leads_origin_check;
+ALTER TABLE public.leads
+    ADD CONSTRAINT leads_origin_check CHECK (
+        origin IN ('url_import', 'spreadsheet', 'referral', 'inbound', 'event_page')
+    );
+
+-- Spreadsheet rows are the only events saved without a URL so far
+UPDATE public.leads l
+SET origin = 'spreadsheet'
+FROM public.event e
+WHERE e.event_id = l.event_id
+  AND e.sympla_url IS NULL
+  AND l.origin = 'url_import';
+
+COMMENT ON COLUMN public.leads.origin IS 'url_import (pasted links and discovery), spreadsheet, or entered by hand: referral, inbound, event_page';
+
+-- Expose the origin on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone,
+    -- Normalized location
+    e.venue as event_venue,
+    e.street as event_street,
+    e.city as event_city,
+    e.state as event_state,
+    e.country as event_country,
+    e.ibge_code as event_ibge_code,
+    -- Refresh state
+    e.status as event_status,
+    e.last_refreshed_at as event_last_refreshed_at,
+    e.last_changed_at as event_last_changed_at,
+    (e.last_changed_at IS NOT NULL AND (e.changes_seen_at IS NULL OR e.changes_seen_at < e.last_changed_at)) as event_has_unseen_changes,
+    -- Lead origin
+    l.origin as lead_origin
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
@@ -0,0 +1,89 @@
+-- Migration: Event size and format details
+-- Name, date, location and organizer are not enough to judge whether an event is big
+-- enough to need a professional host. The extractors now also read ticket tiers and
+-- prices, stated capacity or attendance hints, the online/hybrid/in-person format and
+-- the platform's categories (see lib/event-sources/event-details.ts).
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS ticket_tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS price_min NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS price_max NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS price_currency TEXT,
+    ADD COLUMN IF NOT EXISTS capacity INTEGER,
+    ADD COLUMN IF NOT EXISTS attendance_hint TEXT,
+    ADD COLUMN IF NOT EXISTS format TEXT,
+    ADD COLUMN IF NOT EXISTS categories TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_format_check;
+ALTER TABLE public.event
+    ADD CONSTRAINT event_format_check CHECK (
+        format IS NULL OR format IN ('in_person', 'online', 'hybrid')
+    );
+
+COMMENT ON COLUMN public.event.ticket_tiers IS 'Ticket tiers as listed on the event page: [{name, price, currency, sold_out}]';
+COMMENT ON COLUMN public.event.price_min IS 'Cheapest ticket; 0 for free events';
+COMMENT ON COLUMN public.event.capacity IS 'Attendee limit the page states';
+COMMENT ON COLUMN public.event.attendance_hint IS 'Audience size as the page words it, e.g. "mais de 800 participantes"';
+COMMENT ON COLUMN public.event.format IS 'in_person, online or hybrid; NULL when the page does not say';
+COMMENT ON COLUMN public.event.categories IS 'Categories and tags of the ticketing platform';
+
+-- Expose the details on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone,
+    -- Normalized location
+    e.venue as event_venue,
+    e.street as event_street,
+    e.city as event_city,
+    e.state as event_state,
+    e.country as event_country,
+    e.ibge_code as event_ibge_code,
+    -- Refresh state
+    e.status as event_status,
+    e.last_refreshed_at as event_last_refreshed_at,
+    e.last_changed_at as event_last_changed_at,
+    (e.last_changed_at IS NOT NULL AND (e.changes_seen_at IS NULL OR e.changes_seen_at < e.last_changed_at)) as event_has_unseen_changes,
+    -- Lead origin
+    l.origin as lead_origin,
+    -- Size and shape of the event
+    e.ticket_tiers as event_ticket_tiers,
+    e.price_min as event_price_min,
+    e.price_max as event_price_max,
+    e.price_currency as event_price_currency,
+    e.capacity as event_capacity,
+    e.attendance_hint as event_attendance_hint,
+    e.format as event_format,
+    e.categories as event_categories
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
@@ -0,0 +1,117 @@
+-- Migration: Event and organizer segments
+-- The pitch differs between a legal congress, a medical symposium and a tech conference.
+-- Events are classified into a fixed taxonomy (EVENT_SEGMENTS in lib/event-segments.ts)
+-- by keyword rules when saved and optionally by the LLM (lib/event-classification.ts);
+-- organizers take the most common segment of their events. Either can be set by hand,
+-- and hand-set segments are never overwritten.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS segment TEXT,
+    ADD COLUMN IF NOT EXISTS segment_source TEXT;
+
+ALTER TABLE public.organizer
+    ADD COLUMN IF NOT EXISTS segment TEXT,
+    ADD COLUMN IF NOT EXISTS segment_source TEXT;
+
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_segment_check;
+ALTER TABLE public.event
+    ADD CONSTRAINT event_segment_check CHECK (
+        segment IS NULL OR segment IN (
+            'legal', 'health', 'tech', 'agribusiness', 'finance', 'education', 'corporate',
+            'marketing', 'engineering', 'public_sector', 'culture', 'other'
+        )
+    );
+
+ALTER TABLE public.event DROP CONSTRAINT IF EXISTS event_segment_source_check;
+ALTER TABLE public.event
+    ADD CONSTRAINT event_segment_source_check CHECK (
+        segment_source IS NULL OR segment_source IN ('keywords', 'llm', 'manual')
+    );
+
+ALTER TABLE public.organizer DROP CONSTRAINT IF EXISTS organizer_segment_check;
+ALTER TABLE public.organizer
+    ADD CONSTRAINT organizer_segment_check CHECK (
+        segment IS NULL OR segment IN (
+            'legal', 'health', 'tech', 'agribusiness', 'finance', 'education', 'corporate',
+            'marketing', 'engineering', 'public_sector', 'culture', 'other'
+        )
+    );
+
+ALTER TABLE public.organizer DROP CONSTRAINT IF EXISTS organizer_segment_source_check;
+ALTER TABLE public.organizer
+    ADD CONSTRAINT organizer_segment_source_check CHECK (
+        segment_source IS NULL OR segment_source IN ('events', 'manual')
+    );
+
+CREATE INDEX IF NOT EXISTS idx_event_user_segment ON public.event(user_id, segment);
+CREATE INDEX IF NOT EXISTS idx_organizer_user_segment ON public.organizer(user_id, segment);
+
+COMMENT ON COLUMN public.event.segment IS 'Industry segment; NULL until classified';
+COMMENT ON COLUMN public.event.segment_source IS 'keywords, llm, or manual (set by a person, kept by the classifier)';
+COMMENT ON COLUMN public.organizer.segment IS 'Industry segment; follows its events unless set by hand';
+COMMENT ON COLUMN public.organizer.segment_source IS 'events (most common segment of its events) or manual';
+
+-- Expose the segments on the complete leads view (new columns go last)
+CREATE OR REPLACE VIEW public.leads_complete AS
+SELECT
+    l.id,
+    l.organizer_id,
+    l.event_id,
+    l.user_id,
+    l.contato_verificado,
+    l.data_ultima_busca,
+    l.hunter_domain,
+    l.status_busca,
+    l.created_at,
+    l.updated_at,
+    -- Organizer information
+    o.name as organizer_name,
+    o.website as organizer_website,
+    -- Event information
+    e.nome_evento,
+    e.data_evento,
+    e.local as event_local,
+    e.sympla_url,
+    -- User information
+    p.email as user_email,
+    p.full_name as user_full_name,
+    -- Structured event dates
+    e.start_at as event_start_at,
+    e.end_at as event_end_at,
+    e.date_parse_failed as event_date_parse_failed,
+    -- Event details
+    e.description as event_description,
+    e.timezone as event_timezone,
+    -- Normalized location
+    e.venue as event_venue,
+    e.street as event_street,
+    e.city as event_city,
+    e.state as event_state,
+    e.country as event_country,
+    e.ibge_code as event_ibge_code,
+    -- Refresh state
+    e.status as event_status,
+    e.last_refreshed_at as event_last_refreshed_at,
+    e.last_changed_at as event_last_changed_at,
+    (e.last_changed_at IS NOT NULL AND (e.changes_seen_at IS NULL OR e.changes_seen_at < e.last_changed_at)) as event_has_unseen_changes,
+    -- Lead origin
+    l.origin as lead_origin,
+    -- Size and shape of the event
+    e.ticket_tiers as event_ticket_tiers,
+    e.price_min as event_price_min,
+    e.price_max as event_price_max,
+    e.price_currency as event_price_currency,
+    e.capacity as event_capacity,
+    e.attendance_hint as event_attendance_hint,
+    e.format as event_format,
+    e.categories as event_categories,
+    -- Industry segment
+    e.segment as event_segment,
+    e.segment_source as event_segment_source,
+    o.segment as organizer_segment
+FROM public.leads l
+INNER JOIN public.organizer o ON l.organizer_id = o.organizer_id
+INNER JOIN public.event e ON l.event_id = e.event_id
+LEFT JOIN public.profiles p ON l.user_id = p.id;
+
+ALTER VIEW public.leads_complete SET (security_barrier = true);
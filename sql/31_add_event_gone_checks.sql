@@ -0,0 +1,10 @@
+-- Migration: Count missing-page checks apart from refresh failures
+-- The refresh job only marks an event removed after its page has been missing several
+-- checks in a row (a 404 or a redirect away can be an anti-bot or login page). Sharing
+-- refresh_failures with timeouts and server errors let two timeouts and one 404 pass for
+-- three missing pages, so missing pages get their own counter.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS gone_checks INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.event.gone_checks IS 'Consecutive refreshes that found the page missing; reset by any other outcome';
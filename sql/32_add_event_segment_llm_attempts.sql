@@ -0,0 +1,9 @@
+-- Migration: Remember events the LLM could not classify
+-- The classification pass only looks at events without a segment, and the ones the LLM
+-- could not place came back, and were paid for, on every run. segment_llm_attempted_at
+-- marks them so the LLM pass skips them; clearing a segment by hand resets it.
+
+ALTER TABLE public.event
+    ADD COLUMN IF NOT EXISTS segment_llm_attempted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.event.segment_llm_attempted_at IS 'When the LLM was asked for the segment and could not place the event';
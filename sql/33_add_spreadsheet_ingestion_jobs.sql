@@ -0,0 +1,13 @@
+-- Migration: Run spreadsheet imports as ingestion jobs
+-- A spreadsheet import can have up to 2000 rows, more than one request can
+-- save. The import now creates a job with one item per row (the row is kept
+-- in the item's options) and the ingestion worker saves the rows in the
+-- background, like pasted links.
+
+ALTER TABLE public.ingestion_job DROP CONSTRAINT IF EXISTS ingestion_job_source_check;
+ALTER TABLE public.ingestion_job
+    ADD CONSTRAINT ingestion_job_source_check CHECK (
+        source IN ('links', 'sympla_discovery', 'spreadsheet')
+    );
+
+COMMENT ON COLUMN public.ingestion_job_item.url IS 'URL to import; for spreadsheet rows the event URL, or empty when the row has none';